@@ -3,10 +3,17 @@ import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
+import AuthProvider from "@/components/auth/AuthProvider";
+import RequireAuth from "@/components/auth/RequireAuth";
+import RequireRole from "@/components/auth/RequireRole";
+import RoleHomeRedirect from "@/components/auth/RoleHomeRedirect";
 import Index from "./pages/Index";
 import Auth from "./pages/Auth";
+import CheckIn from "./pages/CheckIn";
 import Dashboard from "./pages/Dashboard";
 import NotFound from "./pages/NotFound";
+import ResetPassword from "./pages/ResetPassword";
+import Settings from "./pages/Settings";
 
 const queryClient = new QueryClient();
 
@@ -15,15 +22,32 @@ const App = () => (
     <TooltipProvider>
       <Toaster />
       <Sonner />
-      <BrowserRouter>
-        <Routes>
-          <Route path="/" element={<Index />} />
-          <Route path="/auth" element={<Auth />} />
-          <Route path="/dashboard" element={<Dashboard />} />
-          {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
-          <Route path="*" element={<NotFound />} />
-        </Routes>
-      </BrowserRouter>
+      <AuthProvider>
+        <BrowserRouter>
+          <Routes>
+            <Route path="/" element={<Index />} />
+            <Route path="/auth" element={<Auth />} />
+            <Route path="/reset-password" element={<ResetPassword />} />
+            <Route element={<RequireAuth />}>
+              <Route path="/dashboard" element={<RoleHomeRedirect />} />
+              <Route path="/check-in" element={<CheckIn />} />
+              <Route path="/settings" element={<Settings />} />
+              {/* Each role has its own area; the optional segment is the dashboard tab */}
+              <Route path="/admin" element={<RequireRole roles={["admin"]} />}>
+                <Route path=":tab?" element={<Dashboard />} />
+              </Route>
+              <Route path="/faculty" element={<RequireRole roles={["faculty"]} />}>
+                <Route path=":tab?" element={<Dashboard />} />
+              </Route>
+              <Route path="/student" element={<RequireRole roles={["student"]} />}>
+                <Route path=":tab?" element={<Dashboard />} />
+              </Route>
+            </Route>
+            {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
+            <Route path="*" element={<NotFound />} />
+          </Routes>
+        </BrowserRouter>
+      </AuthProvider>
     </TooltipProvider>
   </QueryClientProvider>
 );
@@ -0,0 +1,16 @@
+import { GraduationCap } from "lucide-react";
+
+interface AuthLoadingProps {
+  message?: string;
+}
+
+const AuthLoading = ({ message = "Loading your dashboard..." }: AuthLoadingProps) => (
+  <div className="min-h-screen bg-gradient-secondary flex items-center justify-center">
+    <div className="text-center">
+      <GraduationCap className="h-12 w-12 text-primary mx-auto mb-4 animate-spin" />
+      <p className="text-muted-foreground">{message}</p>
+    </div>
+  </div>
+);
+
+export default AuthLoading;
@@ -0,0 +1,48 @@
+import { ReactNode, useEffect, useState } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext } from "@/hooks/use-auth";
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+// Holds the Supabase session for the whole app so pages never read it themselves.
+const AuthProvider = ({ children }: AuthProviderProps) => {
+  const queryClient = useQueryClient();
+  const [session, setSession] = useState<Session | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [passwordRecovery, setPasswordRecovery] = useState(false);
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((event, nextSession) => {
+      setSession(nextSession);
+      setLoading(false);
+      // A reset link lets the password be changed without the old one
+      if (event === "PASSWORD_RECOVERY") setPasswordRecovery(true);
+      // ...but only once: after the new password is saved the session is an ordinary one
+      if (event === "USER_UPDATED") setPasswordRecovery(false);
+      // Nothing cached for the previous user may leak into the next session
+      if (event === "SIGNED_OUT") {
+        setPasswordRecovery(false);
+        queryClient.clear();
+      }
+    });
+
+    supabase.auth.getSession().then(({ data: { session: stored } }) => {
+      setSession(stored);
+      setLoading(false);
+    });
+
+    return () => subscription.unsubscribe();
+  }, [queryClient]);
+
+  return (
+    <AuthContext.Provider value={{ session, user: session?.user ?? null, loading, passwordRecovery }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
+
+export default AuthProvider;
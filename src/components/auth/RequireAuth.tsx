@@ -0,0 +1,42 @@
+import { ReactNode, useEffect } from "react";
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import AuthLoading from "@/components/auth/AuthLoading";
+import { useProfile, useSession } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+
+interface RequireAuthProps {
+  children?: ReactNode;
+}
+
+/**
+ * Renders its children (or nested routes) only with a session. Anyone else is
+ * sent to /auth, which brings them back here after signing in.
+ */
+const RequireAuth = ({ children }: RequireAuthProps) => {
+  const location = useLocation();
+  const { session, loading } = useSession();
+  const { data: profile, error } = useProfile();
+
+  useEffect(() => {
+    if (error) toast.error("Failed to load profile");
+  }, [error]);
+
+  // Deactivated accounts are banned in auth, but an old session may still be around
+  useEffect(() => {
+    if (profile && !profile.is_active) {
+      toast.error("This account has been deactivated. Contact an administrator.");
+      supabase.auth.signOut();
+    }
+  }, [profile]);
+
+  if (loading) return <AuthLoading />;
+
+  if (!session) {
+    return <Navigate to="/auth" replace state={{ from: location }} />;
+  }
+
+  return children ? <>{children}</> : <Outlet />;
+};
+
+export default RequireAuth;
@@ -0,0 +1,27 @@
+import { ReactNode } from "react";
+import { Navigate, Outlet } from "react-router-dom";
+import AuthLoading from "@/components/auth/AuthLoading";
+import { roleHome, useProfile } from "@/hooks/use-auth";
+import { UserRole } from "@/hooks/use-role-requests";
+
+interface RequireRoleProps {
+  roles: UserRole[];
+  children?: ReactNode;
+}
+
+// Must sit inside <RequireAuth>. Other roles are sent to their own home.
+const RequireRole = ({ roles, children }: RequireRoleProps) => {
+  const { data: profile, isLoading } = useProfile();
+
+  if (isLoading) return <AuthLoading />;
+
+  if (!profile) return <Navigate to="/" replace />;
+
+  if (!roles.includes(profile.role)) {
+    return <Navigate to={roleHome(profile.role)} replace />;
+  }
+
+  return children ? <>{children}</> : <Outlet />;
+};
+
+export default RequireRole;
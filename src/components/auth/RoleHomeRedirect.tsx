@@ -0,0 +1,14 @@
+import { Navigate } from "react-router-dom";
+import AuthLoading from "@/components/auth/AuthLoading";
+import { roleHome, useProfile } from "@/hooks/use-auth";
+
+// /dashboard forwards to the signed-in user's role area.
+const RoleHomeRedirect = () => {
+  const { data: profile, isLoading } = useProfile();
+
+  if (isLoading) return <AuthLoading />;
+
+  return <Navigate to={profile ? roleHome(profile.role) : "/"} replace />;
+};
+
+export default RoleHomeRedirect;
@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { CalendarRange, Loader2, Pencil, Plus, Trash2 } from "lucide-react";
+import { format } from "date-fns";
+import AcademicTermDialog from "@/components/dashboard/AcademicTermDialog";
+import CalendarEventDialog from "@/components/dashboard/CalendarEventDialog";
+import {
+  AcademicTerm,
+  CalendarEvent,
+  EVENT_KIND_LABELS,
+  useAcademicTerms,
+  useCalendarEvents,
+  useCalendarMutations,
+} from "@/hooks/use-academic-calendar";
+
+interface AcademicCalendarProps {
+  canManage: boolean;
+}
+
+const formatDate = (date: string) => format(new Date(`${date}T00:00:00`), "d MMM yyyy");
+
+const formatRange = (start: string, end: string) =>
+  start === end ? formatDate(start) : `${formatDate(start)} - ${formatDate(end)}`;
+
+const AcademicCalendar = ({ canManage }: AcademicCalendarProps) => {
+  const [editingTerm, setEditingTerm] = useState<AcademicTerm | null>(null);
+  const [termFormOpen, setTermFormOpen] = useState(false);
+  const [editingEvent, setEditingEvent] = useState<CalendarEvent | null>(null);
+  const [eventFormOpen, setEventFormOpen] = useState(false);
+  const [showPast, setShowPast] = useState(false);
+
+  const { data: terms = [], isLoading: termsLoading } = useAcademicTerms();
+  const { data: events = [], isLoading: eventsLoading } = useCalendarEvents();
+  const { removeTerm, removeEvent } = useCalendarMutations();
+
+  const today = format(new Date(), "yyyy-MM-dd");
+  const visibleEvents = showPast ? events : events.filter((event) => event.end_date >= today);
+
+  const openTermForm = (term: AcademicTerm | null) => {
+    setEditingTerm(term);
+    setTermFormOpen(true);
+  };
+
+  const openEventForm = (event: CalendarEvent | null) => {
+    setEditingEvent(event);
+    setEventFormOpen(true);
+  };
+
+  return (
+    <>
+      <Card className="shadow-card">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Academic Terms</CardTitle>
+            <CardDescription>Teaching dates of each term; terms without dates run every week</CardDescription>
+          </div>
+          {canManage && (
+            <Button onClick={() => openTermForm(null)}>
+              <Plus className="mr-2 h-4 w-4" />
+              Add Term
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {termsLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : terms.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Term</TableHead>
+                  <TableHead>Teaching dates</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {terms.map((term) => {
+                  const current = term.start_date <= today && today <= term.end_date;
+
+                  return (
+                    <TableRow key={term.id}>
+                      <TableCell>
+                        <div className="flex items-center space-x-2">
+                          <span className="font-medium">
+                            {term.semester} {term.academic_year}
+                          </span>
+                          {current && <Badge>Current</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>{formatRange(term.start_date, term.end_date)}</TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {canManage && (
+                          <>
+                            <Button variant="ghost" size="sm" onClick={() => openTermForm(term)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => {
+                                if (window.confirm(`Remove the dates of ${term.semester} ${term.academic_year}?`)) {
+                                  removeTerm.mutate(term.id);
+                                }
+                              }}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">No term dates have been set yet.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Holidays & Exam Periods</CardTitle>
+            <CardDescription>Days on which the regular weekly classes are suspended</CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" onClick={() => setShowPast((prev) => !prev)}>
+              {showPast ? "Hide past" : "Show past"}
+            </Button>
+            {canManage && (
+              <Button onClick={() => openEventForm(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Entry
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {eventsLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : visibleEvents.length > 0 ? (
+            visibleEvents.map((event) => (
+              <div key={event.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="flex items-center space-x-4">
+                  <CalendarRange className="h-6 w-6 text-muted-foreground" />
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h4 className="font-semibold">{event.title}</h4>
+                      <Badge variant="outline">{EVENT_KIND_LABELS[event.kind]}</Badge>
+                      {!event.suspends_classes && <Badge variant="secondary">Classes run</Badge>}
+                    </div>
+                    <p className="text-sm text-muted-foreground">{formatRange(event.start_date, event.end_date)}</p>
+                  </div>
+                </div>
+                {canManage && (
+                  <div className="whitespace-nowrap">
+                    <Button variant="ghost" size="sm" onClick={() => openEventForm(event)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        if (window.confirm(`Remove ${event.title} from the calendar?`)) {
+                          removeEvent.mutate(event.id);
+                        }
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">No upcoming holidays or exam periods.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {canManage && (
+        <>
+          <AcademicTermDialog open={termFormOpen} onOpenChange={setTermFormOpen} term={editingTerm} />
+          <CalendarEventDialog open={eventFormOpen} onOpenChange={setEventFormOpen} event={editingEvent} />
+        </>
+      )}
+    </>
+  );
+};
+
+export default AcademicCalendar;
@@ -0,0 +1,113 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import TermFields from "@/components/dashboard/TermFields";
+import { AcademicTerm, useCalendarMutations } from "@/hooks/use-academic-calendar";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { academicTermSchema } from "@/lib/schemas";
+import { currentAcademicYear, currentSemester } from "@/lib/timetable";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface AcademicTermDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  term?: AcademicTerm | null;
+}
+
+const emptyForm = () => ({
+  semester: currentSemester(),
+  academic_year: currentAcademicYear(),
+  start_date: "",
+  end_date: "",
+});
+
+const AcademicTermDialog = ({ open, onOpenChange, term }: AcademicTermDialogProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const { saveTerm } = useCalendarMutations();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      term
+        ? {
+            semester: term.semester,
+            academic_year: term.academic_year,
+            start_date: term.start_date,
+            end_date: term.end_date,
+          }
+        : emptyForm(),
+    );
+  }, [open, term]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const values = academicTermSchema.parse(form);
+      saveTerm.mutate(
+        { id: term?.id, values: values as TablesInsert<"academic_terms"> },
+        { onSuccess: () => onOpenChange(false) },
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{term ? `Edit ${term.semester} ${term.academic_year}` : "New Term"}</DialogTitle>
+          <DialogDescription>Weekly classes of this term only run between these dates</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <TermFields
+              idPrefix="term-dialog"
+              semester={form.semester}
+              academicYear={form.academic_year}
+              onSemesterChange={(value) => setForm((prev) => ({ ...prev, semester: value }))}
+              onAcademicYearChange={(value) => setForm((prev) => ({ ...prev, academic_year: value }))}
+            />
+            <div>
+              <Label htmlFor="term-start">First day</Label>
+              <Input
+                id="term-start"
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm((prev) => ({ ...prev, start_date: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="term-end">Last day</Label>
+              <Input
+                id="term-end"
+                type="date"
+                value={form.end_date}
+                onChange={(e) => setForm((prev) => ({ ...prev, end_date: e.target.value }))}
+                required
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveTerm.isPending}>
+              {saveTerm.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {term ? "Save Changes" : "Add Term"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default AcademicTermDialog;
@@ -0,0 +1,206 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { CheckCheck, Loader2, QrCode } from "lucide-react";
+import CheckInQrDialog from "@/components/dashboard/CheckInQrDialog";
+import { Session, isSessionHeld, sessionKey } from "@/hooks/use-academic-calendar";
+import {
+  ATTENDANCE_STATUS_LABELS,
+  AttendanceStatus,
+  useRecordAttendance,
+  useSessionRoll,
+} from "@/hooks/use-attendance";
+import { ScheduleProfile, useTodaySchedule } from "@/hooks/use-today-schedule";
+import { formatTime } from "@/lib/timetable";
+import { toast } from "sonner";
+
+interface AttendanceRollCallProps {
+  profile: ScheduleProfile;
+}
+
+type Marks = Record<string, { status: AttendanceStatus | null; note: string }>;
+
+const AttendanceRollCall = ({ profile }: AttendanceRollCallProps) => {
+  const today = format(new Date(), "yyyy-MM-dd");
+  const [date, setDate] = useState(today);
+  const [selected, setSelected] = useState("");
+  const [marks, setMarks] = useState<Marks>({});
+  const [checkInSession, setCheckInSession] = useState<Session | null>(null);
+  const { data: sessions = [], isLoading } = useTodaySchedule(profile, new Date(`${date}T00:00:00`));
+  const recordAttendance = useRecordAttendance();
+
+  const held = sessions.filter(isSessionHeld);
+  const session = held.find((item) => sessionKey(item) === selected);
+  // Sessions are identified by the date they were scheduled for, like session exceptions.
+  const scheduledDate = session ? session.original_date ?? session.session_date : undefined;
+  const { data: rollData, isLoading: rollLoading } = useSessionRoll(session?.timetable_id, scheduledDate);
+  const roll = rollData ?? [];
+
+  useEffect(() => {
+    setMarks(
+      Object.fromEntries(
+        (rollData ?? []).map((row) => [row.student_id, { status: row.status, note: row.note ?? "" }]),
+      ),
+    );
+  }, [rollData]);
+
+  const setMark = (studentId: string, change: Partial<Marks[string]>) =>
+    setMarks((prev) => ({ ...prev, [studentId]: { ...prev[studentId], ...change } }));
+
+  const markRestPresent = () =>
+    setMarks((prev) =>
+      Object.fromEntries(
+        Object.entries(prev).map(([studentId, mark]) => [studentId, { ...mark, status: mark.status ?? "present" }]),
+      ),
+    );
+
+  const handleSave = () => {
+    if (!session) return;
+    const unmarked = roll.filter((row) => !marks[row.student_id]?.status);
+    if (unmarked.length > 0) {
+      toast.error(`Mark every student first; ${unmarked.length} still without a status`);
+      return;
+    }
+    recordAttendance.mutate({
+      timetableId: session.timetable_id,
+      sessionDate: scheduledDate!,
+      heldOn: session.session_date,
+      records: roll.map((row) => ({
+        student_id: row.student_id,
+        status: marks[row.student_id].status!,
+        note: marks[row.student_id].note.trim() || null,
+      })),
+    });
+  };
+
+  const counts = Object.values(marks).reduce<Partial<Record<AttendanceStatus, number>>>((acc, mark) => {
+    if (mark.status) acc[mark.status] = (acc[mark.status] ?? 0) + 1;
+    return acc;
+  }, {});
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Take Attendance</CardTitle>
+        <CardDescription>Roll call for a class session; saving again updates the marks</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <Label htmlFor="attendance-date">Date</Label>
+            <Input
+              id="attendance-date"
+              type="date"
+              max={today}
+              value={date}
+              onChange={(e) => {
+                setDate(e.target.value || today);
+                setSelected("");
+              }}
+            />
+          </div>
+          <div className="md:col-span-2">
+            <Label>Class</Label>
+            <Select value={selected} onValueChange={setSelected} disabled={isLoading || held.length === 0}>
+              <SelectTrigger>
+                <SelectValue placeholder={held.length === 0 ? "No classes on this date" : "Select a class"} />
+              </SelectTrigger>
+              <SelectContent>
+                {held.map((item) => (
+                  <SelectItem key={sessionKey(item)} value={sessionKey(item)}>
+                    {formatTime(item.start_time)}-{formatTime(item.end_time)} {item.course_code} • {item.room_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {session &&
+          (rollLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : roll.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No students are enrolled in this course</p>
+          ) : (
+            <div className="space-y-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex flex-wrap gap-2">
+                  {(Object.keys(ATTENDANCE_STATUS_LABELS) as AttendanceStatus[]).map((status) => (
+                    <Badge key={status} variant="secondary">
+                      {ATTENDANCE_STATUS_LABELS[status]}: {counts[status] ?? 0}
+                    </Badge>
+                  ))}
+                </div>
+                <div className="flex space-x-2">
+                  {session.session_date === today && (
+                    <Button variant="outline" size="sm" onClick={() => setCheckInSession(session)}>
+                      <QrCode className="mr-2 h-4 w-4" />
+                      Self Check-in
+                    </Button>
+                  )}
+                  <Button variant="outline" size="sm" onClick={markRestPresent}>
+                    <CheckCheck className="mr-2 h-4 w-4" />
+                    Mark rest present
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                {roll.map((row) => (
+                  <div
+                    key={row.student_id}
+                    className="grid grid-cols-1 md:grid-cols-[1fr_auto_12rem] gap-2 items-center p-3 border rounded-lg"
+                  >
+                    <div>
+                      <p className="font-medium">{row.name}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {row.email} • Section {row.section_code}
+                      </p>
+                    </div>
+                    <ToggleGroup
+                      type="single"
+                      size="sm"
+                      variant="outline"
+                      value={marks[row.student_id]?.status ?? ""}
+                      onValueChange={(value: AttendanceStatus | "") => value && setMark(row.student_id, { status: value })}
+                    >
+                      {(Object.keys(ATTENDANCE_STATUS_LABELS) as AttendanceStatus[]).map((status) => (
+                        <ToggleGroupItem key={status} value={status}>
+                          {ATTENDANCE_STATUS_LABELS[status]}
+                        </ToggleGroupItem>
+                      ))}
+                    </ToggleGroup>
+                    <Input
+                      placeholder="Note"
+                      aria-label={`Note for ${row.name}`}
+                      value={marks[row.student_id]?.note ?? ""}
+                      onChange={(e) => setMark(row.student_id, { note: e.target.value })}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="flex justify-end">
+                <Button onClick={handleSave} disabled={recordAttendance.isPending}>
+                  {recordAttendance.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Attendance
+                </Button>
+              </div>
+            </div>
+          ))}
+      </CardContent>
+
+      <CheckInQrDialog session={checkInSession} onOpenChange={(open) => !open && setCheckInSession(null)} />
+    </Card>
+  );
+};
+
+export default AttendanceRollCall;
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, Loader2, ScanLine } from "lucide-react";
+import TermFields from "@/components/dashboard/TermFields";
+import { ATTENDANCE_THRESHOLD, AttendanceSummaryRow, useAttendanceSummary } from "@/hooks/use-attendance";
+import { currentAcademicYear, currentSemester } from "@/lib/timetable";
+import { cn } from "@/lib/utils";
+
+interface AttendanceSummaryProps {
+  isStudent: boolean;
+}
+
+// A course where every session so far was excused has no percentage yet.
+const isBelowThreshold = (row: AttendanceSummaryRow) =>
+  row.percentage !== null && row.percentage < ATTENDANCE_THRESHOLD;
+
+const formatPercentage = (row: AttendanceSummaryRow) => (row.percentage === null ? "—" : `${row.percentage}%`);
+
+const AttendanceSummary = ({ isStudent }: AttendanceSummaryProps) => {
+  const navigate = useNavigate();
+  const [semester, setSemester] = useState(currentSemester());
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+  const [courseId, setCourseId] = useState("all");
+  const { data: rows = [], isLoading } = useAttendanceSummary(semester, academicYear);
+
+  const courses = [...new Map(rows.map((row) => [row.course_id, row])).values()];
+  const shown = rows.filter((row) => courseId === "all" || row.course_id === courseId);
+  const flagged = shown.filter(isBelowThreshold);
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>{isStudent ? "My Attendance" : "Attendance Overview"}</CardTitle>
+            <CardDescription>
+              Late counts as attended and excused sessions are left out. Below {ATTENDANCE_THRESHOLD}% is flagged
+            </CardDescription>
+          </div>
+          {isStudent && (
+            <Button onClick={() => navigate("/check-in")}>
+              <ScanLine className="mr-2 h-4 w-4" />
+              Check In
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+          <TermFields
+            idPrefix="attendance"
+            semester={semester}
+            academicYear={academicYear}
+            onSemesterChange={setSemester}
+            onAcademicYearChange={setAcademicYear}
+          />
+          {!isStudent && (
+            <div className="md:col-span-2">
+              <Select value={courseId} onValueChange={setCourseId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All courses</SelectItem>
+                  {courses.map((course) => (
+                    <SelectItem key={course.course_id} value={course.course_id}>
+                      {course.course_code} - {course.course_name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        {flagged.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Attendance below {ATTENDANCE_THRESHOLD}%</AlertTitle>
+            <AlertDescription>
+              {isStudent
+                ? `Your attendance is too low in ${flagged.map((row) => row.course_code).join(", ")}`
+                : `${flagged.length} ${flagged.length === 1 ? "student is" : "students are"} below the threshold`}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : shown.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No attendance has been taken this term.</p>
+        ) : isStudent ? (
+          <div className="space-y-4">
+            {shown.map((row) => (
+              <div key={row.course_id} className="p-4 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div>
+                    <p className="font-medium">{row.course_name}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {row.course_code} • {row.present} present, {row.late} late, {row.absent} absent, {row.excused}{" "}
+                      excused
+                    </p>
+                  </div>
+                  <Badge variant={isBelowThreshold(row) ? "destructive" : "secondary"}>{formatPercentage(row)}</Badge>
+                </div>
+                <Progress value={row.percentage ?? 0} />
+              </div>
+            ))}
+          </div>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Student</TableHead>
+                <TableHead>Sessions</TableHead>
+                <TableHead>Present</TableHead>
+                <TableHead>Late</TableHead>
+                <TableHead>Absent</TableHead>
+                <TableHead>Excused</TableHead>
+                <TableHead>Attendance</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shown.map((row) => (
+                <TableRow
+                  key={`${row.course_id}:${row.student_id}`}
+                  className={cn(isBelowThreshold(row) && "bg-destructive/5")}
+                >
+                  <TableCell>{row.course_code}</TableCell>
+                  <TableCell className="font-medium">{row.student_name}</TableCell>
+                  <TableCell>{row.sessions}</TableCell>
+                  <TableCell>{row.present}</TableCell>
+                  <TableCell>{row.late}</TableCell>
+                  <TableCell>{row.absent}</TableCell>
+                  <TableCell>{row.excused}</TableCell>
+                  <TableCell>
+                    <Badge variant={isBelowThreshold(row) ? "destructive" : "secondary"}>{formatPercentage(row)}</Badge>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AttendanceSummary;
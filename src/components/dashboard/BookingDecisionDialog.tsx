@@ -0,0 +1,67 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { RoomBooking, useRoomBookingActions } from "@/hooks/use-room-bookings";
+
+interface BookingDecisionDialogProps {
+  booking: RoomBooking | null;
+  approve: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const BookingDecisionDialog = ({ booking, approve, onOpenChange }: BookingDecisionDialogProps) => {
+  const [note, setNote] = useState("");
+  const { decide } = useRoomBookingActions();
+
+  useEffect(() => {
+    setNote("");
+  }, [booking]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    decide.mutate(
+      { id: booking!.id, approve, note: note.trim() },
+      { onSuccess: () => onOpenChange(false) },
+    );
+  };
+
+  return (
+    <Dialog open={Boolean(booking)} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {approve ? "Approve" : "Reject"} "{booking?.title}"
+          </DialogTitle>
+          <DialogDescription>
+            {booking?.classrooms.room_name} requested by {booking?.requester.name}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="booking-decision-note">Note to the requester</Label>
+            <Textarea
+              id="booking-decision-note"
+              placeholder={approve ? "Optional" : "Why the room cannot be given"}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant={approve ? "default" : "destructive"} disabled={decide.isPending}>
+              {decide.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {approve ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookingDecisionDialog;
@@ -0,0 +1,148 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { CalendarEvent, EVENT_KIND_LABELS, EventKind, useCalendarMutations } from "@/hooks/use-academic-calendar";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { calendarEventSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface CalendarEventDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  event?: CalendarEvent | null;
+}
+
+const emptyForm = {
+  title: "",
+  kind: "holiday" as EventKind,
+  start_date: "",
+  end_date: "",
+  suspends_classes: true,
+};
+
+const CalendarEventDialog = ({ open, onOpenChange, event }: CalendarEventDialogProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const { saveEvent } = useCalendarMutations();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      event
+        ? {
+            title: event.title,
+            kind: event.kind,
+            start_date: event.start_date,
+            end_date: event.end_date,
+            suspends_classes: event.suspends_classes,
+          }
+        : emptyForm,
+    );
+  }, [open, event]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const values = calendarEventSchema.parse({ ...form, end_date: form.end_date || form.start_date });
+      saveEvent.mutate(
+        { id: event?.id, values: values as TablesInsert<"calendar_events"> },
+        { onSuccess: () => onOpenChange(false) },
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>{event ? `Edit ${event.title}` : "New Calendar Entry"}</DialogTitle>
+          <DialogDescription>Holidays, exam weeks and breaks; leave the end date empty for a single day</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="event-title">Title</Label>
+              <Input
+                id="event-title"
+                placeholder="Independence Day"
+                value={form.title}
+                onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(value: EventKind) =>
+                  setForm((prev) => ({ ...prev, kind: value, suspends_classes: value !== "event" }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(EVENT_KIND_LABELS).map(([kind, label]) => (
+                    <SelectItem key={kind} value={kind}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="event-start">From</Label>
+              <Input
+                id="event-start"
+                type="date"
+                value={form.start_date}
+                onChange={(e) => setForm((prev) => ({ ...prev, start_date: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="event-end">Until</Label>
+              <Input
+                id="event-end"
+                type="date"
+                min={form.start_date}
+                value={form.end_date}
+                onChange={(e) => setForm((prev) => ({ ...prev, end_date: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Checkbox
+              id="event-suspends"
+              checked={form.suspends_classes}
+              onCheckedChange={(checked) => setForm((prev) => ({ ...prev, suspends_classes: checked === true }))}
+            />
+            <Label htmlFor="event-suspends" className="font-normal">
+              Regular classes do not run on these days
+            </Label>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saveEvent.isPending}>
+              {saveEvent.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {event ? "Save Changes" : "Add Entry"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalendarEventDialog;
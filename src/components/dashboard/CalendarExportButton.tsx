@@ -0,0 +1,27 @@
+import { Button } from "@/components/ui/button";
+import { CalendarArrowDown, Loader2 } from "lucide-react";
+import { CalendarTarget, useCalendarExport } from "@/hooks/use-calendar-feeds";
+
+interface CalendarExportButtonProps {
+  target: CalendarTarget;
+  label?: string;
+}
+
+const CalendarExportButton = ({ target, label }: CalendarExportButtonProps) => {
+  const exportCalendar = useCalendarExport();
+
+  return (
+    <Button
+      variant="ghost"
+      size="sm"
+      title={`Download ${target.label} as iCalendar`}
+      onClick={() => exportCalendar.mutate(target)}
+      disabled={exportCalendar.isPending}
+    >
+      {exportCalendar.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <CalendarArrowDown className="h-4 w-4" />}
+      {label && <span className="ml-2">{label}</span>}
+    </Button>
+  );
+};
+
+export default CalendarExportButton;
@@ -0,0 +1,169 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Copy, Link2, Loader2, Plus, Rss } from "lucide-react";
+import { formatDistanceToNow } from "date-fns";
+import CalendarExportButton from "@/components/dashboard/CalendarExportButton";
+import { useClassrooms } from "@/hooks/use-classrooms";
+import { useCourses } from "@/hooks/use-courses";
+import {
+  CalendarFeedScope,
+  feedUrl,
+  useCalendarFeedActions,
+  useCalendarFeeds,
+  webcalUrl,
+} from "@/hooks/use-calendar-feeds";
+import { toast } from "sonner";
+
+interface CalendarFeedsProps {
+  profileId: string;
+  profileName: string;
+}
+
+const SCOPE_LABELS: Record<CalendarFeedScope, string> = {
+  user: "My timetable",
+  room: "A room",
+  course: "A course",
+};
+
+const CalendarFeeds = ({ profileId, profileName }: CalendarFeedsProps) => {
+  const [scope, setScope] = useState<CalendarFeedScope>("user");
+  const [scopeId, setScopeId] = useState("");
+  const { data: feeds = [], isLoading } = useCalendarFeeds(profileId);
+  const { data: classrooms = [] } = useClassrooms();
+  const { data: courses = [] } = useCourses();
+  const { create, revoke } = useCalendarFeedActions(profileId);
+
+  const options =
+    scope === "room"
+      ? classrooms.map((room) => ({ id: room.id, label: room.room_name }))
+      : courses.map((course) => ({ id: course.id, label: `${course.course_code} ${course.course_name}` }));
+
+  const target =
+    scope === "user"
+      ? { scope, scopeId: profileId, label: `${profileName} timetable` }
+      : { scope, scopeId, label: options.find((option) => option.id === scopeId)?.label ?? "" };
+
+  const copyUrl = async (token: string) => {
+    await navigator.clipboard.writeText(feedUrl(token));
+    toast.success("Feed URL copied");
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Calendar Feeds</CardTitle>
+        <CardDescription>
+          Subscribe from Google, Apple or Outlook calendar; anyone with a feed URL can read it, so revoke feeds you no
+          longer use
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div>
+            <Label>Calendar of</Label>
+            <Select
+              value={scope}
+              onValueChange={(value: CalendarFeedScope) => {
+                setScope(value);
+                setScopeId("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {scope !== "user" && (
+            <div>
+              <Label>{scope === "room" ? "Room" : "Course"}</Label>
+              <Select value={scopeId} onValueChange={setScopeId}>
+                <SelectTrigger>
+                  <SelectValue placeholder={`Select ${scope}`} />
+                </SelectTrigger>
+                <SelectContent>
+                  {options.map((option) => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+          <div className="flex items-center space-x-2 md:col-span-2">
+            <Button onClick={() => create.mutate(target)} disabled={!target.scopeId || create.isPending}>
+              {create.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Plus className="mr-2 h-4 w-4" />}
+              Create Feed
+            </Button>
+            {target.scopeId && <CalendarExportButton target={target} label="Download .ics" />}
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : feeds.length > 0 ? (
+          <div className="space-y-3">
+            {feeds.map((feed) => (
+              <div key={feed.id} className="p-4 border rounded-lg space-y-2">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center space-x-2">
+                    <Rss className="h-4 w-4 text-muted-foreground" />
+                    <h4 className="font-semibold">{feed.label}</h4>
+                    <Badge variant="outline">{SCOPE_LABELS[feed.scope]}</Badge>
+                  </div>
+                  <span className="text-xs text-muted-foreground">
+                    {feed.last_accessed_at
+                      ? `Last synced ${formatDistanceToNow(new Date(feed.last_accessed_at), { addSuffix: true })}`
+                      : "Never synced"}
+                  </span>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Input readOnly value={feedUrl(feed.token)} className="font-mono text-xs" />
+                  <Button variant="outline" size="sm" onClick={() => copyUrl(feed.token)}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" asChild>
+                    <a href={webcalUrl(feed.token)}>
+                      <Link2 className="mr-1 h-4 w-4" />
+                      Subscribe
+                    </a>
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => {
+                      if (window.confirm(`Revoke "${feed.label}"? Subscribed calendars will stop updating.`)) {
+                        revoke.mutate(feed.id);
+                      }
+                    }}
+                    disabled={revoke.isPending}
+                  >
+                    Revoke
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">You have no active calendar feeds.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default CalendarFeeds;
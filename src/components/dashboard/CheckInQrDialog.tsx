@@ -0,0 +1,59 @@
+import { QRCodeSVG } from "qrcode.react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2 } from "lucide-react";
+import { Session } from "@/hooks/use-academic-calendar";
+import { CHECKIN_ROTATE_SECONDS, checkInUrl, useCheckInToken, useSessionRoll } from "@/hooks/use-attendance";
+import { formatTime } from "@/lib/timetable";
+
+interface CheckInQrDialogProps {
+  session: Session | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CheckInQrDialog = ({ session, onOpenChange }: CheckInQrDialogProps) => {
+  const sessionDate = session ? session.original_date ?? session.session_date : undefined;
+  const { data: token, error } = useCheckInToken(
+    session ? { timetableId: session.timetable_id, sessionDate: sessionDate!, heldOn: session.session_date } : null,
+  );
+  const { data: roll = [] } = useSessionRoll(session?.timetable_id, sessionDate, Boolean(session));
+  const present = roll.filter((row) => row.status === "present" || row.status === "late").length;
+
+  return (
+    <Dialog open={Boolean(session)} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-xl">
+        <DialogHeader>
+          <DialogTitle>{session?.course_code} Check-in</DialogTitle>
+          <DialogDescription>
+            {session && `${session.room_name}, ${formatTime(session.start_time)}-${formatTime(session.end_time)}. `}
+            Students scan the code with their phone; it changes every {CHECKIN_ROTATE_SECONDS} seconds
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-col items-center space-y-4 py-4">
+          {error ? (
+            <p className="text-sm text-destructive text-center py-16">{error.message}</p>
+          ) : token ? (
+            <QRCodeSVG value={checkInUrl(token.token)} size={320} marginSize={2} className="rounded-lg bg-white" />
+          ) : (
+            <div className="flex items-center justify-center h-80">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          )}
+          <p className="text-2xl font-semibold">
+            {present} / {roll.length}
+            <span className="text-sm font-normal text-muted-foreground"> present</span>
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Close Check-in
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckInQrDialog;
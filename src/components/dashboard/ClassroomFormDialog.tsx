@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { Classroom, useClassroomMutations, useEquipmentTypes } from "@/hooks/use-classrooms";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { classroomSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface ClassroomFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  classroom?: Classroom | null;
+}
+
+const emptyForm = { room_name: "", capacity: "", location: "", equipment: [] as string[], remarks: "" };
+
+const ClassroomFormDialog = ({ open, onOpenChange, classroom }: ClassroomFormDialogProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const { data: equipmentTypes = [] } = useEquipmentTypes();
+  const { save } = useClassroomMutations();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      classroom
+        ? {
+            room_name: classroom.room_name,
+            capacity: String(classroom.capacity),
+            location: classroom.location,
+            equipment: classroom.equipment ?? [],
+            remarks: classroom.remarks ?? "",
+          }
+        : emptyForm,
+    );
+  }, [open, classroom]);
+
+  const toggleEquipment = (code: string, checked: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      equipment: checked ? [...prev.equipment, code] : prev.equipment.filter((item) => item !== code),
+    }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const values = classroomSchema.parse({
+        ...form,
+        capacity: Number(form.capacity),
+        remarks: form.remarks || null,
+      });
+      save.mutate(
+        { id: classroom?.id, values: values as TablesInsert<"classrooms"> },
+        { onSuccess: () => onOpenChange(false) },
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{classroom ? `Edit ${classroom.room_name}` : "New Classroom"}</DialogTitle>
+          <DialogDescription>Room details and the equipment available in it</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="classroom-name">Room name</Label>
+              <Input
+                id="classroom-name"
+                value={form.room_name}
+                onChange={(e) => setForm((prev) => ({ ...prev, room_name: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="classroom-capacity">Capacity</Label>
+              <Input
+                id="classroom-capacity"
+                type="number"
+                min={1}
+                value={form.capacity}
+                onChange={(e) => setForm((prev) => ({ ...prev, capacity: e.target.value }))}
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="classroom-location">Location</Label>
+            <Input
+              id="classroom-location"
+              placeholder="Building A, Floor 1"
+              value={form.location}
+              onChange={(e) => setForm((prev) => ({ ...prev, location: e.target.value }))}
+              required
+            />
+          </div>
+          <div>
+            <Label>Equipment</Label>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {equipmentTypes.map((type) => (
+                <div key={type.code} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`equipment-${type.code}`}
+                    checked={form.equipment.includes(type.code)}
+                    onCheckedChange={(checked) => toggleEquipment(type.code, checked === true)}
+                  />
+                  <Label htmlFor={`equipment-${type.code}`} className="font-normal">
+                    {type.label}
+                  </Label>
+                </div>
+              ))}
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="classroom-remarks">Remarks</Label>
+            <Textarea
+              id="classroom-remarks"
+              value={form.remarks}
+              onChange={(e) => setForm((prev) => ({ ...prev, remarks: e.target.value }))}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={save.isPending}>
+              {save.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {classroom ? "Save Changes" : "Create Room"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClassroomFormDialog;
@@ -0,0 +1,302 @@
+import { useMemo, useState } from "react";
+import { parseISO } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Building, Loader2, Pencil, Plus, Trash2, Wrench } from "lucide-react";
+import CalendarExportButton from "@/components/dashboard/CalendarExportButton";
+import ClassroomFormDialog from "@/components/dashboard/ClassroomFormDialog";
+import MaintenanceDialog from "@/components/dashboard/MaintenanceDialog";
+import TermFields from "@/components/dashboard/TermFields";
+import {
+  Classroom,
+  emptyOccupancy,
+  useClassroomMutations,
+  useClassrooms,
+  useEquipmentTypes,
+  useRoomOccupancy,
+} from "@/hooks/use-classrooms";
+import { TEACHING_MINUTES_PER_WEEK, WORKING_DAYS, currentAcademicYear, currentSemester } from "@/lib/timetable";
+
+interface ClassroomManagerProps {
+  canManage: boolean;
+}
+
+type StatusFilter = "all" | "available" | "maintenance";
+type SortKey = "room_name" | "capacity" | "occupancy";
+
+const ClassroomManager = ({ canManage }: ClassroomManagerProps) => {
+  const [semester, setSemester] = useState(currentSemester());
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<StatusFilter>("all");
+  const [equipment, setEquipment] = useState("any");
+  const [minCapacity, setMinCapacity] = useState("");
+  const [sortKey, setSortKey] = useState<SortKey>("room_name");
+  const [editing, setEditing] = useState<Classroom | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+  const [maintenanceRoom, setMaintenanceRoom] = useState<Classroom | null>(null);
+
+  const { data: classrooms = [], isLoading } = useClassrooms();
+  const { data: equipmentTypes = [] } = useEquipmentTypes();
+  const { data: occupancy } = useRoomOccupancy(semester, academicYear);
+  const { remove, setMaintenance } = useClassroomMutations();
+
+  const equipmentLabel = (code: string) => equipmentTypes.find((type) => type.code === code)?.label ?? code;
+  const occupancyFor = (roomId: string) => occupancy?.get(roomId) ?? emptyOccupancy();
+
+  const rooms = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    const capacity = Number(minCapacity) || 0;
+
+    return classrooms
+      .filter((room) => !term || `${room.room_name} ${room.location}`.toLowerCase().includes(term))
+      .filter((room) => {
+        const available = room.availability_status !== false;
+        return status === "all" || (status === "available" ? available : !available);
+      })
+      .filter((room) => equipment === "any" || (room.equipment ?? []).includes(equipment))
+      .filter((room) => room.capacity >= capacity)
+      .sort((a, b) => {
+        if (sortKey === "capacity") return b.capacity - a.capacity;
+        if (sortKey === "occupancy") {
+          return (occupancy?.get(b.id)?.totalMinutes ?? 0) - (occupancy?.get(a.id)?.totalMinutes ?? 0);
+        }
+        return a.room_name.localeCompare(b.room_name);
+      });
+  }, [classrooms, occupancy, search, status, equipment, minCapacity, sortKey]);
+
+  const openForm = (room: Classroom | null) => {
+    setEditing(room);
+    setFormOpen(true);
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Classroom Status</CardTitle>
+          <CardDescription>Availability, equipment and weekly occupancy of every room, including approved bookings</CardDescription>
+        </div>
+        {canManage && (
+          <Button onClick={() => openForm(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Room
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+          <div className="md:col-span-2">
+            <Label htmlFor="classroom-search">Search</Label>
+            <Input
+              id="classroom-search"
+              placeholder="Room or building"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Status</Label>
+            <Select value={status} onValueChange={(value: StatusFilter) => setStatus(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All rooms</SelectItem>
+                <SelectItem value="available">Available</SelectItem>
+                <SelectItem value="maintenance">Under maintenance</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Equipment</Label>
+            <Select value={equipment} onValueChange={setEquipment}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="any">Any equipment</SelectItem>
+                {equipmentTypes.map((type) => (
+                  <SelectItem key={type.code} value={type.code}>
+                    {type.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="classroom-min-capacity">Min. capacity</Label>
+            <Input
+              id="classroom-min-capacity"
+              type="number"
+              min={0}
+              value={minCapacity}
+              onChange={(e) => setMinCapacity(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Sort by</Label>
+            <Select value={sortKey} onValueChange={(value: SortKey) => setSortKey(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="room_name">Name</SelectItem>
+                <SelectItem value="capacity">Capacity</SelectItem>
+                <SelectItem value="occupancy">Occupancy</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-6 gap-4">
+          <TermFields
+            idPrefix="occupancy"
+            semester={semester}
+            academicYear={academicYear}
+            onSemesterChange={setSemester}
+            onAcademicYearChange={setAcademicYear}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rooms.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Room</TableHead>
+                <TableHead>Capacity</TableHead>
+                <TableHead>Equipment</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="w-48">Weekly occupancy</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rooms.map((room) => {
+                const available = room.availability_status !== false;
+                const usage = occupancyFor(room.id);
+                const percent = Math.min(100, Math.round((usage.totalMinutes / TEACHING_MINUTES_PER_WEEK) * 100));
+
+                return (
+                  <TableRow key={room.id}>
+                    <TableCell>
+                      <div className="font-medium">{room.room_name}</div>
+                      <div className="text-xs text-muted-foreground">{room.location}</div>
+                    </TableCell>
+                    <TableCell>{room.capacity}</TableCell>
+                    <TableCell>
+                      <div className="flex flex-wrap gap-1">
+                        {(room.equipment ?? []).map((item) => (
+                          <Badge key={item} variant="outline" className="font-normal">
+                            {equipmentLabel(item)}
+                          </Badge>
+                        ))}
+                      </div>
+                    </TableCell>
+                    <TableCell>
+                      {available ? (
+                        <Badge>Available</Badge>
+                      ) : (
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Badge variant="destructive">Maintenance</Badge>
+                          </TooltipTrigger>
+                          <TooltipContent>
+                            <p>{room.maintenance_reason ?? room.remarks}</p>
+                            {room.maintenance_until && (
+                              <p>Expected back {parseISO(room.maintenance_until).toLocaleDateString()}</p>
+                            )}
+                          </TooltipContent>
+                        </Tooltip>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          <div className="space-y-1">
+                            <Progress value={percent} className="h-2" />
+                            <p className="text-xs text-muted-foreground">
+                              {(usage.totalMinutes / 60).toFixed(1)}h • {usage.sessions} sessions
+                              {usage.bookings > 0 && ` • ${usage.bookings} bookings this week`}
+                            </p>
+                          </div>
+                        </TooltipTrigger>
+                        <TooltipContent>
+                          {WORKING_DAYS.map((day) => (
+                            <p key={day}>
+                              {day}: {(usage.minutesByDay[day] / 60).toFixed(1)}h
+                            </p>
+                          ))}
+                        </TooltipContent>
+                      </Tooltip>
+                    </TableCell>
+                    <TableCell className="text-right whitespace-nowrap">
+                      <CalendarExportButton target={{ scope: "room", scopeId: room.id, label: room.room_name }} />
+                      {canManage && (
+                        <>
+                          <Button variant="ghost" size="sm" onClick={() => openForm(room)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {available ? (
+                            <Button variant="ghost" size="sm" onClick={() => setMaintenanceRoom(room)}>
+                              <Wrench className="h-4 w-4" />
+                            </Button>
+                          ) : (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => setMaintenance.mutate({ id: room.id, reason: null, until: null })}
+                              disabled={setMaintenance.isPending}
+                            >
+                              Reopen
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              if (window.confirm(`Delete ${room.room_name}? Its timetable entries are removed too.`)) {
+                                remove.mutate(room.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8">
+            <Building className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No classrooms match these filters</p>
+          </div>
+        )}
+      </CardContent>
+
+      {canManage && (
+        <>
+          <ClassroomFormDialog open={formOpen} onOpenChange={setFormOpen} classroom={editing} />
+          <MaintenanceDialog classroom={maintenanceRoom} onOpenChange={(open) => !open && setMaintenanceRoom(null)} />
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default ClassroomManager;
@@ -0,0 +1,191 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Save, Trash2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+interface CourseAssignmentsEditorProps {
+  semester: string;
+  academicYear: string;
+}
+
+type Course = Tables<"courses">;
+type Assignment = Tables<"course_assignments">;
+type FacultyOption = Pick<Tables<"profiles">, "id" | "name" | "department">;
+
+const AssignmentRow = ({
+  course,
+  assignment,
+  faculty,
+  semester,
+  academicYear,
+}: {
+  course: Course;
+  assignment?: Assignment;
+  faculty: FacultyOption[];
+  semester: string;
+  academicYear: string;
+}) => {
+  const queryClient = useQueryClient();
+  const [facultyId, setFacultyId] = useState(assignment?.faculty_id ?? "");
+  const [expectedStudents, setExpectedStudents] = useState(String(assignment?.expected_students ?? 30));
+  const [equipment, setEquipment] = useState((assignment?.required_equipment ?? []).join(", "));
+
+  const save = useMutation({
+    mutationFn: async () => {
+      const students = parseInt(expectedStudents, 10);
+      if (!facultyId) throw new Error("Select a faculty member first");
+      if (!students || students < 1) throw new Error("Expected students must be a positive number");
+
+      const { error } = await supabase.from("course_assignments").upsert(
+        {
+          course_id: course.id,
+          faculty_id: facultyId,
+          semester,
+          academic_year: academicYear,
+          expected_students: students,
+          required_equipment: equipment.split(",").map((item) => item.trim()).filter(Boolean),
+        },
+        { onConflict: "course_id,semester,academic_year" },
+      );
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success(`Saved assignment for ${course.course_code}`);
+      queryClient.invalidateQueries({ queryKey: ["course-assignments", semester, academicYear] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const remove = useMutation({
+    mutationFn: async () => {
+      if (!assignment) return;
+      const { error } = await supabase.from("course_assignments").delete().eq("id", assignment.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      setFacultyId("");
+      queryClient.invalidateQueries({ queryKey: ["course-assignments", semester, academicYear] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return (
+    <TableRow>
+      <TableCell>
+        <div className="font-medium">{course.course_code}</div>
+        <div className="text-xs text-muted-foreground">{course.credits ?? 3} credits</div>
+      </TableCell>
+      <TableCell>
+        <Select value={facultyId} onValueChange={setFacultyId}>
+          <SelectTrigger className="w-48">
+            <SelectValue placeholder="Unassigned" />
+          </SelectTrigger>
+          <SelectContent>
+            {faculty.map((member) => (
+              <SelectItem key={member.id} value={member.id}>
+                {member.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </TableCell>
+      <TableCell>
+        <Input
+          type="number"
+          min={1}
+          className="w-24"
+          value={expectedStudents}
+          onChange={(e) => setExpectedStudents(e.target.value)}
+        />
+      </TableCell>
+      <TableCell>
+        <Input
+          placeholder="projector, computers"
+          value={equipment}
+          onChange={(e) => setEquipment(e.target.value)}
+        />
+      </TableCell>
+      <TableCell className="text-right whitespace-nowrap">
+        <Button variant="ghost" size="sm" onClick={() => save.mutate()} disabled={save.isPending}>
+          {save.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Save className="h-4 w-4" />}
+        </Button>
+        {assignment && (
+          <Button variant="ghost" size="sm" onClick={() => remove.mutate()} disabled={remove.isPending}>
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        )}
+      </TableCell>
+    </TableRow>
+  );
+};
+
+const CourseAssignmentsEditor = ({ semester, academicYear }: CourseAssignmentsEditorProps) => {
+  const { data, isLoading } = useQuery({
+    queryKey: ["course-assignments", semester, academicYear],
+    queryFn: async () => {
+      const [courses, faculty, assignments] = await Promise.all([
+        supabase.from("courses").select("*").is("archived_at", null).order("course_code"),
+        supabase.from("profiles").select("id, name, department").eq("role", "faculty").order("name"),
+        supabase
+          .from("course_assignments")
+          .select("*")
+          .eq("semester", semester)
+          .eq("academic_year", academicYear),
+      ]);
+      if (courses.error) throw courses.error;
+      if (faculty.error) throw faculty.error;
+      if (assignments.error) throw assignments.error;
+      return { courses: courses.data, faculty: faculty.data, assignments: assignments.data };
+    },
+    enabled: Boolean(semester && academicYear),
+  });
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-6">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!data || data.courses.length === 0) {
+    return <p className="text-sm text-muted-foreground">No courses found.</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Course</TableHead>
+          <TableHead>Faculty</TableHead>
+          <TableHead>Students</TableHead>
+          <TableHead>Required equipment</TableHead>
+          <TableHead />
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {data.courses.map((course) => {
+          const assignment = data.assignments.find((a) => a.course_id === course.id);
+          return (
+            <AssignmentRow
+              key={`${course.id}-${assignment?.id ?? "new"}`}
+              course={course}
+              assignment={assignment}
+              faculty={data.faculty}
+              semester={semester}
+              academicYear={academicYear}
+            />
+          );
+        })}
+      </TableBody>
+    </Table>
+  );
+};
+
+export default CourseAssignmentsEditor;
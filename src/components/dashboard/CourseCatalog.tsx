@@ -0,0 +1,162 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Archive, ArchiveRestore, GraduationCap, Loader2, Pencil, Plus } from "lucide-react";
+import CourseDetailDialog from "@/components/dashboard/CourseDetailDialog";
+import CourseFormDialog from "@/components/dashboard/CourseFormDialog";
+import { Course, useCourseMutations, useCourses } from "@/hooks/use-courses";
+
+interface CourseCatalogProps {
+  canManage: boolean;
+}
+
+const CourseCatalog = ({ canManage }: CourseCatalogProps) => {
+  const [search, setSearch] = useState("");
+  const [department, setDepartment] = useState("all");
+  const [showArchived, setShowArchived] = useState(false);
+  const [selected, setSelected] = useState<Course | null>(null);
+  const [editing, setEditing] = useState<Course | null>(null);
+  const [formOpen, setFormOpen] = useState(false);
+
+  const { data: courses = [], isLoading } = useCourses({ includeArchived: canManage && showArchived });
+  const { setArchived } = useCourseMutations();
+
+  const departments = useMemo(
+    () => [...new Set(courses.map((course) => course.department))].sort(),
+    [courses],
+  );
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return courses
+      .filter((course) => department === "all" || course.department === department)
+      .filter(
+        (course) =>
+          !term ||
+          `${course.course_code} ${course.course_name} ${course.description ?? ""}`.toLowerCase().includes(term),
+      );
+  }, [courses, department, search]);
+
+  const openForm = (course: Course | null) => {
+    setEditing(course);
+    setFormOpen(true);
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Course Catalog</CardTitle>
+          <CardDescription>Browse courses by department and see when and where they run</CardDescription>
+        </div>
+        {canManage && (
+          <Button onClick={() => openForm(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Course
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+          <div className="md:col-span-2">
+            <Label htmlFor="course-search">Search</Label>
+            <Input
+              id="course-search"
+              placeholder="Code, name or description"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Department</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All departments</SelectItem>
+                {departments.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {canManage && (
+            <div className="flex items-center space-x-2 pb-2">
+              <Switch id="course-show-archived" checked={showArchived} onCheckedChange={setShowArchived} />
+              <Label htmlFor="course-show-archived">Show archived</Label>
+            </div>
+          )}
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filtered.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Name</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Credits</TableHead>
+                {canManage && <TableHead />}
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((course) => (
+                <TableRow key={course.id} className="cursor-pointer" onClick={() => setSelected(course)}>
+                  <TableCell className="font-medium">
+                    {course.course_code}
+                    {course.archived_at && (
+                      <Badge variant="outline" className="ml-2">Archived</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{course.course_name}</TableCell>
+                  <TableCell>{course.department}</TableCell>
+                  <TableCell>{course.credits ?? 3}</TableCell>
+                  {canManage && (
+                    <TableCell className="text-right whitespace-nowrap" onClick={(e) => e.stopPropagation()}>
+                      <Button variant="ghost" size="sm" onClick={() => openForm(course)}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setArchived.mutate({ id: course.id, archived: !course.archived_at })}
+                        disabled={setArchived.isPending}
+                      >
+                        {course.archived_at ? <ArchiveRestore className="h-4 w-4" /> : <Archive className="h-4 w-4" />}
+                      </Button>
+                    </TableCell>
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8">
+            <GraduationCap className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No courses match your search</p>
+          </div>
+        )}
+      </CardContent>
+
+      <CourseDetailDialog course={selected} onOpenChange={(open) => !open && setSelected(null)} />
+      {canManage && (
+        <CourseFormDialog open={formOpen} onOpenChange={setFormOpen} course={editing} departments={departments} />
+      )}
+    </Card>
+  );
+};
+
+export default CourseCatalog;
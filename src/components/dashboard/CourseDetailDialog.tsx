@@ -0,0 +1,104 @@
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import CalendarExportButton from "@/components/dashboard/CalendarExportButton";
+import { useDisplayPreferences } from "@/hooks/use-auth";
+import { Course, useCourseSlots } from "@/hooks/use-courses";
+import { formatTime } from "@/lib/timetable";
+
+interface CourseDetailDialogProps {
+  course: Course | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const CourseDetailDialog = ({ course, onOpenChange }: CourseDetailDialogProps) => {
+  const { data: slots = [], isLoading } = useCourseSlots(course?.id);
+  const { timeFormat } = useDisplayPreferences();
+
+  const faculty = [...new Set(slots.map((slot) => slot.profiles?.name).filter(Boolean))];
+  const rooms = [...new Set(slots.map((slot) => slot.classrooms?.room_name).filter(Boolean))];
+
+  return (
+    <Dialog open={Boolean(course)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>
+            {course?.course_code} • {course?.course_name}
+          </DialogTitle>
+          <DialogDescription>
+            {course?.department} • {course?.credits ?? 3} credits
+            {course?.archived_at && " • Archived"}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {course?.description && <p className="text-sm text-muted-foreground">{course.description}</p>}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <h4 className="text-sm font-medium mb-2">Faculty</h4>
+              <div className="flex flex-wrap gap-1">
+                {faculty.length > 0
+                  ? faculty.map((name) => <Badge key={name} variant="secondary">{name}</Badge>)
+                  : <span className="text-sm text-muted-foreground">None assigned</span>}
+              </div>
+            </div>
+            <div>
+              <h4 className="text-sm font-medium mb-2">Rooms</h4>
+              <div className="flex flex-wrap gap-1">
+                {rooms.length > 0
+                  ? rooms.map((name) => <Badge key={name} variant="outline">{name}</Badge>)
+                  : <span className="text-sm text-muted-foreground">None scheduled</span>}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-medium">Timetable slots</h4>
+              {course && slots.length > 0 && (
+                <CalendarExportButton
+                  target={{ scope: "course", scopeId: course.id, label: `${course.course_code} ${course.course_name}` }}
+                  label="Add to calendar"
+                />
+              )}
+            </div>
+            {isLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : slots.length > 0 ? (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Term</TableHead>
+                    <TableHead>Day</TableHead>
+                    <TableHead>Time</TableHead>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Faculty</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {slots.map((slot) => (
+                    <TableRow key={slot.id}>
+                      <TableCell>{slot.semester} {slot.academic_year}</TableCell>
+                      <TableCell>{slot.day_of_week}</TableCell>
+                      <TableCell>{formatTime(slot.start_time, timeFormat)} - {formatTime(slot.end_time, timeFormat)}</TableCell>
+                      <TableCell>{slot.classrooms?.room_name}</TableCell>
+                      <TableCell>{slot.profiles?.name}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            ) : (
+              <p className="text-sm text-muted-foreground">This course is not on the timetable yet.</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CourseDetailDialog;
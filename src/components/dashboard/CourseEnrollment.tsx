@@ -0,0 +1,148 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { GraduationCap, Loader2 } from "lucide-react";
+import TermFields from "@/components/dashboard/TermFields";
+import { useEnrollmentActions, useMyEnrollments, useSectionCatalog } from "@/hooks/use-enrollments";
+import { currentAcademicYear, currentSemester } from "@/lib/timetable";
+
+interface CourseEnrollmentProps {
+  studentId: string;
+}
+
+const CourseEnrollment = ({ studentId }: CourseEnrollmentProps) => {
+  const [semester, setSemester] = useState(currentSemester());
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+  const { data: sections = [], isLoading: sectionsLoading } = useSectionCatalog(semester, academicYear);
+  const { data: enrollments = [], isLoading: enrollmentsLoading } = useMyEnrollments(studentId);
+  const { enroll, drop } = useEnrollmentActions();
+
+  const termEnrollments = enrollments.filter(
+    (e) => e.course_sections.semester === semester && e.course_sections.academic_year === academicYear,
+  );
+  const enrolledCourseIds = new Set(termEnrollments.map((e) => e.course_sections.course_id));
+
+  return (
+    <>
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>My Courses</CardTitle>
+          <CardDescription>Sections you are enrolled or waitlisted in</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <TermFields
+              idPrefix="enrollment"
+              semester={semester}
+              academicYear={academicYear}
+              onSemesterChange={setSemester}
+              onAcademicYearChange={setAcademicYear}
+            />
+          </div>
+
+          {enrollmentsLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : termEnrollments.length > 0 ? (
+            <div className="space-y-3">
+              {termEnrollments.map((enrollment) => (
+                <div key={enrollment.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div>
+                    <h4 className="font-semibold">{enrollment.course_sections.courses.course_name}</h4>
+                    <p className="text-sm text-muted-foreground">
+                      {enrollment.course_sections.courses.course_code} • Section {enrollment.course_sections.section_code}
+                    </p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Badge variant={enrollment.status === "enrolled" ? "default" : "secondary"} className="capitalize">
+                      {enrollment.status}
+                    </Badge>
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => drop.mutate(enrollment.id)}
+                      disabled={drop.isPending}
+                    >
+                      {enrollment.status === "waitlisted" ? "Leave waitlist" : "Drop"}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-8">
+              <GraduationCap className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+              <p className="text-muted-foreground">You are not enrolled in any course this term</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Available Sections</CardTitle>
+          <CardDescription>Add a course; full sections place you on the waitlist</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {sectionsLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : sections.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Course</TableHead>
+                  <TableHead>Section</TableHead>
+                  <TableHead>Room</TableHead>
+                  <TableHead>Seats</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sections.map((section) => {
+                  const full = section.capacity !== null && section.enrolled_count >= section.capacity;
+                  const taken = enrolledCourseIds.has(section.course_id);
+
+                  return (
+                    <TableRow key={section.id}>
+                      <TableCell>
+                        <div className="font-medium">{section.courses.course_code}</div>
+                        <div className="text-xs text-muted-foreground">{section.courses.course_name}</div>
+                      </TableCell>
+                      <TableCell>{section.section_code}</TableCell>
+                      <TableCell>{section.classrooms?.room_name ?? "TBA"}</TableCell>
+                      <TableCell>
+                        {section.enrolled_count}/{section.capacity ?? "∞"}
+                        {section.waitlisted_count > 0 && (
+                          <span className="text-xs text-muted-foreground"> • {section.waitlisted_count} waiting</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="sm"
+                          variant={full ? "outline" : "default"}
+                          onClick={() => enroll.mutate(section.id)}
+                          disabled={taken || enroll.isPending}
+                        >
+                          {taken ? "Registered" : full ? "Join waitlist" : "Enroll"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">No sections are offered this term.</p>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+};
+
+export default CourseEnrollment;
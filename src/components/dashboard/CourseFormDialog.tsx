@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { Course, useCourseMutations } from "@/hooks/use-courses";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { courseSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface CourseFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  course?: Course | null;
+  departments: string[];
+}
+
+const emptyForm = { course_code: "", course_name: "", department: "", credits: "3", description: "" };
+
+const CourseFormDialog = ({ open, onOpenChange, course, departments }: CourseFormDialogProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const { save } = useCourseMutations();
+
+  useEffect(() => {
+    if (!open) return;
+    setForm(
+      course
+        ? {
+            course_code: course.course_code,
+            course_name: course.course_name,
+            department: course.department,
+            credits: String(course.credits ?? 3),
+            description: course.description ?? "",
+          }
+        : emptyForm,
+    );
+  }, [open, course]);
+
+  const handleInputChange = (field: keyof typeof emptyForm, value: string) => {
+    setForm((prev) => ({ ...prev, [field]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const values = courseSchema.parse({
+        ...form,
+        credits: Number(form.credits),
+        description: form.description || null,
+      });
+      save.mutate(
+        { id: course?.id, values: values as TablesInsert<"courses"> },
+        { onSuccess: () => onOpenChange(false) },
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{course ? `Edit ${course.course_code}` : "New Course"}</DialogTitle>
+          <DialogDescription>Catalog details shown to students and faculty</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="course-code">Code</Label>
+              <Input
+                id="course-code"
+                placeholder="CS101"
+                value={form.course_code}
+                onChange={(e) => handleInputChange("course_code", e.target.value)}
+                required
+              />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="course-name">Name</Label>
+              <Input
+                id="course-name"
+                value={form.course_name}
+                onChange={(e) => handleInputChange("course_name", e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="course-department">Department</Label>
+              <Input
+                id="course-department"
+                list="course-departments"
+                value={form.department}
+                onChange={(e) => handleInputChange("department", e.target.value)}
+                required
+              />
+              <datalist id="course-departments">
+                {departments.map((department) => (
+                  <option key={department} value={department} />
+                ))}
+              </datalist>
+            </div>
+            <div>
+              <Label htmlFor="course-credits">Credits</Label>
+              <Input
+                id="course-credits"
+                type="number"
+                min={1}
+                max={12}
+                value={form.credits}
+                onChange={(e) => handleInputChange("credits", e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="course-description">Description</Label>
+            <Textarea
+              id="course-description"
+              value={form.description}
+              onChange={(e) => handleInputChange("description", e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={save.isPending}>
+              {save.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {course ? "Save Changes" : "Create Course"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CourseFormDialog;
@@ -0,0 +1,333 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { AlertTriangle, Loader2, Plus, Trash2 } from "lucide-react";
+import TermFields from "@/components/dashboard/TermFields";
+import { useClassrooms } from "@/hooks/use-classrooms";
+import { useFacultyPreferenceActions, useFacultyPreferences } from "@/hooks/use-faculty-preferences";
+import { useTermTimetable } from "@/hooks/use-timetable";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { findPreferenceViolations } from "@/lib/preferences";
+import { facultyPreferenceSchema, unavailableBlockSchema } from "@/lib/schemas";
+import { DAYS_OF_WEEK, currentAcademicYear, currentSemester, formatTime } from "@/lib/timetable";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface FacultyPreferencesProps {
+  profileId: string;
+}
+
+const emptyPreferences = () => ({
+  preferred_days: [] as string[],
+  preferred_start_time: "",
+  preferred_end_time: "",
+  max_consecutive_hours: "",
+  preferred_room_ids: [] as string[],
+  preferred_locations: [] as string[],
+  notes: "",
+});
+
+const emptyBlock = () => ({ day_of_week: "", start_time: "", end_time: "", reason: "" });
+
+const toggle = (list: string[], value: string, on: boolean) =>
+  on ? [...list, value] : list.filter((item) => item !== value);
+
+const FacultyPreferences = ({ profileId }: FacultyPreferencesProps) => {
+  const [semester, setSemester] = useState(currentSemester());
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+  const [form, setForm] = useState(emptyPreferences);
+  const [block, setBlock] = useState(emptyBlock);
+  const { data, isLoading } = useFacultyPreferences(semester, academicYear);
+  const { data: entries = [] } = useTermTimetable(semester, academicYear);
+  const { data: rooms = [] } = useClassrooms();
+  const { save, addBlock, removeBlock } = useFacultyPreferenceActions();
+
+  const preference = data?.preferences.find((item) => item.faculty_id === profileId);
+  const blocks = (data?.blocks ?? []).filter((item) => item.faculty_id === profileId);
+  const locations = [...new Set(rooms.map((room) => room.location))].sort();
+
+  useEffect(() => {
+    setForm(
+      preference
+        ? {
+            preferred_days: preference.preferred_days,
+            preferred_start_time: preference.preferred_start_time ? formatTime(preference.preferred_start_time) : "",
+            preferred_end_time: preference.preferred_end_time ? formatTime(preference.preferred_end_time) : "",
+            max_consecutive_hours: preference.max_consecutive_hours === null ? "" : String(preference.max_consecutive_hours),
+            preferred_room_ids: preference.preferred_room_ids,
+            preferred_locations: preference.preferred_locations,
+            notes: preference.notes ?? "",
+          }
+        : emptyPreferences(),
+    );
+  }, [preference]);
+
+  const myEntries = entries.filter((entry) => entry.faculty_id === profileId);
+  const violations = findPreferenceViolations(myEntries, preference ? [preference] : [], blocks);
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const values = facultyPreferenceSchema.parse({
+        ...form,
+        preferred_start_time: form.preferred_start_time || null,
+        preferred_end_time: form.preferred_end_time || null,
+        max_consecutive_hours: form.max_consecutive_hours ? Number(form.max_consecutive_hours) : null,
+        notes: form.notes || null,
+      });
+      save.mutate({
+        ...values,
+        faculty_id: profileId,
+        semester,
+        academic_year: academicYear,
+      } as TablesInsert<"faculty_preferences">);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  const handleAddBlock = () => {
+    try {
+      const values = unavailableBlockSchema.parse({ ...block, reason: block.reason || null });
+      addBlock.mutate(
+        { ...values, faculty_id: profileId, semester, academic_year: academicYear } as TablesInsert<"faculty_unavailability">,
+        { onSuccess: () => setBlock(emptyBlock()) },
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Teaching Preferences</CardTitle>
+        <CardDescription>When and where you can and prefer to teach; schedulers see these when planning</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 gap-4">
+          <TermFields
+            idPrefix="preferences"
+            semester={semester}
+            academicYear={academicYear}
+            onSemesterChange={setSemester}
+            onAcademicYearChange={setAcademicYear}
+          />
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {violations.length > 0 && (
+              <div className="rounded-lg border border-warning/50 p-4 space-y-2">
+                <p className="flex items-center text-sm font-medium">
+                  <AlertTriangle className="mr-2 h-4 w-4 text-warning" />
+                  Your timetable this term does not match these preferences
+                </p>
+                <ul className="text-sm text-muted-foreground space-y-1">
+                  {violations.map((violation, index) => {
+                    const entry = myEntries.find((item) => item.id === violation.timetable_id)!;
+                    return (
+                      <li key={index}>
+                        {entry.courses.course_code} {entry.day_of_week} {formatTime(entry.start_time)}-
+                        {formatTime(entry.end_time)}: {violation.message}
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Unavailable</h4>
+              <div className="space-y-2">
+                {blocks.map((item) => (
+                  <div key={item.id} className="flex items-center justify-between p-2 border rounded-lg text-sm">
+                    <span>
+                      {item.day_of_week} {formatTime(item.start_time)}-{formatTime(item.end_time)}
+                      {item.reason && <span className="text-muted-foreground"> • {item.reason}</span>}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => removeBlock.mutate(item.id)}
+                      disabled={removeBlock.isPending}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-2 items-end">
+                  <Select value={block.day_of_week} onValueChange={(value) => setBlock((prev) => ({ ...prev, day_of_week: value }))}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Day" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {DAYS_OF_WEEK.map((day) => (
+                        <SelectItem key={day} value={day}>
+                          {day}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="time"
+                    aria-label="From"
+                    value={block.start_time}
+                    onChange={(e) => setBlock((prev) => ({ ...prev, start_time: e.target.value }))}
+                  />
+                  <Input
+                    type="time"
+                    aria-label="Until"
+                    value={block.end_time}
+                    onChange={(e) => setBlock((prev) => ({ ...prev, end_time: e.target.value }))}
+                  />
+                  <Input
+                    placeholder="Reason (optional)"
+                    value={block.reason}
+                    onChange={(e) => setBlock((prev) => ({ ...prev, reason: e.target.value }))}
+                  />
+                  <Button variant="outline" onClick={handleAddBlock} disabled={addBlock.isPending}>
+                    <Plus className="mr-2 h-4 w-4" />
+                    Add
+                  </Button>
+                </div>
+              </div>
+            </div>
+
+            <form onSubmit={handleSave} className="space-y-4">
+              <div>
+                <Label>Preferred days</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {DAYS_OF_WEEK.map((day) => (
+                    <div key={day} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`preferred-${day}`}
+                        checked={form.preferred_days.includes(day)}
+                        onCheckedChange={(checked) =>
+                          setForm((prev) => ({ ...prev, preferred_days: toggle(prev.preferred_days, day, checked === true) }))
+                        }
+                      />
+                      <Label htmlFor={`preferred-${day}`} className="font-normal">
+                        {day}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <Label htmlFor="preferred-start">Not before</Label>
+                  <Input
+                    id="preferred-start"
+                    type="time"
+                    value={form.preferred_start_time}
+                    onChange={(e) => setForm((prev) => ({ ...prev, preferred_start_time: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="preferred-end">Not after</Label>
+                  <Input
+                    id="preferred-end"
+                    type="time"
+                    value={form.preferred_end_time}
+                    onChange={(e) => setForm((prev) => ({ ...prev, preferred_end_time: e.target.value }))}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="preferred-consecutive">Max consecutive hours</Label>
+                  <Input
+                    id="preferred-consecutive"
+                    type="number"
+                    min="0.5"
+                    step="0.5"
+                    placeholder="No limit"
+                    value={form.max_consecutive_hours}
+                    onChange={(e) => setForm((prev) => ({ ...prev, max_consecutive_hours: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <div>
+                <Label>Preferred buildings</Label>
+                <div className="flex flex-wrap gap-4 mt-2">
+                  {locations.map((location) => (
+                    <div key={location} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`preferred-location-${location}`}
+                        checked={form.preferred_locations.includes(location)}
+                        onCheckedChange={(checked) =>
+                          setForm((prev) => ({
+                            ...prev,
+                            preferred_locations: toggle(prev.preferred_locations, location, checked === true),
+                          }))
+                        }
+                      />
+                      <Label htmlFor={`preferred-location-${location}`} className="font-normal">
+                        {location}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label>Preferred rooms</Label>
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-2 mt-2">
+                  {rooms.map((room) => (
+                    <div key={room.id} className="flex items-center space-x-2">
+                      <Checkbox
+                        id={`preferred-room-${room.id}`}
+                        checked={form.preferred_room_ids.includes(room.id)}
+                        onCheckedChange={(checked) =>
+                          setForm((prev) => ({
+                            ...prev,
+                            preferred_room_ids: toggle(prev.preferred_room_ids, room.id, checked === true),
+                          }))
+                        }
+                      />
+                      <Label htmlFor={`preferred-room-${room.id}`} className="font-normal">
+                        {room.room_name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div>
+                <Label htmlFor="preferred-notes">Notes for the scheduler</Label>
+                <Textarea
+                  id="preferred-notes"
+                  value={form.notes}
+                  onChange={(e) => setForm((prev) => ({ ...prev, notes: e.target.value }))}
+                />
+              </div>
+
+              <div className="flex justify-end">
+                <Button type="submit" disabled={save.isPending}>
+                  {save.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save Preferences
+                </Button>
+              </div>
+            </form>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default FacultyPreferences;
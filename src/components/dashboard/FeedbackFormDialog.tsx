@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { FEEDBACK_CATEGORY_LABELS, FeedbackCategory, useFeedbackActions } from "@/hooks/use-feedback";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { feedbackSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface FeedbackFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  userId: string;
+}
+
+const emptyForm = () => ({ title: "", message: "", category: "room_issue" as FeedbackCategory });
+
+const FeedbackFormDialog = ({ open, onOpenChange, userId }: FeedbackFormDialogProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const { submit } = useFeedbackActions(undefined);
+
+  useEffect(() => {
+    if (open) setForm(emptyForm());
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const values = feedbackSchema.parse(form);
+      submit.mutate({ ...values, user_id: userId } as TablesInsert<"feedback">, {
+        onSuccess: () => onOpenChange(false),
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Submit Feedback</DialogTitle>
+          <DialogDescription>Report a problem or suggest an improvement; an admin follows up on it</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label>Category</Label>
+            <Select
+              value={form.category}
+              onValueChange={(value: FeedbackCategory) => setForm((prev) => ({ ...prev, category: value }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(FEEDBACK_CATEGORY_LABELS).map(([category, label]) => (
+                  <SelectItem key={category} value={category}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="feedback-title">Title</Label>
+            <Input
+              id="feedback-title"
+              placeholder="Projector in D001 does not turn on"
+              value={form.title}
+              onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="feedback-message">Details</Label>
+            <Textarea
+              id="feedback-message"
+              rows={5}
+              value={form.message}
+              onChange={(e) => setForm((prev) => ({ ...prev, message: e.target.value }))}
+              required
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submit.isPending}>
+              {submit.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Submit
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FeedbackFormDialog;
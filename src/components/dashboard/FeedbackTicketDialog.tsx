@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { History, Loader2 } from "lucide-react";
+import {
+  FEEDBACK_CATEGORY_LABELS,
+  FEEDBACK_STATUSES,
+  FEEDBACK_STATUS_LABELS,
+  FeedbackStatus,
+  FeedbackTicket,
+  useFeedbackActions,
+  useFeedbackThread,
+} from "@/hooks/use-feedback";
+import { feedbackCommentSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface FeedbackTicketDialogProps {
+  ticket: FeedbackTicket | null;
+  profileId: string;
+  canTriage: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const statusLabel = (status: string | null) =>
+  status ? FEEDBACK_STATUS_LABELS[status as FeedbackStatus] ?? status : "—";
+
+const timestamp = (value: string | null) => (value ? format(new Date(value), "d MMM yyyy, HH:mm") : "");
+
+const FeedbackTicketDialog = ({ ticket, profileId, canTriage, onOpenChange }: FeedbackTicketDialogProps) => {
+  const [reply, setReply] = useState("");
+  const { data: thread, isLoading } = useFeedbackThread(ticket?.id);
+  const actions = useFeedbackActions(profileId);
+
+  useEffect(() => {
+    setReply("");
+  }, [ticket?.id]);
+
+  // Replies and status changes in the order they happened
+  const timeline = [
+    ...(thread?.comments ?? []).map((comment) => ({ kind: "comment" as const, at: comment.created_at, comment })),
+    ...(thread?.history ?? []).map((change) => ({ kind: "status" as const, at: change.created_at, change })),
+  ].sort((a, b) => a.at.localeCompare(b.at));
+
+  const handleReply = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const { message } = feedbackCommentSchema.parse({ message: reply });
+      actions.reply.mutate({ feedbackId: ticket!.id, message }, { onSuccess: () => setReply("") });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={Boolean(ticket)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{ticket?.title}</DialogTitle>
+          <DialogDescription>
+            {ticket && FEEDBACK_CATEGORY_LABELS[ticket.category]}
+            {ticket?.submitter && ` • ${ticket.submitter.name} (${ticket.submitter.role})`}
+            {ticket && ` • ${timestamp(ticket.created_at)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 max-h-[55vh] overflow-y-auto pr-1">
+          <p className="text-sm whitespace-pre-wrap p-3 border rounded-lg">{ticket?.message}</p>
+
+          {isLoading ? (
+            <div className="flex justify-center py-4">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            timeline.map((item) =>
+              item.kind === "comment" ? (
+                <div key={item.comment.id} className="p-3 rounded-lg bg-muted/50">
+                  <div className="flex items-center space-x-2 mb-1">
+                    <span className="text-sm font-medium">{item.comment.author.name}</span>
+                    {item.comment.author.role === "admin" && <Badge variant="secondary">Admin</Badge>}
+                    <span className="text-xs text-muted-foreground">{timestamp(item.comment.created_at)}</span>
+                  </div>
+                  <p className="text-sm whitespace-pre-wrap">{item.comment.message}</p>
+                </div>
+              ) : (
+                <p key={item.change.id} className="flex items-center text-xs text-muted-foreground">
+                  <History className="mr-2 h-3 w-3" />
+                  {item.change.from_status
+                    ? `${item.change.changer?.name ?? "Someone"} changed the status from ${statusLabel(item.change.from_status)} to ${statusLabel(item.change.to_status)}`
+                    : `Submitted as ${statusLabel(item.change.to_status)}`}
+                  {" • "}
+                  {timestamp(item.change.created_at)}
+                </p>
+              ),
+            )
+          )}
+        </div>
+
+        <form onSubmit={handleReply} className="space-y-2">
+          <Label htmlFor="feedback-reply">Reply</Label>
+          <Textarea id="feedback-reply" rows={3} value={reply} onChange={(e) => setReply(e.target.value)} />
+          <DialogFooter className="sm:justify-between">
+            {canTriage && ticket ? (
+              <Select
+                value={ticket.status ?? "pending"}
+                onValueChange={(value: FeedbackStatus) => actions.setStatus.mutate({ id: ticket.id, status: value })}
+                disabled={actions.setStatus.isPending}
+              >
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {FEEDBACK_STATUSES.map((status) => (
+                    <SelectItem key={status} value={status}>
+                      {FEEDBACK_STATUS_LABELS[status]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            ) : (
+              <Badge variant="outline">{statusLabel(ticket?.status ?? null)}</Badge>
+            )}
+            <div className="flex space-x-2">
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+              <Button type="submit" disabled={actions.reply.isPending}>
+                {actions.reply.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Send Reply
+              </Button>
+            </div>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default FeedbackTicketDialog;
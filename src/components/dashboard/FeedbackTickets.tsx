@@ -0,0 +1,93 @@
+import { useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, MessageSquarePlus } from "lucide-react";
+import FeedbackFormDialog from "@/components/dashboard/FeedbackFormDialog";
+import FeedbackTicketDialog from "@/components/dashboard/FeedbackTicketDialog";
+import {
+  FEEDBACK_CATEGORY_LABELS,
+  FEEDBACK_STATUS_LABELS,
+  FeedbackStatus,
+  useFeedbackTickets,
+} from "@/hooks/use-feedback";
+
+interface FeedbackTicketsProps {
+  userId: string;
+  profileId: string;
+}
+
+const statusVariants: Record<FeedbackStatus, "default" | "secondary" | "outline"> = {
+  pending: "outline",
+  reviewed: "default",
+  resolved: "secondary",
+};
+
+const FeedbackTickets = ({ userId, profileId }: FeedbackTicketsProps) => {
+  const [formOpen, setFormOpen] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+  const { data: tickets = [], isLoading } = useFeedbackTickets();
+
+  const mine = tickets.filter((ticket) => ticket.user_id === userId);
+  const open = mine.find((ticket) => ticket.id === openId) ?? null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>My Tickets</CardTitle>
+            <CardDescription>Problems and suggestions you have reported, and the replies to them</CardDescription>
+          </div>
+          <Button onClick={() => setFormOpen(true)}>
+            <MessageSquarePlus className="mr-2 h-4 w-4" />
+            Submit Feedback
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : mine.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">You have not submitted any feedback yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {mine.map((ticket) => {
+              const status = (ticket.status ?? "pending") as FeedbackStatus;
+              return (
+                <button
+                  key={ticket.id}
+                  type="button"
+                  onClick={() => setOpenId(ticket.id)}
+                  className="w-full flex items-center justify-between p-4 border rounded-lg text-left hover:bg-muted/50"
+                >
+                  <div>
+                    <p className="font-medium">{ticket.title}</p>
+                    <p className="text-sm text-muted-foreground">
+                      {FEEDBACK_CATEGORY_LABELS[ticket.category]}
+                      {ticket.created_at && ` • ${format(new Date(ticket.created_at), "d MMM yyyy")}`}
+                    </p>
+                  </div>
+                  <Badge variant={statusVariants[status]}>{FEEDBACK_STATUS_LABELS[status]}</Badge>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <FeedbackFormDialog open={formOpen} onOpenChange={setFormOpen} userId={userId} />
+      <FeedbackTicketDialog
+        ticket={open}
+        profileId={profileId}
+        canTriage={false}
+        onOpenChange={(isOpen) => !isOpen && setOpenId(null)}
+      />
+    </Card>
+  );
+};
+
+export default FeedbackTickets;
@@ -0,0 +1,101 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import FeedbackTicketDialog from "@/components/dashboard/FeedbackTicketDialog";
+import {
+  FEEDBACK_CATEGORY_LABELS,
+  FEEDBACK_STATUSES,
+  FEEDBACK_STATUS_LABELS,
+  useFeedbackTickets,
+} from "@/hooks/use-feedback";
+
+interface FeedbackTriageProps {
+  profileId: string;
+}
+
+const FeedbackTriage = ({ profileId }: FeedbackTriageProps) => {
+  const [category, setCategory] = useState("all");
+  const [openId, setOpenId] = useState<string | null>(null);
+  const { data: tickets = [], isLoading } = useFeedbackTickets();
+
+  const shown = tickets.filter((ticket) => category === "all" || ticket.category === category);
+  const open = tickets.find((ticket) => ticket.id === openId) ?? null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Feedback Triage</CardTitle>
+            <CardDescription>Every ticket by status; open one to reply or move it along</CardDescription>
+          </div>
+          <Select value={category} onValueChange={setCategory}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All categories</SelectItem>
+              {Object.entries(FEEDBACK_CATEGORY_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {FEEDBACK_STATUSES.map((status) => {
+              const column = shown.filter((ticket) => (ticket.status ?? "pending") === status);
+              return (
+                <div key={status} className="rounded-lg bg-muted/40 p-3 space-y-2">
+                  <div className="flex items-center justify-between">
+                    <h4 className="text-sm font-medium">{FEEDBACK_STATUS_LABELS[status]}</h4>
+                    <Badge variant="secondary">{column.length}</Badge>
+                  </div>
+                  {column.length === 0 ? (
+                    <p className="text-xs text-muted-foreground text-center py-4">Nothing here</p>
+                  ) : (
+                    column.map((ticket) => (
+                      <button
+                        key={ticket.id}
+                        type="button"
+                        onClick={() => setOpenId(ticket.id)}
+                        className="w-full p-3 border rounded-lg bg-background text-left hover:border-primary"
+                      >
+                        <p className="text-sm font-medium">{ticket.title}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {FEEDBACK_CATEGORY_LABELS[ticket.category]} • {ticket.submitter?.name ?? "Unknown user"}
+                          {ticket.created_at &&
+                            ` • ${formatDistanceToNow(new Date(ticket.created_at), { addSuffix: true })}`}
+                        </p>
+                      </button>
+                    ))
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </CardContent>
+
+      <FeedbackTicketDialog
+        ticket={open}
+        profileId={profileId}
+        canTriage
+        onOpenChange={(isOpen) => !isOpen && setOpenId(null)}
+      />
+    </Card>
+  );
+};
+
+export default FeedbackTriage;
@@ -0,0 +1,237 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowLeft, Download, FileSpreadsheet, Loader2, Upload } from "lucide-react";
+import { useBulkImport, useImportContext } from "@/hooks/use-bulk-import";
+import { downloadFile } from "@/lib/download";
+import {
+  ColumnMapping,
+  IMPORT_KINDS,
+  ImportKind,
+  Spreadsheet,
+  guessMapping,
+  importTemplate,
+  readSpreadsheet,
+  validateImport,
+} from "@/lib/import";
+import { toast } from "sonner";
+
+const NOT_IMPORTED = "none";
+
+const ImportWizard = () => {
+  const [kind, setKind] = useState<ImportKind>("courses");
+  const [fileName, setFileName] = useState("");
+  const [sheet, setSheet] = useState<Spreadsheet | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [reading, setReading] = useState(false);
+  const { data: context, isLoading: contextLoading } = useImportContext(Boolean(sheet));
+  const bulkImport = useBulkImport();
+
+  const fields = IMPORT_KINDS[kind].fields;
+  const missingFields = fields.filter((field) => field.required && mapping[field.key] == null);
+
+  const validated = useMemo(
+    () => (sheet && context && missingFields.length === 0 ? validateImport(kind, sheet, mapping, context) : []),
+    [kind, sheet, mapping, context, missingFields.length],
+  );
+  const invalidRows = validated.filter((row) => row.errors.length > 0);
+
+  const reset = () => {
+    setSheet(null);
+    setFileName("");
+    setMapping({});
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setReading(true);
+    try {
+      const parsed = await readSpreadsheet(file);
+      setSheet(parsed);
+      setFileName(file.name);
+      setMapping(guessMapping(kind, parsed.headers));
+    } catch (error) {
+      toast.error(`Could not read ${file.name}: ${(error as Error).message}`);
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleImport = () => {
+    bulkImport.mutate(
+      { kind, rows: validated.map((row) => ({ ...row.values, row: row.row })) },
+      { onSuccess: reset },
+    );
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Bulk Import</CardTitle>
+        <CardDescription>
+          Load courses, classrooms, faculty or timetable rows from CSV or Excel; the file is imported completely or not
+          at all
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!sheet ? (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+            <div>
+              <Label>Import</Label>
+              <Select value={kind} onValueChange={(value: ImportKind) => setKind(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(IMPORT_KINDS).map(([value, { label }]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="import-file">File (.csv or .xlsx)</Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept=".csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+                onChange={(e) => handleFile(e.target.files?.[0])}
+                disabled={reading}
+              />
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => downloadFile(importTemplate(kind), `${kind}-template.csv`, "text/csv;charset=utf-8")}
+            >
+              <Download className="mr-2 h-4 w-4" />
+              Download template
+            </Button>
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="flex items-center space-x-2">
+                <FileSpreadsheet className="h-5 w-5 text-muted-foreground" />
+                <span className="font-medium">{fileName}</span>
+                <Badge variant="outline">{IMPORT_KINDS[kind].label}</Badge>
+                <span className="text-sm text-muted-foreground">{sheet.rows.length} rows</span>
+              </div>
+              <Button variant="ghost" size="sm" onClick={reset}>
+                <ArrowLeft className="mr-2 h-4 w-4" />
+                Choose another file
+              </Button>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium mb-2">Columns</h4>
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {fields.map((field) => (
+                  <div key={field.key}>
+                    <Label>
+                      {field.label}
+                      {field.required && " *"}
+                    </Label>
+                    <Select
+                      value={mapping[field.key] == null ? NOT_IMPORTED : String(mapping[field.key])}
+                      onValueChange={(value) =>
+                        setMapping((prev) => ({ ...prev, [field.key]: value === NOT_IMPORTED ? null : Number(value) }))
+                      }
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={NOT_IMPORTED}>Not imported</SelectItem>
+                        {sheet.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Column ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {missingFields.length > 0 ? (
+              <p className="text-sm text-destructive">
+                Choose a column for {missingFields.map((field) => field.label).join(", ")}.
+              </p>
+            ) : contextLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm">
+                    {invalidRows.length === 0
+                      ? `All ${validated.length} rows are valid.`
+                      : `${invalidRows.length} of ${validated.length} rows need fixing before the file can be imported.`}
+                  </p>
+                  <Button
+                    onClick={handleImport}
+                    disabled={validated.length === 0 || invalidRows.length > 0 || bulkImport.isPending}
+                  >
+                    {bulkImport.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <Upload className="mr-2 h-4 w-4" />
+                    )}
+                    Import {validated.length} rows
+                  </Button>
+                </div>
+
+                <div className="max-h-96 overflow-auto border rounded-lg">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Row</TableHead>
+                        {fields.map((field) => (
+                          <TableHead key={field.key}>{field.label}</TableHead>
+                        ))}
+                        <TableHead>Problems</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {validated.map((row, index) => (
+                        <TableRow key={row.row} className={row.errors.length > 0 ? "bg-destructive/5" : undefined}>
+                          <TableCell>{row.row}</TableCell>
+                          {fields.map((field) => {
+                            const column = mapping[field.key];
+                            return <TableCell key={field.key}>{column == null ? "" : sheet.rows[index][column]}</TableCell>;
+                          })}
+                          <TableCell>
+                            {row.errors.length > 0 ? (
+                              <ul className="text-xs text-destructive space-y-1">
+                                {row.errors.map((error) => (
+                                  <li key={error}>{error}</li>
+                                ))}
+                              </ul>
+                            ) : (
+                              <Badge variant="secondary">OK</Badge>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ImportWizard;
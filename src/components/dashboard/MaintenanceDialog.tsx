@@ -0,0 +1,75 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { Classroom, useClassroomMutations } from "@/hooks/use-classrooms";
+import { toast } from "sonner";
+
+interface MaintenanceDialogProps {
+  classroom: Classroom | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+const MaintenanceDialog = ({ classroom, onOpenChange }: MaintenanceDialogProps) => {
+  const [reason, setReason] = useState("");
+  const [until, setUntil] = useState("");
+  const { setMaintenance } = useClassroomMutations();
+
+  useEffect(() => {
+    setReason(classroom?.maintenance_reason ?? "");
+    setUntil(classroom?.maintenance_until ?? "");
+  }, [classroom]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (reason.trim().length < 3) {
+      toast.error("Please describe why the room is unavailable");
+      return;
+    }
+    setMaintenance.mutate(
+      { id: classroom!.id, reason: reason.trim(), until: until || null },
+      { onSuccess: () => onOpenChange(false) },
+    );
+  };
+
+  return (
+    <Dialog open={Boolean(classroom)} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Put {classroom?.room_name} under maintenance</DialogTitle>
+          <DialogDescription>The room will not be offered for new classes or bookings</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="maintenance-reason">Reason</Label>
+            <Textarea
+              id="maintenance-reason"
+              placeholder="Projector replacement, water damage, ..."
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              required
+            />
+          </div>
+          <div>
+            <Label htmlFor="maintenance-until">Expected back in service</Label>
+            <Input id="maintenance-until" type="date" value={until} onChange={(e) => setUntil(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant="destructive" disabled={setMaintenance.isPending}>
+              {setMaintenance.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Mark Unavailable
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MaintenanceDialog;
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, CheckCircle2, Loader2 } from "lucide-react";
+import { useClassrooms } from "@/hooks/use-classrooms";
+import { TimetableEntry, TimetableMove, useMoveTimetableEntry } from "@/hooks/use-timetable";
+import { FacultyPreference, UnavailableBlock, findPreferenceViolations } from "@/lib/preferences";
+import { describeConflict, findTimetableConflict } from "@/lib/timetable-conflicts";
+import { formatTime } from "@/lib/timetable";
+
+interface MoveClassDialogProps {
+  entry: TimetableEntry | null;
+  // Where the class was dropped; the room can still be changed here.
+  target: TimetableMove | null;
+  entries: TimetableEntry[];
+  preferences?: { preferences: FacultyPreference[]; blocks: UnavailableBlock[] };
+  onOpenChange: (open: boolean) => void;
+}
+
+const MoveClassDialog = ({ entry, target, entries, preferences, onOpenChange }: MoveClassDialogProps) => {
+  const [roomId, setRoomId] = useState("");
+  const { data: rooms = [] } = useClassrooms();
+  const move = useMoveTimetableEntry();
+
+  useEffect(() => {
+    setRoomId(target?.room_id ?? "");
+  }, [target]);
+
+  const conflictIn = (room_id: string) =>
+    entry && target ? findTimetableConflict(entries, { ...target, room_id, faculty_id: entry.faculty_id }) : null;
+  const conflict = conflictIn(roomId);
+  // Preferences only warn; unlike clashes they do not block the move.
+  const room = rooms.find((item) => item.id === roomId);
+  const warnings =
+    entry && target && room && preferences
+      ? findPreferenceViolations(
+          entries.map((item) =>
+            item.id === entry.id
+              ? { ...item, ...target, room_id: room.id, classrooms: { room_name: room.room_name, location: room.location } }
+              : item,
+          ),
+          preferences.preferences,
+          preferences.blocks,
+        ).filter((violation) => violation.timetable_id === entry.id)
+      : [];
+  const unchanged =
+    entry &&
+    target &&
+    target.day_of_week === entry.day_of_week &&
+    target.start_time === formatTime(entry.start_time) &&
+    roomId === entry.room_id;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    move.mutate({ ...target!, room_id: roomId }, { onSuccess: () => onOpenChange(false) });
+  };
+
+  return (
+    <Dialog open={Boolean(entry && target)} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            Move {entry?.courses.course_code} {entry?.courses.course_name}
+          </DialogTitle>
+          <DialogDescription>
+            From {entry?.day_of_week} {entry && formatTime(entry.start_time)}-{entry && formatTime(entry.end_time)} in{" "}
+            {entry?.classrooms.room_name} to {target?.day_of_week} {target && formatTime(target.start_time)}-
+            {target && formatTime(target.end_time)}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label>Room</Label>
+            <Select value={roomId} onValueChange={setRoomId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a room" />
+              </SelectTrigger>
+              <SelectContent>
+                {rooms.map((room) => (
+                  <SelectItem key={room.id} value={room.id}>
+                    {room.room_name} ({room.capacity} seats){conflictIn(room.id)?.kind === "room" && " • occupied"}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {conflict ? (
+            <div className="flex items-start space-x-2 rounded-lg border border-destructive/50 p-3 text-sm text-destructive">
+              <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+              <span>{describeConflict(conflict)}</span>
+            </div>
+          ) : (
+            <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+              <CheckCircle2 className="h-4 w-4 text-success" />
+              <span>No clashes with other classes this term.</span>
+            </div>
+          )}
+
+          {warnings.length > 0 && (
+            <div className="rounded-lg border border-warning/50 p-3 text-sm space-y-1">
+              <p className="flex items-center font-medium">
+                <AlertTriangle className="mr-2 h-4 w-4 text-warning" />
+                Goes against {entry?.profiles.name}'s preferences
+              </p>
+              <ul className="text-muted-foreground list-disc pl-6">
+                {warnings.map((warning, index) => (
+                  <li key={index}>{warning.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!roomId || unchanged || Boolean(conflict) || move.isPending}>
+              {move.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Move class
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default MoveClassDialog;
@@ -0,0 +1,90 @@
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Bell, BookOpen, CalendarClock, DoorOpen, MessageSquare } from "lucide-react";
+import { NotificationKind, useNotificationActions, useNotifications } from "@/hooks/use-notifications";
+import { cn } from "@/lib/utils";
+
+interface NotificationBellProps {
+  profileId: string;
+}
+
+const kindIcons: Record<NotificationKind, typeof Bell> = {
+  timetable: CalendarClock,
+  booking: DoorOpen,
+  feedback: MessageSquare,
+};
+
+const NotificationBell = ({ profileId }: NotificationBellProps) => {
+  const { data: notifications = [] } = useNotifications(profileId);
+  const { markRead, markAllRead } = useNotificationActions(profileId);
+
+  const unread = notifications.filter((notification) => !notification.read_at).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative" aria-label={`Notifications, ${unread} unread`}>
+          <Bell className="h-4 w-4" />
+          {unread > 0 && (
+            <span className="absolute -top-1 -right-1 min-w-[1rem] h-4 px-1 rounded-full bg-destructive text-destructive-foreground text-[10px] leading-4">
+              {unread > 9 ? "9+" : unread}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <h4 className="text-sm font-semibold">Notifications</h4>
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-auto px-2 py-1 text-xs"
+            onClick={() => markAllRead.mutate()}
+            disabled={unread === 0 || markAllRead.isPending}
+          >
+            Mark all as read
+          </Button>
+        </div>
+        {notifications.length === 0 ? (
+          <div className="flex flex-col items-center py-8 text-muted-foreground">
+            <BookOpen className="h-6 w-6 mb-2" />
+            <p className="text-sm">You are all caught up</p>
+          </div>
+        ) : (
+          <ScrollArea className="h-96">
+            {notifications.map((notification) => {
+              const Icon = kindIcons[notification.kind];
+              return (
+                <button
+                  key={notification.id}
+                  type="button"
+                  onClick={() => !notification.read_at && markRead.mutate(notification.id)}
+                  className={cn(
+                    "w-full flex items-start space-x-3 px-4 py-3 border-b text-left hover:bg-muted/50",
+                    !notification.read_at && "bg-primary/5",
+                  )}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-muted-foreground" />
+                  <div className="flex-1 min-w-0">
+                    <p className={cn("text-sm", !notification.read_at && "font-medium")}>{notification.title}</p>
+                    {notification.body && <p className="text-xs text-muted-foreground">{notification.body}</p>}
+                    {notification.created_at && (
+                      <p className="text-xs text-muted-foreground mt-1">
+                        {formatDistanceToNow(new Date(notification.created_at), { addSuffix: true })}
+                      </p>
+                    )}
+                  </div>
+                  {!notification.read_at && <span className="h-2 w-2 mt-1.5 rounded-full bg-primary shrink-0" />}
+                </button>
+              );
+            })}
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default NotificationBell;
@@ -0,0 +1,25 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import { Profile } from "@/hooks/use-auth";
+import { cn } from "@/lib/utils";
+
+interface ProfileAvatarProps {
+  profile: Pick<Profile, "name" | "avatar_url">;
+  className?: string;
+}
+
+const initials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+const ProfileAvatar = ({ profile, className }: ProfileAvatarProps) => (
+  <Avatar className={cn("h-12 w-12", className)}>
+    {profile.avatar_url && <AvatarImage src={profile.avatar_url} alt={profile.name} className="object-cover" />}
+    <AvatarFallback className="bg-gradient-primary text-white font-semibold">{initials(profile.name)}</AvatarFallback>
+  </Avatar>
+);
+
+export default ProfileAvatar;
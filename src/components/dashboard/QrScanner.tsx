@@ -0,0 +1,45 @@
+import { useEffect, useId, useRef, useState } from "react";
+import { Html5Qrcode } from "html5-qrcode";
+
+interface QrScannerProps {
+  onScan: (text: string) => void;
+}
+
+/**
+ * Live camera preview that reports each QR code it reads. Prefers the back
+ * camera; if no camera can be opened the reason is shown instead.
+ */
+const QrScanner = ({ onScan }: QrScannerProps) => {
+  const elementId = `qr-scanner-${useId().replace(/:/g, "")}`;
+  const [cameraError, setCameraError] = useState<string | null>(null);
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+
+  useEffect(() => {
+    const scanner = new Html5Qrcode(elementId, false);
+    const started = scanner
+      .start(
+        { facingMode: "environment" },
+        { fps: 10, qrbox: 240 },
+        (text) => onScanRef.current(text),
+        undefined,
+      )
+      .then(() => true)
+      .catch((error: unknown) => {
+        setCameraError(error instanceof Error ? error.message : String(error));
+        return false;
+      });
+
+    return () => {
+      started.then((running) => running && scanner.stop().then(() => scanner.clear()));
+    };
+  }, [elementId]);
+
+  return cameraError ? (
+    <p className="text-sm text-muted-foreground text-center py-8">Could not open the camera: {cameraError}</p>
+  ) : (
+    <div id={elementId} className="w-full overflow-hidden rounded-lg" />
+  );
+};
+
+export default QrScanner;
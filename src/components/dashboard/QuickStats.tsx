@@ -0,0 +1,87 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Building, CalendarDays, GraduationCap, LucideIcon, Users } from "lucide-react";
+import { useDashboardStats } from "@/hooks/use-dashboard-stats";
+
+interface QuickStatsProps {
+  profileId: string;
+}
+
+const StatCard = ({
+  title,
+  icon: Icon,
+  value,
+  caption,
+  loading,
+}: {
+  title: string;
+  icon: LucideIcon;
+  value?: number;
+  caption?: string;
+  loading: boolean;
+}) => (
+  <Card className="shadow-card">
+    <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+      <CardTitle className="text-sm font-medium">{title}</CardTitle>
+      <Icon className="h-4 w-4 text-muted-foreground" />
+    </CardHeader>
+    <CardContent>
+      {loading ? (
+        <>
+          <Skeleton className="h-8 w-12 mb-1" />
+          <Skeleton className="h-3 w-24" />
+        </>
+      ) : (
+        <>
+          <div className="text-2xl font-bold">{value ?? "—"}</div>
+          <p className="text-xs text-muted-foreground">{caption}</p>
+        </>
+      )}
+    </CardContent>
+  </Card>
+);
+
+const describeDelta = (today: number, yesterday: number) => {
+  const delta = today - yesterday;
+  if (delta === 0) return "Same as yesterday";
+  return `${delta > 0 ? "+" : ""}${delta} from yesterday`;
+};
+
+const QuickStats = ({ profileId }: QuickStatsProps) => {
+  const { data: stats, isLoading } = useDashboardStats(profileId);
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
+      <StatCard
+        title="Today's Classes"
+        icon={CalendarDays}
+        loading={isLoading}
+        value={stats?.today_classes}
+        caption={stats && describeDelta(stats.today_classes, stats.yesterday_classes)}
+      />
+      <StatCard
+        title="Available Rooms"
+        icon={Building}
+        loading={isLoading}
+        value={stats?.available_rooms}
+        caption={stats && `Out of ${stats.total_rooms} total`}
+      />
+      <StatCard
+        title="Active Faculty"
+        icon={Users}
+        loading={isLoading}
+        value={stats?.faculty_teaching_now}
+        caption={stats && `Currently teaching • ${stats.faculty_teaching_today} today`}
+      />
+      <StatCard
+        title="Departments"
+        icon={GraduationCap}
+        loading={isLoading}
+        value={stats?.departments}
+        caption="Active departments"
+      />
+    </div>
+  );
+};
+
+export default QuickStats;
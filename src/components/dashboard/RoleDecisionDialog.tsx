@@ -0,0 +1,68 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { ROLE_LABELS, RoleRequest, useRoleRequestActions } from "@/hooks/use-role-requests";
+
+interface RoleDecisionDialogProps {
+  request: RoleRequest | null;
+  approve: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const RoleDecisionDialog = ({ request, approve, onOpenChange }: RoleDecisionDialogProps) => {
+  const [note, setNote] = useState("");
+  const { decide } = useRoleRequestActions();
+
+  useEffect(() => {
+    setNote("");
+  }, [request]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    decide.mutate(
+      { id: request!.id, approve, note: note.trim() },
+      { onSuccess: () => onOpenChange(false) },
+    );
+  };
+
+  return (
+    <Dialog open={Boolean(request)} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {approve ? "Approve" : "Reject"} {request && ROLE_LABELS[request.requested_role]} access
+          </DialogTitle>
+          <DialogDescription>
+            {request?.requester.name} ({request?.requester.email})
+            {approve && " gets the new role as soon as you approve"}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="role-decision-note">Note to the requester</Label>
+            <Textarea
+              id="role-decision-note"
+              placeholder={approve ? "Optional" : "Why the role cannot be given"}
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" variant={approve ? "default" : "destructive"} disabled={decide.isPending}>
+              {decide.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {approve ? "Approve" : "Reject"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RoleDecisionDialog;
@@ -0,0 +1,34 @@
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Clock, XCircle } from "lucide-react";
+import { ROLE_LABELS, useMyRoleRequest } from "@/hooks/use-role-requests";
+
+interface RoleRequestNoticeProps {
+  profileId: string;
+}
+
+// Tells the user where their faculty/admin request stands until it is approved.
+const RoleRequestNotice = ({ profileId }: RoleRequestNoticeProps) => {
+  const { data: request } = useMyRoleRequest(profileId);
+
+  if (!request || request.status === "approved") return null;
+
+  const role = ROLE_LABELS[request.requested_role];
+
+  return request.status === "pending" ? (
+    <Alert>
+      <Clock className="h-4 w-4" />
+      <AlertTitle>{role} access requested</AlertTitle>
+      <AlertDescription>
+        An administrator still has to approve your request. Until then you can use the app as a student.
+      </AlertDescription>
+    </Alert>
+  ) : (
+    <Alert variant="destructive">
+      <XCircle className="h-4 w-4" />
+      <AlertTitle>{role} access was not approved</AlertTitle>
+      <AlertDescription>{request.decision_note || "Contact an administrator if you think this is a mistake."}</AlertDescription>
+    </Alert>
+  );
+};
+
+export default RoleRequestNotice;
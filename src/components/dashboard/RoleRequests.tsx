@@ -0,0 +1,66 @@
+import { useState } from "react";
+import { formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Check, Loader2, X } from "lucide-react";
+import RoleDecisionDialog from "@/components/dashboard/RoleDecisionDialog";
+import { ROLE_LABELS, RoleRequest, usePendingRoleRequests } from "@/hooks/use-role-requests";
+
+const RoleRequests = () => {
+  const [deciding, setDeciding] = useState<{ request: RoleRequest; approve: boolean } | null>(null);
+  const { data: requests = [], isLoading } = usePendingRoleRequests(true);
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Role Requests</CardTitle>
+        <CardDescription>People who asked for faculty or admin access; they stay students until approved</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : requests.length > 0 ? (
+          requests.map((request) => (
+            <div key={request.id} className="flex items-center justify-between p-4 border rounded-lg">
+              <div className="space-y-1">
+                <div className="flex items-center space-x-2">
+                  <h4 className="font-semibold">{request.requester.name}</h4>
+                  <Badge variant="outline">{ROLE_LABELS[request.requested_role]}</Badge>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {request.requester.email}
+                  {request.requester.department && ` • ${request.requester.department}`}
+                  {request.created_at && ` • ${formatDistanceToNow(new Date(request.created_at), { addSuffix: true })}`}
+                </p>
+                {request.reason && <p className="text-sm">{request.reason}</p>}
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button size="sm" onClick={() => setDeciding({ request, approve: true })}>
+                  <Check className="mr-1 h-4 w-4" />
+                  Approve
+                </Button>
+                <Button size="sm" variant="outline" onClick={() => setDeciding({ request, approve: false })}>
+                  <X className="mr-1 h-4 w-4" />
+                  Reject
+                </Button>
+              </div>
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No role requests are waiting.</p>
+        )}
+      </CardContent>
+
+      <RoleDecisionDialog
+        request={deciding?.request ?? null}
+        approve={deciding?.approve ?? true}
+        onOpenChange={(open) => !open && setDeciding(null)}
+      />
+    </Card>
+  );
+};
+
+export default RoleRequests;
@@ -0,0 +1,179 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { format } from "date-fns";
+import { useClassrooms } from "@/hooks/use-classrooms";
+import { BOOKING_KIND_LABELS, BookingKind, useRoomBookingActions } from "@/hooks/use-room-bookings";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { roomBookingSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface RoomBookingDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  profileId: string;
+}
+
+const emptyForm = () => ({
+  room_id: "",
+  title: "",
+  kind: "exam" as BookingKind,
+  booking_date: format(new Date(), "yyyy-MM-dd"),
+  start_time: "09:00",
+  end_time: "10:00",
+  expected_attendees: "",
+});
+
+const RoomBookingDialog = ({ open, onOpenChange, profileId }: RoomBookingDialogProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const { data: classrooms = [] } = useClassrooms();
+  const { request } = useRoomBookingActions();
+
+  const rooms = classrooms.filter((room) => room.availability_status !== false);
+  const selectedRoom = rooms.find((room) => room.id === form.room_id);
+  const attendees = Number(form.expected_attendees) || 0;
+
+  useEffect(() => {
+    if (open) setForm(emptyForm());
+  }, [open]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const values = roomBookingSchema.parse({
+        ...form,
+        expected_attendees: form.expected_attendees ? Number(form.expected_attendees) : null,
+      });
+      request.mutate(
+        { ...values, requested_by: profileId } as TablesInsert<"room_bookings">,
+        { onSuccess: () => onOpenChange(false) },
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Request a Room</DialogTitle>
+          <DialogDescription>One-off booking for an exam, seminar or make-up class; an admin approves it</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="booking-title">Title</Label>
+            <Input
+              id="booking-title"
+              placeholder="CS101 mid-term exam"
+              value={form.title}
+              onChange={(e) => setForm((prev) => ({ ...prev, title: e.target.value }))}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Room</Label>
+              <Select value={form.room_id} onValueChange={(value) => setForm((prev) => ({ ...prev, room_id: value }))}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select room" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id} value={room.id}>
+                      {room.room_name} ({room.capacity})
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Type</Label>
+              <Select
+                value={form.kind}
+                onValueChange={(value: BookingKind) => setForm((prev) => ({ ...prev, kind: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(BOOKING_KIND_LABELS).map(([kind, label]) => (
+                    <SelectItem key={kind} value={kind}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="booking-date">Date</Label>
+              <Input
+                id="booking-date"
+                type="date"
+                min={format(new Date(), "yyyy-MM-dd")}
+                value={form.booking_date}
+                onChange={(e) => setForm((prev) => ({ ...prev, booking_date: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="booking-start">From</Label>
+              <Input
+                id="booking-start"
+                type="time"
+                value={form.start_time}
+                onChange={(e) => setForm((prev) => ({ ...prev, start_time: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="booking-end">To</Label>
+              <Input
+                id="booking-end"
+                type="time"
+                value={form.end_time}
+                onChange={(e) => setForm((prev) => ({ ...prev, end_time: e.target.value }))}
+                required
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="booking-attendees">Expected attendees</Label>
+            <Input
+              id="booking-attendees"
+              type="number"
+              min={1}
+              value={form.expected_attendees}
+              onChange={(e) => setForm((prev) => ({ ...prev, expected_attendees: e.target.value }))}
+            />
+            {selectedRoom && attendees > selectedRoom.capacity && (
+              <p className="text-xs text-destructive mt-1">
+                {selectedRoom.room_name} only seats {selectedRoom.capacity}
+              </p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={request.isPending}>
+              {request.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Send Request
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default RoomBookingDialog;
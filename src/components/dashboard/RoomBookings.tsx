@@ -0,0 +1,187 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CalendarPlus, Check, Loader2, MapPin, Users, X } from "lucide-react";
+import { format } from "date-fns";
+import BookingDecisionDialog from "@/components/dashboard/BookingDecisionDialog";
+import RoomBookingDialog from "@/components/dashboard/RoomBookingDialog";
+import {
+  BOOKING_KIND_LABELS,
+  BookingStatus,
+  RoomBooking,
+  useApprovedBookings,
+  useMyBookings,
+  usePendingBookings,
+  useRoomBookingActions,
+} from "@/hooks/use-room-bookings";
+import { formatTime } from "@/lib/timetable";
+
+interface RoomBookingsProps {
+  profileId: string;
+  canRequest: boolean;
+  canApprove: boolean;
+}
+
+const STATUS_VARIANTS: Record<BookingStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  pending: "secondary",
+  approved: "default",
+  rejected: "destructive",
+  cancelled: "outline",
+};
+
+const formatBookingDate = (date: string) => format(new Date(`${date}T00:00:00`), "EEE, d MMM yyyy");
+
+const BookingSummary = ({ booking }: { booking: RoomBooking }) => (
+  <div>
+    <div className="flex items-center space-x-2">
+      <h4 className="font-semibold">{booking.title}</h4>
+      <Badge variant="outline">{BOOKING_KIND_LABELS[booking.kind]}</Badge>
+    </div>
+    <p className="text-sm text-muted-foreground">
+      {formatBookingDate(booking.booking_date)} • {formatTime(booking.start_time)} - {formatTime(booking.end_time)}
+    </p>
+    <div className="flex items-center space-x-4 text-sm text-muted-foreground">
+      <span className="flex items-center space-x-1">
+        <MapPin className="h-4 w-4" />
+        <span>{booking.classrooms.room_name}</span>
+      </span>
+      {booking.expected_attendees && (
+        <span className="flex items-center space-x-1">
+          <Users className="h-4 w-4" />
+          <span>
+            {booking.expected_attendees}/{booking.classrooms.capacity}
+          </span>
+        </span>
+      )}
+    </div>
+  </div>
+);
+
+const RoomBookings = ({ profileId, canRequest, canApprove }: RoomBookingsProps) => {
+  const [formOpen, setFormOpen] = useState(false);
+  const [deciding, setDeciding] = useState<{ booking: RoomBooking; approve: boolean } | null>(null);
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const { data: approved = [], isLoading: approvedLoading } = useApprovedBookings(today);
+  const { data: mine = [] } = useMyBookings(canRequest ? profileId : undefined);
+  const { data: pending = [] } = usePendingBookings(canApprove);
+  const { cancel } = useRoomBookingActions();
+
+  const myUpcoming = mine.filter((booking) => booking.booking_date >= today);
+
+  return (
+    <>
+      {canApprove && pending.length > 0 && (
+        <Card className="shadow-card">
+          <CardHeader>
+            <CardTitle>Pending Booking Requests</CardTitle>
+            <CardDescription>Approving checks the room against the timetable and other bookings again</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {pending.map((booking) => (
+              <div key={booking.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <div className="space-y-1">
+                  <BookingSummary booking={booking} />
+                  <p className="text-xs text-muted-foreground">
+                    Requested by {booking.requester.name} ({booking.requester.department})
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button size="sm" onClick={() => setDeciding({ booking, approve: true })}>
+                    <Check className="mr-1 h-4 w-4" />
+                    Approve
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => setDeciding({ booking, approve: false })}>
+                    <X className="mr-1 h-4 w-4" />
+                    Reject
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {canRequest && (
+        <Card className="shadow-card">
+          <CardHeader className="flex flex-row items-start justify-between space-y-0">
+            <div className="space-y-1.5">
+              <CardTitle>My Booking Requests</CardTitle>
+              <CardDescription>Upcoming one-off bookings you have asked for</CardDescription>
+            </div>
+            <Button onClick={() => setFormOpen(true)}>
+              <CalendarPlus className="mr-2 h-4 w-4" />
+              Request Booking
+            </Button>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {myUpcoming.length > 0 ? (
+              myUpcoming.map((booking) => (
+                <div key={booking.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div className="space-y-1">
+                    <BookingSummary booking={booking} />
+                    {booking.decision_note && (
+                      <p className="text-xs text-muted-foreground">Admin note: {booking.decision_note}</p>
+                    )}
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Badge variant={STATUS_VARIANTS[booking.status]} className="capitalize">
+                      {booking.status}
+                    </Badge>
+                    {(booking.status === "pending" || booking.status === "approved") && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => cancel.mutate(booking.id)}
+                        disabled={cancel.isPending}
+                      >
+                        Cancel
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-6">You have no upcoming booking requests.</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="shadow-card">
+        <CardHeader>
+          <CardTitle>Upcoming Room Bookings</CardTitle>
+          <CardDescription>Approved exams, seminars and events outside the regular timetable</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {approvedLoading ? (
+            <div className="flex justify-center py-6">
+              <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : approved.length > 0 ? (
+            approved.map((booking) => (
+              <div key={booking.id} className="flex items-center justify-between p-4 border rounded-lg">
+                <BookingSummary booking={booking} />
+                <span className="text-sm text-muted-foreground">{booking.requester.name}</span>
+              </div>
+            ))
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">No rooms are booked from today on.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {canRequest && <RoomBookingDialog open={formOpen} onOpenChange={setFormOpen} profileId={profileId} />}
+      {canApprove && (
+        <BookingDecisionDialog
+          booking={deciding?.booking ?? null}
+          approve={deciding?.approve ?? true}
+          onOpenChange={(open) => !open && setDeciding(null)}
+        />
+      )}
+    </>
+  );
+};
+
+export default RoomBookings;
@@ -0,0 +1,188 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Toggle } from "@/components/ui/toggle";
+import { Loader2, MapPin, Search, Users } from "lucide-react";
+import TermFields from "@/components/dashboard/TermFields";
+import { RoomSearch, useAvailableRooms, useEquipmentTypes } from "@/hooks/use-classrooms";
+import { DAYS_OF_WEEK, DayOfWeek, currentAcademicYear, currentSemester, dayOfWeekFor, toMinutes } from "@/lib/timetable";
+import { toast } from "sonner";
+
+const RoomFinder = () => {
+  const [form, setForm] = useState({
+    day: dayOfWeekFor(),
+    date: "",
+    startTime: "09:00",
+    endTime: "10:00",
+    minCapacity: "30",
+    equipment: [] as string[],
+    semester: currentSemester(),
+    academicYear: currentAcademicYear(),
+  });
+  const [search, setSearch] = useState<RoomSearch | null>(null);
+  const { data: equipmentTypes = [] } = useEquipmentTypes();
+  const { data: rooms = [], isFetching } = useAvailableRooms(search);
+
+  const toggleEquipment = (code: string, pressed: boolean) => {
+    setForm((prev) => ({
+      ...prev,
+      equipment: pressed ? [...prev.equipment, code] : prev.equipment.filter((item) => item !== code),
+    }));
+  };
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (toMinutes(form.endTime) <= toMinutes(form.startTime)) {
+      toast.error("End time must be after start time");
+      return;
+    }
+    setSearch({
+      day: form.date ? dayOfWeekFor(new Date(`${form.date}T00:00:00`)) : form.day,
+      startTime: form.startTime,
+      endTime: form.endTime,
+      minCapacity: Math.max(1, Number(form.minCapacity) || 1),
+      equipment: form.equipment,
+      semester: form.semester.trim(),
+      academicYear: form.academicYear.trim(),
+      date: form.date || undefined,
+    });
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Find a Free Room</CardTitle>
+        <CardDescription>Rooms with no class in the window, closest capacity fit first. Pick a date to also skip approved bookings</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleSearch} className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-7 gap-4">
+            <div>
+              <Label htmlFor="finder-date">On date</Label>
+              <Input
+                id="finder-date"
+                type="date"
+                value={form.date}
+                onChange={(e) => setForm((prev) => ({ ...prev, date: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Day</Label>
+              <Select
+                value={form.date ? dayOfWeekFor(new Date(`${form.date}T00:00:00`)) : form.day}
+                onValueChange={(value: DayOfWeek) => setForm((prev) => ({ ...prev, day: value }))}
+                disabled={Boolean(form.date)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {DAYS_OF_WEEK.map((day) => (
+                    <SelectItem key={day} value={day}>
+                      {day}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="finder-start">From</Label>
+              <Input
+                id="finder-start"
+                type="time"
+                value={form.startTime}
+                onChange={(e) => setForm((prev) => ({ ...prev, startTime: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="finder-end">To</Label>
+              <Input
+                id="finder-end"
+                type="time"
+                value={form.endTime}
+                onChange={(e) => setForm((prev) => ({ ...prev, endTime: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="finder-capacity">Seats needed</Label>
+              <Input
+                id="finder-capacity"
+                type="number"
+                min={1}
+                value={form.minCapacity}
+                onChange={(e) => setForm((prev) => ({ ...prev, minCapacity: e.target.value }))}
+              />
+            </div>
+            <TermFields
+              idPrefix="finder"
+              semester={form.semester}
+              academicYear={form.academicYear}
+              onSemesterChange={(value) => setForm((prev) => ({ ...prev, semester: value }))}
+              onAcademicYearChange={(value) => setForm((prev) => ({ ...prev, academicYear: value }))}
+            />
+          </div>
+          <div>
+            <Label>Required equipment</Label>
+            <div className="flex flex-wrap gap-2 mt-2">
+              {equipmentTypes.map((type) => (
+                <Toggle
+                  key={type.code}
+                  variant="outline"
+                  size="sm"
+                  pressed={form.equipment.includes(type.code)}
+                  onPressedChange={(pressed) => toggleEquipment(type.code, pressed)}
+                >
+                  {type.label}
+                </Toggle>
+              ))}
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={isFetching}>
+              {isFetching ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Search className="mr-2 h-4 w-4" />}
+              Search
+            </Button>
+          </div>
+        </form>
+
+        {search && !isFetching && (
+          rooms.length > 0 ? (
+            <div className="space-y-3">
+              {rooms.map((room, index) => (
+                <div key={room.id} className="flex items-center justify-between p-4 border rounded-lg">
+                  <div>
+                    <div className="flex items-center space-x-2">
+                      <h4 className="font-semibold">{room.room_name}</h4>
+                      {index === 0 && <Badge>Best fit</Badge>}
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                      <MapPin className="h-4 w-4" />
+                      <span>{room.location}</span>
+                    </div>
+                  </div>
+                  <div className="text-right text-sm">
+                    <div className="flex items-center justify-end space-x-2">
+                      <Users className="h-4 w-4" />
+                      <span>{room.capacity} seats</span>
+                    </div>
+                    <span className="text-muted-foreground">{room.spare_seats} spare</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No room matches these requirements in that window.
+            </p>
+          )
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default RoomFinder;
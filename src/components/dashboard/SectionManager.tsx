@@ -0,0 +1,194 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Plus, Trash2 } from "lucide-react";
+import TermFields from "@/components/dashboard/TermFields";
+import { useSectionCatalog } from "@/hooks/use-enrollments";
+import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { currentAcademicYear, currentSemester } from "@/lib/timetable";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const sectionSchema = z.object({
+  course_id: z.string().uuid("Select a course"),
+  section_code: z.string().trim().min(1, "Section code is required"),
+  room_id: z.string().uuid().nullable(),
+  capacity: z.number().int().positive("Capacity must be a positive number").nullable(),
+});
+
+const SectionManager = () => {
+  const queryClient = useQueryClient();
+  const [semester, setSemester] = useState(currentSemester());
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+  const [form, setForm] = useState({ course_id: "", section_code: "A", room_id: "", capacity: "" });
+  const { data: sections = [], isLoading } = useSectionCatalog(semester, academicYear);
+
+  const { data: options } = useQuery({
+    queryKey: ["section-options"],
+    queryFn: async () => {
+      const [courses, rooms] = await Promise.all([
+        supabase.from("courses").select("id, course_code, course_name").is("archived_at", null).order("course_code"),
+        supabase.from("classrooms").select("id, room_name, capacity").order("room_name"),
+      ]);
+      if (courses.error) throw courses.error;
+      if (rooms.error) throw rooms.error;
+      return { courses: courses.data, rooms: rooms.data };
+    },
+  });
+
+  const create = useMutation({
+    mutationFn: async () => {
+      const section = sectionSchema.parse({
+        course_id: form.course_id,
+        section_code: form.section_code,
+        room_id: form.room_id || null,
+        capacity: form.capacity ? Number(form.capacity) : null,
+      });
+      const { error } = await supabase
+        .from("course_sections")
+        .insert({ ...section, semester, academic_year: academicYear } as TablesInsert<"course_sections">);
+      if (error) {
+        if (error.code === "23505") throw new Error("That section already exists for this term");
+        throw error;
+      }
+    },
+    onSuccess: () => {
+      toast.success("Section created");
+      setForm((prev) => ({ ...prev, course_id: "", capacity: "" }));
+      queryClient.invalidateQueries({ queryKey: ["course-sections"] });
+    },
+    onError: (error: Error) =>
+      toast.error(error instanceof z.ZodError ? error.errors[0].message : error.message),
+  });
+
+  const remove = useMutation({
+    mutationFn: async (sectionId: string) => {
+      const { error } = await supabase.from("course_sections").delete().eq("id", sectionId);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["course-sections"] }),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Course Sections</CardTitle>
+        <CardDescription>Offer courses for a term and watch enrollment against room capacity</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+          <TermFields
+            idPrefix="sections"
+            semester={semester}
+            academicYear={academicYear}
+            onSemesterChange={setSemester}
+            onAcademicYearChange={setAcademicYear}
+          />
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="md:col-span-2">
+            <Label>Course</Label>
+            <Select value={form.course_id} onValueChange={(value) => setForm((prev) => ({ ...prev, course_id: value }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a course" />
+              </SelectTrigger>
+              <SelectContent>
+                {options?.courses.map((course) => (
+                  <SelectItem key={course.id} value={course.id}>
+                    {course.course_code} • {course.course_name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label htmlFor="section-code">Section</Label>
+            <Input
+              id="section-code"
+              value={form.section_code}
+              onChange={(e) => setForm((prev) => ({ ...prev, section_code: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label>Room</Label>
+            <Select value={form.room_id} onValueChange={(value) => setForm((prev) => ({ ...prev, room_id: value }))}>
+              <SelectTrigger>
+                <SelectValue placeholder="TBA" />
+              </SelectTrigger>
+              <SelectContent>
+                {options?.rooms.map((room) => (
+                  <SelectItem key={room.id} value={room.id}>
+                    {room.room_name} ({room.capacity})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex space-x-2">
+            <div className="flex-1">
+              <Label htmlFor="section-capacity">Cap</Label>
+              <Input
+                id="section-capacity"
+                type="number"
+                min={1}
+                placeholder="Room"
+                value={form.capacity}
+                onChange={(e) => setForm((prev) => ({ ...prev, capacity: e.target.value }))}
+              />
+            </div>
+            <Button className="self-end" onClick={() => create.mutate()} disabled={create.isPending}>
+              {create.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Plus className="h-4 w-4" />}
+            </Button>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : sections.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Course</TableHead>
+                <TableHead>Section</TableHead>
+                <TableHead>Room</TableHead>
+                <TableHead>Enrolled</TableHead>
+                <TableHead>Waitlist</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {sections.map((section) => (
+                <TableRow key={section.id}>
+                  <TableCell>{section.courses.course_code}</TableCell>
+                  <TableCell>{section.section_code}</TableCell>
+                  <TableCell>{section.classrooms?.room_name ?? "TBA"}</TableCell>
+                  <TableCell>{section.enrolled_count}/{section.capacity ?? "∞"}</TableCell>
+                  <TableCell>{section.waitlisted_count}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => remove.mutate(section.id)} disabled={remove.isPending}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No sections offered this term yet.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SectionManager;
@@ -0,0 +1,147 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { useClassrooms } from "@/hooks/use-classrooms";
+import { Session, useSessionExceptionActions } from "@/hooks/use-academic-calendar";
+import { formatTime, toMinutes } from "@/lib/timetable";
+import { toast } from "sonner";
+
+interface SessionExceptionDialogProps {
+  session: Session | null;
+  mode: "cancel" | "reschedule";
+  profileId: string;
+  onOpenChange: (open: boolean) => void;
+}
+
+const SessionExceptionDialog = ({ session, mode, profileId, onOpenChange }: SessionExceptionDialogProps) => {
+  const [form, setForm] = useState({ reason: "", date: "", startTime: "", endTime: "", roomId: "" });
+  const { data: classrooms = [] } = useClassrooms();
+  const { change } = useSessionExceptionActions(profileId);
+
+  useEffect(() => {
+    if (!session) return;
+    setForm({
+      reason: session.note ?? "",
+      date: session.session_date,
+      startTime: formatTime(session.start_time),
+      endTime: formatTime(session.end_time),
+      roomId: session.room_id,
+    });
+  }, [session]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (mode === "reschedule" && toMinutes(form.endTime) <= toMinutes(form.startTime)) {
+      toast.error("End time must be after start time");
+      return;
+    }
+    // A rescheduled row carries the date it was moved away from.
+    const sessionDate = session!.original_date ?? session!.session_date;
+
+    change.mutate(
+      {
+        timetableId: session!.timetable_id,
+        sessionDate,
+        reason: form.reason.trim() || null,
+        reschedule:
+          mode === "reschedule"
+            ? { date: form.date, startTime: form.startTime, endTime: form.endTime, roomId: form.roomId || null }
+            : undefined,
+      },
+      { onSuccess: () => onOpenChange(false) },
+    );
+  };
+
+  return (
+    <Dialog open={Boolean(session)} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>
+            {mode === "cancel" ? "Cancel" : "Reschedule"} {session?.course_code}
+          </DialogTitle>
+          <DialogDescription>
+            Only the {session?.original_date ?? session?.session_date} session changes; the weekly timetable stays as it is
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {mode === "reschedule" && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="exception-date">New date</Label>
+                <Input
+                  id="exception-date"
+                  type="date"
+                  value={form.date}
+                  onChange={(e) => setForm((prev) => ({ ...prev, date: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label>Room</Label>
+                <Select value={form.roomId} onValueChange={(value) => setForm((prev) => ({ ...prev, roomId: value }))}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {classrooms
+                      .filter((room) => room.availability_status !== false)
+                      .map((room) => (
+                        <SelectItem key={room.id} value={room.id}>
+                          {room.room_name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="exception-start">From</Label>
+                <Input
+                  id="exception-start"
+                  type="time"
+                  value={form.startTime}
+                  onChange={(e) => setForm((prev) => ({ ...prev, startTime: e.target.value }))}
+                  required
+                />
+              </div>
+              <div>
+                <Label htmlFor="exception-end">To</Label>
+                <Input
+                  id="exception-end"
+                  type="time"
+                  value={form.endTime}
+                  onChange={(e) => setForm((prev) => ({ ...prev, endTime: e.target.value }))}
+                  required
+                />
+              </div>
+            </div>
+          )}
+          <div>
+            <Label htmlFor="exception-reason">Reason</Label>
+            <Textarea
+              id="exception-reason"
+              placeholder="Shown to students on their schedule"
+              value={form.reason}
+              onChange={(e) => setForm((prev) => ({ ...prev, reason: e.target.value }))}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Back
+            </Button>
+            <Button type="submit" variant={mode === "cancel" ? "destructive" : "default"} disabled={change.isPending}>
+              {change.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {mode === "cancel" ? "Cancel Session" : "Reschedule"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SessionExceptionDialog;
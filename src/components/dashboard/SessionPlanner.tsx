@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Ban, CalendarClock, ChevronLeft, ChevronRight, Loader2, RotateCcw } from "lucide-react";
+import { addDays, format, startOfWeek } from "date-fns";
+import SessionExceptionDialog from "@/components/dashboard/SessionExceptionDialog";
+import {
+  Session,
+  SessionStatus,
+  isSessionHeld,
+  sessionKey,
+  useSessionExceptionActions,
+  useSessions,
+} from "@/hooks/use-academic-calendar";
+import { ScheduleProfile } from "@/hooks/use-today-schedule";
+import { formatTime } from "@/lib/timetable";
+import { cn } from "@/lib/utils";
+
+interface SessionPlannerProps {
+  profile: ScheduleProfile;
+}
+
+type ChangedStatus = Exclude<SessionStatus, "scheduled">;
+
+const STATUS_BADGES: Record<ChangedStatus, { label: string; variant: "outline" | "destructive" | "secondary" }> = {
+  rescheduled: { label: "Rescheduled", variant: "outline" },
+  moved: { label: "Moved", variant: "secondary" },
+  cancelled: { label: "Cancelled", variant: "destructive" },
+  suspended: { label: "No class", variant: "secondary" },
+};
+
+const SessionPlanner = ({ profile }: SessionPlannerProps) => {
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date(), { weekStartsOn: 1 }));
+  const [editing, setEditing] = useState<{ session: Session; mode: "cancel" | "reschedule" } | null>(null);
+
+  const from = format(weekStart, "yyyy-MM-dd");
+  const to = format(addDays(weekStart, 6), "yyyy-MM-dd");
+  const { data: sessions = [], isLoading } = useSessions(from, to);
+  const { restore } = useSessionExceptionActions(profile.id);
+
+  const mine = profile.role === "admin" ? sessions : sessions.filter((session) => session.faculty_id === profile.id);
+  const days = Array.from(new Set(mine.map((session) => session.session_date)));
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div className="space-y-1.5">
+          <CardTitle>Sessions This Week</CardTitle>
+          <CardDescription>
+            {profile.role === "admin" ? "Every dated class" : "Your dated classes"} with holidays and one-off changes
+            applied
+          </CardDescription>
+        </div>
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => setWeekStart((prev) => addDays(prev, -7))}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <span className="text-sm whitespace-nowrap">
+            {format(weekStart, "d MMM")} - {format(addDays(weekStart, 6), "d MMM yyyy")}
+          </span>
+          <Button variant="outline" size="sm" onClick={() => setWeekStart((prev) => addDays(prev, 7))}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : days.length > 0 ? (
+          days.map((day) => (
+            <div key={day} className="space-y-2">
+              <h4 className="text-sm font-semibold text-muted-foreground">
+                {format(new Date(`${day}T00:00:00`), "EEEE, d MMMM")}
+              </h4>
+              {mine
+                .filter((session) => session.session_date === day)
+                .map((session) => {
+                  const held = isSessionHeld(session);
+                  const badge = session.status !== "scheduled" ? STATUS_BADGES[session.status] : null;
+                  const changed = session.status !== "scheduled" && session.status !== "suspended";
+
+                  return (
+                    <div
+                      key={sessionKey(session)}
+                      className={cn("flex items-center justify-between p-3 border rounded-lg", !held && "opacity-60")}
+                    >
+                      <div>
+                        <div className="flex items-center space-x-2">
+                          <span className={cn("font-medium", !held && "line-through")}>
+                            {session.course_code} • {session.course_name}
+                          </span>
+                          {badge && <Badge variant={badge.variant}>{badge.label}</Badge>}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {formatTime(session.start_time)} - {formatTime(session.end_time)} • {session.room_name} •{" "}
+                          {session.faculty_name}
+                          {session.note && ` • ${session.note}`}
+                        </p>
+                      </div>
+                      {session.status !== "suspended" && (
+                        <div className="whitespace-nowrap">
+                          {changed ? (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() =>
+                                restore.mutate({
+                                  timetableId: session.timetable_id,
+                                  sessionDate: session.original_date ?? session.session_date,
+                                })
+                              }
+                              disabled={restore.isPending}
+                            >
+                              <RotateCcw className="mr-1 h-4 w-4" />
+                              Restore
+                            </Button>
+                          ) : (
+                            <>
+                              <Button variant="ghost" size="sm" onClick={() => setEditing({ session, mode: "reschedule" })}>
+                                <CalendarClock className="mr-1 h-4 w-4" />
+                                Reschedule
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => setEditing({ session, mode: "cancel" })}>
+                                <Ban className="mr-1 h-4 w-4" />
+                                Cancel
+                              </Button>
+                            </>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+            </div>
+          ))
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No classes fall in this week.</p>
+        )}
+      </CardContent>
+
+      <SessionExceptionDialog
+        session={editing?.session ?? null}
+        mode={editing?.mode ?? "cancel"}
+        profileId={profile.id}
+        onOpenChange={(open) => !open && setEditing(null)}
+      />
+    </Card>
+  );
+};
+
+export default SessionPlanner;
@@ -0,0 +1,25 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface TermFieldsProps {
+  idPrefix: string;
+  semester: string;
+  academicYear: string;
+  onSemesterChange: (value: string) => void;
+  onAcademicYearChange: (value: string) => void;
+}
+
+const TermFields = ({ idPrefix, semester, academicYear, onSemesterChange, onAcademicYearChange }: TermFieldsProps) => (
+  <>
+    <div>
+      <Label htmlFor={`${idPrefix}-semester`}>Semester</Label>
+      <Input id={`${idPrefix}-semester`} value={semester} onChange={(e) => onSemesterChange(e.target.value)} />
+    </div>
+    <div>
+      <Label htmlFor={`${idPrefix}-year`}>Academic Year</Label>
+      <Input id={`${idPrefix}-year`} value={academicYear} onChange={(e) => onAcademicYearChange(e.target.value)} />
+    </div>
+  </>
+);
+
+export default TermFields;
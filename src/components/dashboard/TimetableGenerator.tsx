@@ -0,0 +1,314 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AlertTriangle, CheckCircle2, Loader2, Wand2, XCircle } from "lucide-react";
+import CourseAssignmentsEditor from "@/components/dashboard/CourseAssignmentsEditor";
+import TermFields from "@/components/dashboard/TermFields";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import {
+  DEFAULT_GENERATOR_SETTINGS,
+  GeneratorSettings,
+  UnscheduledSession,
+  generateTimetable,
+} from "@/lib/timetable-generator";
+import { throwTimetableError } from "@/lib/timetable-conflicts";
+import { DAYS_OF_WEEK, DayOfWeek, currentAcademicYear, currentSemester, formatTime } from "@/lib/timetable";
+import { toast } from "sonner";
+
+interface DraftEntry {
+  id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  courses: { course_code: string; course_name: string };
+  classrooms: { room_name: string };
+  profiles: { name: string };
+}
+
+const TimetableGenerator = () => {
+  const queryClient = useQueryClient();
+  const [semester, setSemester] = useState(currentSemester());
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+  const [settings, setSettings] = useState<GeneratorSettings>(DEFAULT_GENERATOR_SETTINGS);
+  const draftKey = ["timetable-draft", semester, academicYear];
+
+  const { data: draft, isLoading } = useQuery({
+    queryKey: draftKey,
+    queryFn: async () => {
+      const { data: draftRow, error } = await supabase
+        .from("timetable_drafts")
+        .select("*")
+        .eq("semester", semester)
+        .eq("academic_year", academicYear)
+        .eq("status", "draft")
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      if (!draftRow) return null;
+
+      const { data: entries, error: entriesError } = await supabase
+        .from("timetable_draft_entries")
+        .select(`
+          id,
+          day_of_week,
+          start_time,
+          end_time,
+          courses!timetable_draft_entries_course_id_fkey (
+            course_code,
+            course_name
+          ),
+          classrooms!timetable_draft_entries_room_id_fkey (
+            room_name
+          ),
+          profiles!timetable_draft_entries_faculty_id_fkey (
+            name
+          )
+        `)
+        .eq("draft_id", draftRow.id);
+      if (entriesError) throw entriesError;
+
+      const sorted = (entries as DraftEntry[]).sort(
+        (a, b) =>
+          DAYS_OF_WEEK.indexOf(a.day_of_week as DayOfWeek) - DAYS_OF_WEEK.indexOf(b.day_of_week as DayOfWeek) ||
+          a.start_time.localeCompare(b.start_time),
+      );
+      return { ...draftRow, entries: sorted, unscheduled: draftRow.unscheduled as unknown as UnscheduledSession[] };
+    },
+    enabled: Boolean(semester && academicYear),
+  });
+
+  const generate = useMutation({
+    mutationFn: async () => {
+      const [courses, assignments, rooms] = await Promise.all([
+        supabase.from("courses").select("id, course_code, credits"),
+        supabase
+          .from("course_assignments")
+          .select("*")
+          .eq("semester", semester)
+          .eq("academic_year", academicYear),
+        supabase.from("classrooms").select("id, room_name, capacity, equipment, availability_status"),
+      ]);
+      if (courses.error) throw courses.error;
+      if (assignments.error) throw assignments.error;
+      if (rooms.error) throw rooms.error;
+      if (assignments.data.length === 0) {
+        throw new Error("Assign faculty to at least one course for this term first");
+      }
+
+      const result = generateTimetable(courses.data, assignments.data, rooms.data, settings);
+
+      // The previous open draft is superseded in the same transaction.
+      const { error } = await supabase.rpc("save_timetable_draft", {
+        _semester: semester,
+        _academic_year: academicYear,
+        _settings: settings as unknown as Json,
+        _unscheduled: result.unscheduled as unknown as Json,
+        _entries: result.entries as unknown as Json,
+      });
+      if (error) throw error;
+
+      return result;
+    },
+    onSuccess: (result) => {
+      if (result.unscheduled.length > 0) {
+        toast.warning(`Draft created with ${result.unscheduled.length} unscheduled session(s)`);
+      } else {
+        toast.success(`Draft created with ${result.entries.length} sessions`);
+      }
+      queryClient.invalidateQueries({ queryKey: draftKey });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const commit = useMutation({
+    mutationFn: async (draftId: string) => {
+      const { data, error } = await supabase.rpc("commit_timetable_draft", { _draft_id: draftId });
+      throwTimetableError(error);
+      return data;
+    },
+    onSuccess: (count) => {
+      toast.success(`Timetable updated with ${count} sessions`);
+      queryClient.invalidateQueries({ queryKey: draftKey });
+      queryClient.invalidateQueries({ queryKey: ["timetable"] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const discard = useMutation({
+    mutationFn: async (draftId: string) => {
+      const { error } = await supabase.from("timetable_drafts").update({ status: "discarded" }).eq("id", draftId);
+      if (error) throw error;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: draftKey }),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const toggleDay = (day: DayOfWeek, checked: boolean) => {
+    setSettings((prev) => ({
+      ...prev,
+      days: checked
+        ? DAYS_OF_WEEK.filter((d) => d === day || prev.days.includes(d))
+        : prev.days.filter((d) => d !== day),
+    }));
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Timetable Generator</CardTitle>
+        <CardDescription>
+          Assign faculty to courses, generate a conflict-free week and review the draft before publishing it
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+          <TermFields
+            idPrefix="generator"
+            semester={semester}
+            academicYear={academicYear}
+            onSemesterChange={setSemester}
+            onAcademicYearChange={setAcademicYear}
+          />
+          <div>
+            <Label htmlFor="generator-start">Day starts</Label>
+            <Input
+              id="generator-start"
+              type="time"
+              value={settings.dayStart}
+              onChange={(e) => setSettings((prev) => ({ ...prev, dayStart: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="generator-end">Day ends</Label>
+            <Input
+              id="generator-end"
+              type="time"
+              value={settings.dayEnd}
+              onChange={(e) => setSettings((prev) => ({ ...prev, dayEnd: e.target.value }))}
+            />
+          </div>
+          <div>
+            <Label htmlFor="generator-length">Session (minutes)</Label>
+            <Input
+              id="generator-length"
+              type="number"
+              min={30}
+              step={15}
+              value={settings.sessionMinutes}
+              onChange={(e) => setSettings((prev) => ({ ...prev, sessionMinutes: Number(e.target.value) || 60 }))}
+            />
+          </div>
+        </div>
+
+        <div className="flex flex-wrap gap-4">
+          {DAYS_OF_WEEK.map((day) => (
+            <div key={day} className="flex items-center space-x-2">
+              <Checkbox
+                id={`generator-day-${day}`}
+                checked={settings.days.includes(day)}
+                onCheckedChange={(checked) => toggleDay(day, checked === true)}
+              />
+              <Label htmlFor={`generator-day-${day}`}>{day}</Label>
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <h4 className="font-semibold mb-2">Faculty assignments</h4>
+          <CourseAssignmentsEditor semester={semester} academicYear={academicYear} />
+        </div>
+
+        <div className="flex justify-end">
+          <Button onClick={() => generate.mutate()} disabled={generate.isPending || settings.days.length === 0}>
+            {generate.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Wand2 className="mr-2 h-4 w-4" />}
+            Generate Draft
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : draft ? (
+          <div className="space-y-4">
+            <div className="flex items-center justify-between">
+              <div>
+                <h4 className="font-semibold">Draft for {draft.semester} {draft.academic_year}</h4>
+                <p className="text-sm text-muted-foreground">
+                  {draft.entries.length} sessions generated {new Date(draft.created_at).toLocaleString()}
+                </p>
+              </div>
+              <div className="flex space-x-2">
+                <Button variant="outline" onClick={() => discard.mutate(draft.id)} disabled={discard.isPending}>
+                  <XCircle className="mr-2 h-4 w-4" />
+                  Discard
+                </Button>
+                <Button
+                  onClick={() => commit.mutate(draft.id)}
+                  disabled={commit.isPending || draft.entries.length === 0}
+                >
+                  {commit.isPending ? (
+                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                  ) : (
+                    <CheckCircle2 className="mr-2 h-4 w-4" />
+                  )}
+                  Commit to Timetable
+                </Button>
+              </div>
+            </div>
+
+            {draft.unscheduled.length > 0 && (
+              <div className="p-4 border border-destructive/50 rounded-lg space-y-1">
+                <div className="flex items-center space-x-2 text-destructive font-medium">
+                  <AlertTriangle className="h-4 w-4" />
+                  <span>{draft.unscheduled.length} session(s) could not be scheduled</span>
+                </div>
+                {draft.unscheduled.map((session, index) => (
+                  <p key={index} className="text-sm text-muted-foreground">
+                    <Badge variant="outline" className="mr-2">{session.course_code}</Badge>
+                    {session.reason}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Day</TableHead>
+                  <TableHead>Time</TableHead>
+                  <TableHead>Course</TableHead>
+                  <TableHead>Faculty</TableHead>
+                  <TableHead>Room</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {draft.entries.map((entry) => (
+                  <TableRow key={entry.id}>
+                    <TableCell>{entry.day_of_week}</TableCell>
+                    <TableCell>{formatTime(entry.start_time)} - {formatTime(entry.end_time)}</TableCell>
+                    <TableCell>{entry.courses?.course_code} • {entry.courses?.course_name}</TableCell>
+                    <TableCell>{entry.profiles?.name}</TableCell>
+                    <TableCell>{entry.classrooms?.room_name}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center">No open draft for this term.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimetableGenerator;
@@ -0,0 +1,121 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { FileDown, Loader2 } from "lucide-react";
+import TermFields from "@/components/dashboard/TermFields";
+import { useTermTimetable } from "@/hooks/use-timetable";
+import { downloadFile, toFileSlug } from "@/lib/download";
+import { PrintScope, PrintableEntry, buildTimetablePdf } from "@/lib/timetable-pdf";
+import { currentAcademicYear, currentSemester } from "@/lib/timetable";
+import { toast } from "sonner";
+
+const SCOPE_OPTIONS: { value: PrintScope; label: string }[] = [
+  { value: "department", label: "Department" },
+  { value: "room", label: "Room" },
+  { value: "faculty", label: "Faculty member" },
+];
+
+// The value a scope filters entries by, and how it is labelled in the picker.
+const targetOf = (scope: PrintScope, entry: PrintableEntry) => {
+  if (scope === "department") return { id: entry.courses.department, label: entry.courses.department };
+  if (scope === "room") return { id: entry.classrooms.room_name, label: entry.classrooms.room_name };
+  return { id: entry.profiles.id, label: entry.profiles.name };
+};
+
+const TimetablePrint = () => {
+  const [semester, setSemester] = useState(currentSemester());
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+  const [scope, setScope] = useState<PrintScope>("department");
+  const [targetId, setTargetId] = useState("");
+  const { data: entries = [], isLoading } = useTermTimetable(semester, academicYear);
+
+  const targets = useMemo(() => {
+    const unique = new Map(entries.map((entry) => targetOf(scope, entry)).map((target) => [target.id, target.label]));
+    return [...unique].map(([id, label]) => ({ id, label })).sort((a, b) => a.label.localeCompare(b.label));
+  }, [entries, scope]);
+  const target = targets.find((item) => item.id === targetId);
+
+  const handleDownload = () => {
+    if (!target) return;
+    try {
+      const doc = buildTimetablePdf({
+        scope,
+        label: target.label,
+        semester,
+        academicYear,
+        entries: entries.filter((entry) => targetOf(scope, entry).id === target.id),
+      });
+      downloadFile(
+        doc.output("arraybuffer"),
+        `${toFileSlug(`${target.label} ${semester} ${academicYear}`)}.pdf`,
+        "application/pdf",
+      );
+    } catch (error) {
+      toast.error(`Could not create the PDF: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Printable Timetables</CardTitle>
+        <CardDescription>Weekly PDF grids for notice boards, by department, room or faculty member</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <TermFields
+            idPrefix="print"
+            semester={semester}
+            academicYear={academicYear}
+            onSemesterChange={setSemester}
+            onAcademicYearChange={setAcademicYear}
+          />
+          <div>
+            <Label>Timetable for</Label>
+            <Select
+              value={scope}
+              onValueChange={(value: PrintScope) => {
+                setScope(value);
+                setTargetId("");
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SCOPE_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value}>
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>{SCOPE_OPTIONS.find((option) => option.value === scope)?.label}</Label>
+            <Select value={targetId} onValueChange={setTargetId} disabled={targets.length === 0}>
+              <SelectTrigger>
+                <SelectValue placeholder={isLoading ? "Loading..." : targets.length === 0 ? "No classes this term" : "Select"} />
+              </SelectTrigger>
+              <SelectContent>
+                {targets.map((item) => (
+                  <SelectItem key={item.id} value={item.id}>
+                    {item.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button onClick={handleDownload} disabled={!target}>
+            {isLoading ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <FileDown className="mr-2 h-4 w-4" />}
+            Download PDF
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TimetablePrint;
@@ -0,0 +1,109 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { CalendarDays, Clock, Loader2, MapPin } from "lucide-react";
+import { isSessionHeld, sessionKey } from "@/hooks/use-academic-calendar";
+import { useDisplayPreferences } from "@/hooks/use-auth";
+import { ScheduleProfile, useTodaySchedule } from "@/hooks/use-today-schedule";
+import { formatTime, minutesSinceMidnight, toMinutes } from "@/lib/timetable";
+import { cn } from "@/lib/utils";
+
+interface TodayScheduleProps {
+  profile: ScheduleProfile;
+}
+
+const descriptions: Record<ScheduleProfile["role"], string> = {
+  admin: "All classes running across the institution today",
+  faculty: "The classes you are teaching today",
+  student: "Your classes and events for today",
+};
+
+const TodaySchedule = ({ profile }: TodayScheduleProps) => {
+  const [now, setNow] = useState(() => new Date());
+  const { data: sessions = [], isLoading } = useTodaySchedule(profile, now);
+  const { timeFormat } = useDisplayPreferences();
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 60_000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  const currentMinutes = minutesSinceMidnight(now);
+  const isNow = (start: string, end: string) =>
+    toMinutes(start) <= currentMinutes && currentMinutes < toMinutes(end);
+  // The original slot of a moved class only matters on the day it moved away from.
+  const entries = sessions.filter((session) => session.status !== "moved");
+  const next = entries.find((entry) => isSessionHeld(entry) && toMinutes(entry.start_time) > currentMinutes);
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Today's Schedule</CardTitle>
+        <CardDescription>{descriptions[profile.role]}</CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : entries.length > 0 ? (
+          <div className="space-y-4">
+            {entries.map((entry) => {
+              const held = isSessionHeld(entry);
+              const live = held && isNow(entry.start_time, entry.end_time);
+              const finished = toMinutes(entry.end_time) <= currentMinutes;
+
+              return (
+                <div
+                  key={sessionKey(entry)}
+                  className={cn(
+                    "flex items-center justify-between p-4 border rounded-lg",
+                    live && "border-primary bg-primary/5",
+                    (finished || !held) && "opacity-60",
+                  )}
+                >
+                  <div className="flex items-center space-x-4">
+                    <div className="w-12 h-12 bg-gradient-primary rounded-lg flex items-center justify-center">
+                      <CalendarDays className="h-6 w-6 text-white" />
+                    </div>
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <h4 className={cn("font-semibold", !held && "line-through")}>{entry.course_name}</h4>
+                        {live && <Badge>Now</Badge>}
+                        {entry === next && <Badge variant="secondary">Next</Badge>}
+                        {entry.status === "rescheduled" && <Badge variant="outline">Rescheduled</Badge>}
+                        {entry.status === "cancelled" && <Badge variant="destructive">Cancelled</Badge>}
+                        {entry.status === "suspended" && <Badge variant="outline">No class</Badge>}
+                      </div>
+                      <p className="text-sm text-muted-foreground">
+                        {entry.course_code} • {entry.faculty_name}
+                        {entry.note && ` • ${entry.note}`}
+                      </p>
+                    </div>
+                  </div>
+                  <div className="text-right">
+                    <div className="flex items-center space-x-2 text-sm">
+                      <Clock className="h-4 w-4" />
+                      <span>{formatTime(entry.start_time, timeFormat)} - {formatTime(entry.end_time, timeFormat)}</span>
+                    </div>
+                    <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                      <MapPin className="h-4 w-4" />
+                      <span>{entry.room_name}</span>
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        ) : (
+          <div className="text-center py-8">
+            <CalendarDays className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No classes scheduled for today</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TodaySchedule;
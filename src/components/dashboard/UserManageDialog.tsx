@@ -0,0 +1,196 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { History, Loader2 } from "lucide-react";
+import { ROLE_LABELS, UserRole } from "@/hooks/use-role-requests";
+import { PROFILE_AUDIT_LABELS, ProfileAuditEntry, UserProfile, useProfileAudit, useUserAdminActions } from "@/hooks/use-users";
+import { profileDetailsSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface UserManageDialogProps {
+  user: UserProfile | null;
+  isSelf: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const timestamp = (value: string) => format(new Date(value), "d MMM yyyy, HH:mm");
+
+const describeEntry = (entry: ProfileAuditEntry) =>
+  entry.action === "role_changed" && entry.old_role && entry.new_role
+    ? `${ROLE_LABELS[entry.old_role]} → ${ROLE_LABELS[entry.new_role]}`
+    : PROFILE_AUDIT_LABELS[entry.action];
+
+const UserManageDialog = ({ user, isSelf, onOpenChange }: UserManageDialogProps) => {
+  const [details, setDetails] = useState({ name: "", department: "", phone: "" });
+  const [role, setRole] = useState<UserRole>("student");
+  const [note, setNote] = useState("");
+  const { data: history = [], isLoading } = useProfileAudit(user?.id);
+  const { updateDetails, setRole: changeRole, setActive } = useUserAdminActions();
+
+  // Follows the stored row, so a save or role change refills the form
+  useEffect(() => {
+    if (!user) return;
+    setDetails({ name: user.name, department: user.department ?? "", phone: user.phone ?? "" });
+    setRole(user.role);
+  }, [user]);
+
+  useEffect(() => {
+    setNote("");
+  }, [user?.id]);
+
+  const handleSaveDetails = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const parsed = profileDetailsSchema.parse({ ...details, phone: details.phone.trim() || null });
+      updateDetails.mutate({ id: user!.id, details: parsed });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  const handleRoleChange = () => {
+    changeRole.mutate({ id: user!.id, role, note: note.trim() }, { onSuccess: () => setNote("") });
+  };
+
+  const handleToggleActive = () => {
+    setActive.mutate({ id: user!.id, active: !user!.is_active, note: note.trim() }, { onSuccess: () => setNote("") });
+  };
+
+  return (
+    <Dialog open={Boolean(user)} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{user?.name}</DialogTitle>
+          <DialogDescription>
+            {user?.email}
+            {user && ` • ${ROLE_LABELS[user.role]}`}
+            {user && !user.is_active && user.deactivated_at && ` • Deactivated ${timestamp(user.deactivated_at)}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 max-h-[65vh] overflow-y-auto pr-1">
+          <form onSubmit={handleSaveDetails} className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <Label htmlFor="manage-user-name">Name</Label>
+                <Input
+                  id="manage-user-name"
+                  value={details.name}
+                  onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="manage-user-department">Department</Label>
+                <Input
+                  id="manage-user-department"
+                  value={details.department}
+                  onChange={(e) => setDetails({ ...details, department: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="manage-user-phone">Phone</Label>
+                <Input
+                  id="manage-user-phone"
+                  value={details.phone}
+                  onChange={(e) => setDetails({ ...details, phone: e.target.value })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button type="submit" variant="outline" disabled={updateDetails.isPending}>
+                {updateDetails.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Save Details
+              </Button>
+            </div>
+          </form>
+
+          <Separator />
+
+          {isSelf ? (
+            <p className="text-sm text-muted-foreground">
+              You cannot change your own role or deactivate your own account. Ask another administrator.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 items-end">
+                <div>
+                  <Label>Role</Label>
+                  <Select value={role} onValueChange={(value: UserRole) => setRole(value)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>
+                          {label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="md:col-span-2">
+                  <Label htmlFor="manage-user-note">Reason (kept in the history)</Label>
+                  <Input
+                    id="manage-user-note"
+                    placeholder="Optional"
+                    value={note}
+                    onChange={(e) => setNote(e.target.value)}
+                  />
+                </div>
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant={user?.is_active ? "destructive" : "outline"}
+                  onClick={handleToggleActive}
+                  disabled={setActive.isPending}
+                >
+                  {setActive.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {user?.is_active ? "Deactivate Account" : "Reactivate Account"}
+                </Button>
+                <Button onClick={handleRoleChange} disabled={role === user?.role || changeRole.isPending}>
+                  {changeRole.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Change Role
+                </Button>
+              </div>
+            </div>
+          )}
+
+          <Separator />
+
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">History</h4>
+            {isLoading ? (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : history.length > 0 ? (
+              history.map((entry) => (
+                <div key={entry.id} className="flex items-start text-xs text-muted-foreground">
+                  <History className="mr-2 mt-0.5 h-3 w-3 shrink-0" />
+                  <div>
+                    <p>
+                      {describeEntry(entry)} by {entry.changer?.name ?? "the system"} • {timestamp(entry.created_at)}
+                    </p>
+                    {entry.note && <p className="italic">{entry.note}</p>}
+                  </div>
+                </div>
+              ))
+            ) : (
+              <p className="text-xs text-muted-foreground">No role or account changes yet</p>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default UserManageDialog;
@@ -0,0 +1,153 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Users } from "lucide-react";
+import UserManageDialog from "@/components/dashboard/UserManageDialog";
+import { ROLE_LABELS } from "@/hooks/use-role-requests";
+import { useUserDirectory } from "@/hooks/use-users";
+
+interface UserManagementProps {
+  currentProfileId: string;
+}
+
+const UserManagement = ({ currentProfileId }: UserManagementProps) => {
+  const [search, setSearch] = useState("");
+  const [role, setRole] = useState("all");
+  const [department, setDepartment] = useState("all");
+  const [showInactive, setShowInactive] = useState(false);
+  const [openId, setOpenId] = useState<string | null>(null);
+
+  const { data: users = [], isLoading } = useUserDirectory(true);
+
+  const departments = useMemo(
+    () => [...new Set(users.map((user) => user.department).filter((name): name is string => Boolean(name)))].sort(),
+    [users],
+  );
+
+  const filtered = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    return users
+      .filter((user) => showInactive || user.is_active)
+      .filter((user) => role === "all" || user.role === role)
+      .filter((user) => department === "all" || user.department === department)
+      .filter((user) => !term || `${user.name} ${user.email} ${user.phone ?? ""}`.toLowerCase().includes(term));
+  }, [users, search, role, department, showInactive]);
+
+  const open = users.find((user) => user.id === openId) ?? null;
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>User Management</CardTitle>
+        <CardDescription>Find people, fix their details, change roles and deactivate accounts</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+          <div className="md:col-span-2">
+            <Label htmlFor="user-search">Search</Label>
+            <Input
+              id="user-search"
+              placeholder="Name, email or phone"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+          <div>
+            <Label>Role</Label>
+            <Select value={role} onValueChange={setRole}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All roles</SelectItem>
+                {Object.entries(ROLE_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Department</Label>
+            <Select value={department} onValueChange={setDepartment}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All departments</SelectItem>
+                {departments.map((name) => (
+                  <SelectItem key={name} value={name}>
+                    {name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex items-center space-x-2 pb-2">
+            <Switch id="user-show-inactive" checked={showInactive} onCheckedChange={setShowInactive} />
+            <Label htmlFor="user-show-inactive">Show deactivated</Label>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : filtered.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Name</TableHead>
+                <TableHead>Email</TableHead>
+                <TableHead>Role</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {filtered.map((user) => (
+                <TableRow key={user.id} className="cursor-pointer" onClick={() => setOpenId(user.id)}>
+                  <TableCell className="font-medium">
+                    {user.name}
+                    {user.id === currentProfileId && (
+                      <Badge variant="outline" className="ml-2">You</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{user.email}</TableCell>
+                  <TableCell>{ROLE_LABELS[user.role]}</TableCell>
+                  <TableCell>{user.department ?? "—"}</TableCell>
+                  <TableCell>
+                    {user.is_active ? (
+                      <Badge variant="secondary">Active</Badge>
+                    ) : (
+                      <Badge variant="destructive">Deactivated</Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8">
+            <Users className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+            <p className="text-muted-foreground">No users match your filters</p>
+          </div>
+        )}
+      </CardContent>
+
+      <UserManageDialog
+        user={open}
+        isSelf={open?.id === currentProfileId}
+        onOpenChange={(isOpen) => !isOpen && setOpenId(null)}
+      />
+    </Card>
+  );
+};
+
+export default UserManagement;
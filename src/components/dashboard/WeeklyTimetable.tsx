@@ -0,0 +1,298 @@
+import { useMemo, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Loader2 } from "lucide-react";
+import MoveClassDialog from "@/components/dashboard/MoveClassDialog";
+import TermFields from "@/components/dashboard/TermFields";
+import { useDisplayPreferences } from "@/hooks/use-auth";
+import { useFacultyPreferences } from "@/hooks/use-faculty-preferences";
+import { TimetableEntry, TimetableMove, useTermTimetable } from "@/hooks/use-timetable";
+import { findPreferenceViolations, groupViolations } from "@/lib/preferences";
+import { describeConflict, findTimetableConflict } from "@/lib/timetable-conflicts";
+import {
+  DAYS_OF_WEEK,
+  WORKING_DAYS,
+  currentAcademicYear,
+  currentSemester,
+  formatTime,
+  fromMinutes,
+  toMinutes,
+} from "@/lib/timetable";
+import { cn } from "@/lib/utils";
+
+interface WeeklyTimetableProps {
+  // Admins and faculty may drag classes to another slot.
+  canEdit: boolean;
+}
+
+type FilterKey = "department" | "course" | "room" | "faculty";
+
+const ALL = "all";
+const SLOT_MINUTES = 30;
+const SLOT_HEIGHT = 28;
+
+const FILTERS: { key: FilterKey; label: string; valueOf: (entry: TimetableEntry) => [string, string] }[] = [
+  { key: "department", label: "Department", valueOf: (entry) => [entry.courses.department, entry.courses.department] },
+  {
+    key: "course",
+    label: "Course",
+    valueOf: (entry) => [entry.course_id, `${entry.courses.course_code} ${entry.courses.course_name}`],
+  },
+  { key: "room", label: "Room", valueOf: (entry) => [entry.room_id, entry.classrooms.room_name] },
+  { key: "faculty", label: "Faculty", valueOf: (entry) => [entry.faculty_id, entry.profiles.name] },
+];
+
+const durationOf = (entry: TimetableEntry) => toMinutes(entry.end_time) - toMinutes(entry.start_time);
+
+// Side-by-side columns for overlapping classes within a day.
+const assignLanes = (entries: TimetableEntry[]) => {
+  const laneEnds: number[] = [];
+  const lanes = new Map<string, number>();
+
+  for (const entry of [...entries].sort((a, b) => a.start_time.localeCompare(b.start_time))) {
+    const lane = laneEnds.findIndex((end) => end <= toMinutes(entry.start_time));
+    const index = lane === -1 ? laneEnds.length : lane;
+    laneEnds[index] = toMinutes(entry.end_time);
+    lanes.set(entry.id, index);
+  }
+  return { lanes, count: Math.max(laneEnds.length, 1) };
+};
+
+const WeeklyTimetable = ({ canEdit }: WeeklyTimetableProps) => {
+  const [semester, setSemester] = useState(currentSemester());
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+  const [filters, setFilters] = useState<Record<FilterKey, string>>({
+    department: ALL,
+    course: ALL,
+    room: ALL,
+    faculty: ALL,
+  });
+  const [dragging, setDragging] = useState<TimetableEntry | null>(null);
+  const [hover, setHover] = useState<TimetableMove | null>(null);
+  const [moving, setMoving] = useState<{ entry: TimetableEntry; target: TimetableMove } | null>(null);
+  const { data: entries = [], isLoading } = useTermTimetable(semester, academicYear);
+  // Students cannot read preferences, so only editors get violation markers.
+  const { data: preferences } = useFacultyPreferences(semester, academicYear, canEdit);
+  const { timeFormat, timetableView } = useDisplayPreferences();
+
+  const options = useMemo(
+    () =>
+      Object.fromEntries(
+        FILTERS.map(({ key, valueOf }) => [
+          key,
+          [...new Map(entries.map(valueOf))].sort((a, b) => a[1].localeCompare(b[1])),
+        ]),
+      ) as Record<FilterKey, [string, string][]>,
+    [entries],
+  );
+
+  const violations = useMemo(
+    () => groupViolations(findPreferenceViolations(entries, preferences?.preferences ?? [], preferences?.blocks ?? [])),
+    [entries, preferences],
+  );
+
+  const visible = entries.filter((entry) =>
+    FILTERS.every(({ key, valueOf }) => filters[key] === ALL || valueOf(entry)[0] === filters[key]),
+  );
+
+  // The working-week view still shows a weekend day that has classes on it.
+  const days =
+    timetableView === "week"
+      ? DAYS_OF_WEEK
+      : DAYS_OF_WEEK.filter(
+          (day) => WORKING_DAYS.includes(day) || visible.some((entry) => entry.day_of_week === day),
+        );
+
+  // The grid covers 08:00-18:00 and stretches to fit earlier or later classes.
+  const gridStart = Math.min(8 * 60, ...entries.map((entry) => Math.floor(toMinutes(entry.start_time) / 60) * 60));
+  const gridEnd = Math.max(18 * 60, ...entries.map((entry) => Math.ceil(toMinutes(entry.end_time) / 60) * 60));
+  const slots = Array.from({ length: (gridEnd - gridStart) / SLOT_MINUTES }, (_, i) => gridStart + i * SLOT_MINUTES);
+
+  const targetFor = (entry: TimetableEntry, day: string, start: number): TimetableMove => ({
+    id: entry.id,
+    day_of_week: day,
+    start_time: fromMinutes(start),
+    end_time: fromMinutes(start + durationOf(entry)),
+    room_id: entry.room_id,
+  });
+
+  const hoverConflict =
+    dragging && hover ? findTimetableConflict(entries, { ...hover, faculty_id: dragging.faculty_id }) : null;
+  const isHovered = (day: string, slot: number) =>
+    hover?.day_of_week === day && toMinutes(hover.start_time) <= slot && slot < toMinutes(hover.end_time);
+
+  const endDrag = () => {
+    setDragging(null);
+    setHover(null);
+  };
+
+  const handleDrop = (day: string, slot: number) => {
+    if (!dragging) return;
+    // Dropping a class back on its own slot still opens the dialog to change its room.
+    setMoving({ entry: dragging, target: targetFor(dragging, day, slot) });
+    endDrag();
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Weekly Timetable</CardTitle>
+        <CardDescription>
+          {canEdit
+            ? "Drag a class to another slot to move it; clashes are checked before anything is saved"
+            : "The recurring weekly timetable for the term"}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-2 md:grid-cols-6 gap-4">
+          <TermFields
+            idPrefix="week"
+            semester={semester}
+            academicYear={academicYear}
+            onSemesterChange={setSemester}
+            onAcademicYearChange={setAcademicYear}
+          />
+          {FILTERS.map(({ key, label }) => (
+            <div key={key}>
+              <Label>{label}</Label>
+              <Select value={filters[key]} onValueChange={(value) => setFilters((prev) => ({ ...prev, [key]: value }))}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>All</SelectItem>
+                  {options[key].map(([value, text]) => (
+                    <SelectItem key={value} value={value}>
+                      {text}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        {dragging && (
+          <p className={cn("text-sm", hoverConflict ? "text-destructive" : "text-muted-foreground")}>
+            {!hover
+              ? `Moving ${dragging.courses.course_code}: drop it on a new slot`
+              : hoverConflict
+                ? describeConflict(hoverConflict)
+                : `${hover.day_of_week} ${hover.start_time}-${hover.end_time} is free for ${dragging.courses.course_code}`}
+          </p>
+        )}
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <div className="grid min-w-[56rem]" style={{ gridTemplateColumns: `4rem repeat(${days.length}, 1fr)` }}>
+              <div />
+              {days.map((day) => (
+                <div key={day} className="text-center text-sm font-medium pb-2">
+                  {day}
+                </div>
+              ))}
+
+              <div>
+                {slots.map((slot) => (
+                  <div key={slot} className="text-xs text-muted-foreground pr-2 text-right" style={{ height: SLOT_HEIGHT }}>
+                    {slot % 60 === 0 && formatTime(fromMinutes(slot), timeFormat)}
+                  </div>
+                ))}
+              </div>
+
+              {days.map((day) => {
+                const dayEntries = visible.filter((entry) => entry.day_of_week === day);
+                const { lanes, count } = assignLanes(dayEntries);
+
+                return (
+                  <div key={day} className="relative border-l">
+                    {slots.map((slot) => (
+                      <div
+                        key={slot}
+                        className={cn(
+                          "border-t",
+                          slot % 60 !== 0 && "border-dashed",
+                          isHovered(day, slot) && (hoverConflict ? "bg-destructive/15" : "bg-primary/10"),
+                        )}
+                        style={{ height: SLOT_HEIGHT }}
+                        onDragOver={(e) => {
+                          if (!dragging || slot + durationOf(dragging) > 24 * 60) return;
+                          e.preventDefault();
+                          if (hover?.day_of_week !== day || hover.start_time !== fromMinutes(slot)) {
+                            setHover(targetFor(dragging, day, slot));
+                          }
+                        }}
+                        onDrop={(e) => {
+                          e.preventDefault();
+                          handleDrop(day, slot);
+                        }}
+                      />
+                    ))}
+
+                    {dayEntries.map((entry) => {
+                      const lane = lanes.get(entry.id)!;
+                      const warnings = violations.get(entry.id) ?? [];
+                      return (
+                        <div
+                          key={entry.id}
+                          draggable={canEdit}
+                          onDragStart={(e) => {
+                            e.dataTransfer.setData("text/plain", entry.id);
+                            e.dataTransfer.effectAllowed = "move";
+                            setDragging(entry);
+                          }}
+                          onDragEnd={endDrag}
+                          title={[
+                            `${entry.courses.course_code} ${entry.courses.course_name}`,
+                            `${formatTime(entry.start_time, timeFormat)}-${formatTime(entry.end_time, timeFormat)} • ${entry.classrooms.room_name} • ${entry.profiles.name}`,
+                            ...warnings.map((warning) => `⚠ ${warning.message}`),
+                          ].join("\n")}
+                          className={cn(
+                            "absolute rounded-md border bg-primary/10 border-primary/30 px-1.5 py-1 text-xs overflow-hidden",
+                            canEdit && "cursor-grab",
+                            warnings.length > 0 && "border-warning bg-warning/10",
+                            // Let slots underneath receive the drop while a class is being dragged.
+                            dragging && "pointer-events-none",
+                            dragging?.id === entry.id && "opacity-40",
+                          )}
+                          style={{
+                            top: ((toMinutes(entry.start_time) - gridStart) / SLOT_MINUTES) * SLOT_HEIGHT,
+                            height: (durationOf(entry) / SLOT_MINUTES) * SLOT_HEIGHT - 2,
+                            left: `${(lane / count) * 100}%`,
+                            width: `${100 / count}%`,
+                          }}
+                        >
+                          <p className="flex items-center font-semibold truncate">
+                            {warnings.length > 0 && <AlertTriangle className="mr-1 h-3 w-3 shrink-0 text-warning" />}
+                            {entry.courses.course_code}
+                          </p>
+                          <p className="truncate text-muted-foreground">{entry.classrooms.room_name}</p>
+                          <p className="truncate text-muted-foreground">{entry.profiles.name}</p>
+                        </div>
+                      );
+                    })}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <MoveClassDialog
+        entry={moving?.entry ?? null}
+        target={moving?.target ?? null}
+        entries={entries}
+        preferences={preferences}
+        onOpenChange={(open) => !open && setMoving(null)}
+      />
+    </Card>
+  );
+};
+
+export default WeeklyTimetable;
@@ -0,0 +1,173 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Pencil, Trash2 } from "lucide-react";
+import { WorkloadLimit, useWorkloadLimitActions, useWorkloadLimits } from "@/hooks/use-workload";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { workloadLimitSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface WorkloadLimitsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Departments that appear in the report, offered as suggestions.
+  departments: string[];
+}
+
+const emptyForm = () => ({ department: "", min_weekly_hours: "6", max_weekly_hours: "18", max_credits: "" });
+
+const WorkloadLimitsDialog = ({ open, onOpenChange, departments }: WorkloadLimitsDialogProps) => {
+  const [form, setForm] = useState(emptyForm);
+  const { data: limits = [], isLoading } = useWorkloadLimits();
+  const { save, remove } = useWorkloadLimitActions();
+
+  useEffect(() => {
+    if (open) setForm(emptyForm());
+  }, [open]);
+
+  const edit = (limit: WorkloadLimit) =>
+    setForm({
+      department: limit.department,
+      min_weekly_hours: String(limit.min_weekly_hours),
+      max_weekly_hours: String(limit.max_weekly_hours),
+      max_credits: limit.max_credits === null ? "" : String(limit.max_credits),
+    });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const values = workloadLimitSchema.parse({
+        department: form.department,
+        min_weekly_hours: Number(form.min_weekly_hours),
+        max_weekly_hours: Number(form.max_weekly_hours),
+        max_credits: form.max_credits ? Number(form.max_credits) : null,
+      });
+      save.mutate(values as TablesInsert<"department_workload_limits">, { onSuccess: () => setForm(emptyForm()) });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Workload Limits</DialogTitle>
+          <DialogDescription>
+            Weekly contact hours and credits per department; departments without limits use 6-18 hours
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : limits.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Department</TableHead>
+                <TableHead>Hours per week</TableHead>
+                <TableHead>Max credits</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {limits.map((limit) => (
+                <TableRow key={limit.id}>
+                  <TableCell className="font-medium">{limit.department}</TableCell>
+                  <TableCell>
+                    {limit.min_weekly_hours}-{limit.max_weekly_hours}
+                  </TableCell>
+                  <TableCell>{limit.max_credits ?? "No limit"}</TableCell>
+                  <TableCell className="text-right">
+                    <Button variant="ghost" size="sm" onClick={() => edit(limit)}>
+                      <Pencil className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => remove.mutate(limit.id)} disabled={remove.isPending}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <p className="text-sm text-muted-foreground">No department has its own limits yet.</p>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            <div>
+              <Label htmlFor="limit-department">Department</Label>
+              <Input
+                id="limit-department"
+                list="limit-departments"
+                value={form.department}
+                onChange={(e) => setForm((prev) => ({ ...prev, department: e.target.value }))}
+                required
+              />
+              <datalist id="limit-departments">
+                {departments.map((department) => (
+                  <option key={department} value={department} />
+                ))}
+              </datalist>
+            </div>
+            <div>
+              <Label htmlFor="limit-min">Min hours</Label>
+              <Input
+                id="limit-min"
+                type="number"
+                min="0"
+                step="0.5"
+                value={form.min_weekly_hours}
+                onChange={(e) => setForm((prev) => ({ ...prev, min_weekly_hours: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="limit-max">Max hours</Label>
+              <Input
+                id="limit-max"
+                type="number"
+                min="0"
+                step="0.5"
+                value={form.max_weekly_hours}
+                onChange={(e) => setForm((prev) => ({ ...prev, max_weekly_hours: e.target.value }))}
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="limit-credits">Max credits</Label>
+              <Input
+                id="limit-credits"
+                type="number"
+                min="1"
+                placeholder="No limit"
+                value={form.max_credits}
+                onChange={(e) => setForm((prev) => ({ ...prev, max_credits: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Close
+            </Button>
+            <Button type="submit" disabled={save.isPending}>
+              {save.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Limits
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WorkloadLimitsDialog;
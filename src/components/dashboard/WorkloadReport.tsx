@@ -0,0 +1,182 @@
+import { useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowRight, Download, Loader2, SlidersHorizontal } from "lucide-react";
+import TermFields from "@/components/dashboard/TermFields";
+import WorkloadLimitsDialog from "@/components/dashboard/WorkloadLimitsDialog";
+import { useTermTimetable } from "@/hooks/use-timetable";
+import { useFacultyWorkload, useReassignCourse } from "@/hooks/use-workload";
+import { downloadFile, toFileSlug } from "@/lib/download";
+import { currentAcademicYear, currentSemester } from "@/lib/timetable";
+import { WorkloadStatus, suggestReassignments, weeklyHours, workloadCsv, workloadStatus } from "@/lib/workload";
+
+const statusBadges: Record<WorkloadStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  overload: { label: "Overloaded", variant: "destructive" },
+  underload: { label: "Underloaded", variant: "outline" },
+  balanced: { label: "Balanced", variant: "secondary" },
+};
+
+const WorkloadReport = () => {
+  const [semester, setSemester] = useState(currentSemester());
+  const [academicYear, setAcademicYear] = useState(currentAcademicYear());
+  const [limitsOpen, setLimitsOpen] = useState(false);
+  const { data: rows = [], isLoading } = useFacultyWorkload(semester, academicYear);
+  const { data: entries = [] } = useTermTimetable(semester, academicYear);
+  const reassign = useReassignCourse();
+
+  const suggestions = useMemo(() => suggestReassignments(rows, entries), [rows, entries]);
+  const departments = [...new Set(rows.map((row) => row.department).filter(Boolean) as string[])].sort();
+  const counts = rows.reduce(
+    (acc, row) => ({ ...acc, [workloadStatus(row)]: acc[workloadStatus(row)] + 1 }),
+    { overload: 0, underload: 0, balanced: 0 } as Record<WorkloadStatus, number>,
+  );
+
+  const handleExport = () =>
+    downloadFile(
+      workloadCsv(rows, semester, academicYear),
+      `workload-${toFileSlug(`${semester} ${academicYear}`)}.csv`,
+      "text/csv;charset=utf-8",
+    );
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Faculty Workload</CardTitle>
+            <CardDescription>Weekly contact hours and credits per faculty member against department limits</CardDescription>
+          </div>
+          <div className="flex space-x-2">
+            <Button variant="outline" onClick={() => setLimitsOpen(true)}>
+              <SlidersHorizontal className="mr-2 h-4 w-4" />
+              Limits
+            </Button>
+            <Button variant="outline" onClick={handleExport} disabled={rows.length === 0}>
+              <Download className="mr-2 h-4 w-4" />
+              Export CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 items-end">
+          <TermFields
+            idPrefix="workload"
+            semester={semester}
+            academicYear={academicYear}
+            onSemesterChange={setSemester}
+            onAcademicYearChange={setAcademicYear}
+          />
+          <div className="md:col-span-2 flex space-x-2">
+            <Badge variant="destructive">{counts.overload} overloaded</Badge>
+            <Badge variant="outline">{counts.underload} underloaded</Badge>
+            <Badge variant="secondary">{counts.balanced} balanced</Badge>
+          </div>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">No faculty members found.</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Faculty</TableHead>
+                <TableHead>Department</TableHead>
+                <TableHead>Courses</TableHead>
+                <TableHead>Hours / week</TableHead>
+                <TableHead>Credits</TableHead>
+                <TableHead>Status</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => {
+                const status = statusBadges[workloadStatus(row)];
+                return (
+                  <TableRow key={row.faculty_id}>
+                    <TableCell>
+                      <p className="font-medium">{row.name}</p>
+                      <p className="text-xs text-muted-foreground">{row.email}</p>
+                    </TableCell>
+                    <TableCell>{row.department ?? "—"}</TableCell>
+                    <TableCell>
+                      {row.courses} ({row.sessions} sessions)
+                    </TableCell>
+                    <TableCell>
+                      {weeklyHours(row.weekly_minutes)}
+                      <span className="text-xs text-muted-foreground">
+                        {" "}
+                        of {row.min_weekly_hours}-{row.max_weekly_hours}
+                      </span>
+                    </TableCell>
+                    <TableCell>
+                      {row.credits}
+                      {row.max_credits !== null && (
+                        <span className="text-xs text-muted-foreground"> of {row.max_credits}</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+
+        {suggestions.length > 0 && (
+          <div className="space-y-3">
+            <h4 className="text-sm font-medium">Suggested reassignments</h4>
+            {suggestions.map((suggestion) => (
+              <div
+                key={`${suggestion.course_id}:${suggestion.from.faculty_id}`}
+                className="flex items-center justify-between p-3 border rounded-lg"
+              >
+                <div className="text-sm">
+                  <p className="font-medium">
+                    {suggestion.course_code} {suggestion.course_name}
+                    <span className="text-muted-foreground font-normal">
+                      {" "}
+                      • {weeklyHours(suggestion.minutes)} h, {suggestion.credits} credits
+                    </span>
+                  </p>
+                  <p className="flex items-center text-muted-foreground">
+                    {suggestion.from.name} ({weeklyHours(suggestion.from.weekly_minutes)} h)
+                    <ArrowRight className="mx-2 h-3 w-3" />
+                    {suggestion.to.name} ({weeklyHours(suggestion.to.weekly_minutes)} h)
+                  </p>
+                </div>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() =>
+                    reassign.mutate({
+                      courseId: suggestion.course_id,
+                      semester,
+                      academicYear,
+                      fromFacultyId: suggestion.from.faculty_id,
+                      toFacultyId: suggestion.to.faculty_id,
+                    })
+                  }
+                  disabled={reassign.isPending}
+                >
+                  Reassign
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <WorkloadLimitsDialog open={limitsOpen} onOpenChange={setLimitsOpen} departments={departments} />
+    </Card>
+  );
+};
+
+export default WorkloadReport;
@@ -0,0 +1,66 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TIMETABLE_VIEW_LABELS, TIME_FORMAT_LABELS, useAccountActions } from "@/hooks/use-account";
+import { Profile, TimetableView } from "@/hooks/use-auth";
+import { TimeFormat } from "@/lib/timetable";
+
+interface PreferenceSettingsProps {
+  profile: Profile;
+}
+
+// Each choice is saved as soon as it is picked.
+const PreferenceSettings = ({ profile }: PreferenceSettingsProps) => {
+  const { updateProfile } = useAccountActions();
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Preferences</CardTitle>
+        <CardDescription>How timetables and times are shown to you</CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <Label>Default timetable view</Label>
+          <Select
+            value={profile.timetable_view}
+            onValueChange={(value: TimetableView) => updateProfile.mutate({ timetable_view: value })}
+            disabled={updateProfile.isPending}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TIMETABLE_VIEW_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div>
+          <Label>Time format</Label>
+          <Select
+            value={profile.time_format}
+            onValueChange={(value: TimeFormat) => updateProfile.mutate({ time_format: value })}
+            disabled={updateProfile.isPending}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(TIME_FORMAT_LABELS).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PreferenceSettings;
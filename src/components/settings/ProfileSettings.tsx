@@ -0,0 +1,109 @@
+import { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Trash2, Upload } from "lucide-react";
+import ProfileAvatar from "@/components/dashboard/ProfileAvatar";
+import { AVATAR_TYPES, useAccountActions } from "@/hooks/use-account";
+import { Profile } from "@/hooks/use-auth";
+import { profileDetailsSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+interface ProfileSettingsProps {
+  profile: Profile;
+}
+
+const ProfileSettings = ({ profile }: ProfileSettingsProps) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [details, setDetails] = useState({
+    name: profile.name,
+    department: profile.department ?? "",
+    phone: profile.phone ?? "",
+  });
+  const { updateProfile, uploadAvatar, removeAvatar } = useAccountActions();
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      updateProfile.mutate(profileDetailsSchema.parse({ ...details, phone: details.phone.trim() || null }));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires a change
+    e.target.value = "";
+    if (file) uploadAvatar.mutate(file);
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Profile</CardTitle>
+        <CardDescription>How you appear to other people in the app</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center space-x-4">
+          <ProfileAvatar profile={profile} className="h-16 w-16" />
+          <div className="flex space-x-2">
+            <input ref={fileInput} type="file" accept={AVATAR_TYPES.join(",")} className="hidden" onChange={handleFile} />
+            <Button variant="outline" size="sm" onClick={() => fileInput.current?.click()} disabled={uploadAvatar.isPending}>
+              {uploadAvatar.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Upload className="mr-2 h-4 w-4" />}
+              Upload Photo
+            </Button>
+            {profile.avatar_url && (
+              <Button variant="ghost" size="sm" onClick={() => removeAvatar.mutate()} disabled={removeAvatar.isPending}>
+                <Trash2 className="mr-2 h-4 w-4" />
+                Remove
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="settings-name">Full Name</Label>
+            <Input
+              id="settings-name"
+              value={details.name}
+              onChange={(e) => setDetails({ ...details, name: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="settings-department">Department</Label>
+              <Input
+                id="settings-department"
+                value={details.department}
+                onChange={(e) => setDetails({ ...details, department: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="settings-phone">Phone (Optional)</Label>
+              <Input
+                id="settings-phone"
+                type="tel"
+                value={details.phone}
+                onChange={(e) => setDetails({ ...details, phone: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={updateProfile.isPending}>
+              {updateProfile.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Save Profile
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ProfileSettings;
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Separator } from "@/components/ui/separator";
+import { Loader2 } from "lucide-react";
+import { useAccountActions } from "@/hooks/use-account";
+import { useSession } from "@/hooks/use-auth";
+import { emailChangeSchema, passwordChangeSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+const emptyPasswords = { current_password: "", new_password: "", confirm_password: "" };
+
+const SecuritySettings = () => {
+  const { user } = useSession();
+  const [email, setEmail] = useState("");
+  const [passwords, setPasswords] = useState(emptyPasswords);
+  const { changeEmail, changePassword } = useAccountActions();
+
+  const handleEmail = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const parsed = emailChangeSchema.parse({ email });
+      if (parsed.email === user?.email) {
+        toast.error("That is already your email address");
+        return;
+      }
+      changeEmail.mutate(parsed.email, { onSuccess: () => setEmail("") });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  const handlePassword = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      const parsed = passwordChangeSchema.parse(passwords);
+      changePassword.mutate(
+        { current: parsed.current_password, next: parsed.new_password },
+        { onSuccess: () => setPasswords(emptyPasswords) },
+      );
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      }
+    }
+  };
+
+  return (
+    <Card className="shadow-card">
+      <CardHeader>
+        <CardTitle>Sign-in & Security</CardTitle>
+        <CardDescription>Your email address and password</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <form onSubmit={handleEmail} className="space-y-4">
+          <div>
+            <Label htmlFor="settings-email">Email</Label>
+            <p className="text-sm text-muted-foreground">
+              Currently {user?.email}
+              {user?.new_email && ` • waiting for confirmation of ${user.new_email}`}
+            </p>
+          </div>
+          <div className="flex space-x-2">
+            <Input
+              id="settings-email"
+              type="email"
+              placeholder="New email address"
+              value={email}
+              onChange={(e) => setEmail(e.target.value)}
+            />
+            <Button type="submit" variant="outline" disabled={changeEmail.isPending}>
+              {changeEmail.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change Email
+            </Button>
+          </div>
+        </form>
+
+        <Separator />
+
+        <form onSubmit={handlePassword} className="space-y-4">
+          <div>
+            <Label htmlFor="settings-current-password">Current Password</Label>
+            <Input
+              id="settings-current-password"
+              type="password"
+              autoComplete="current-password"
+              value={passwords.current_password}
+              onChange={(e) => setPasswords({ ...passwords, current_password: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="settings-new-password">New Password</Label>
+              <Input
+                id="settings-new-password"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.new_password}
+                onChange={(e) => setPasswords({ ...passwords, new_password: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="settings-confirm-password">Confirm New Password</Label>
+              <Input
+                id="settings-confirm-password"
+                type="password"
+                autoComplete="new-password"
+                value={passwords.confirm_password}
+                onChange={(e) => setPasswords({ ...passwords, confirm_password: e.target.value })}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button type="submit" disabled={changePassword.isPending}>
+              {changePassword.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Change Password
+            </Button>
+          </div>
+        </form>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SecuritySettings;
@@ -0,0 +1,199 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Enums, Tables, TablesInsert } from "@/integrations/supabase/types";
+import { throwTimetableError } from "@/lib/timetable-conflicts";
+import { toast } from "sonner";
+
+export type AcademicTerm = Tables<"academic_terms">;
+export type CalendarEvent = Tables<"calendar_events">;
+export type EventKind = Enums<"calendar_event_kind">;
+
+export const EVENT_KIND_LABELS: Record<EventKind, string> = {
+  holiday: "Holiday",
+  exam_period: "Exam period",
+  break: "Break",
+  event: "Event",
+};
+
+export type SessionStatus = "scheduled" | "rescheduled" | "moved" | "cancelled" | "suspended";
+
+// One dated occurrence of a timetable entry, as returned by expand_timetable.
+export type Session = Omit<Database["public"]["Functions"]["expand_timetable"]["Returns"][number], "status"> & {
+  status: SessionStatus;
+};
+
+// Sessions that actually take place; the rest are shown for context only.
+export const isSessionHeld = (session: Pick<Session, "status">) =>
+  session.status === "scheduled" || session.status === "rescheduled";
+
+export const sessionKey = (session: Session) => `${session.timetable_id}:${session.session_date}:${session.status}`;
+
+export function useAcademicTerms() {
+  return useQuery({
+    queryKey: ["academic-calendar", "terms"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("academic_terms")
+        .select("*")
+        .order("start_date", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useCalendarEvents() {
+  return useQuery({
+    queryKey: ["academic-calendar", "events"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("calendar_events").select("*").order("start_date");
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Dated sessions between two yyyy-MM-dd dates, inclusive.
+export function useSessions(from: string, to: string) {
+  return useQuery({
+    queryKey: ["timetable", "sessions", from, to],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("expand_timetable", { _from: from, _to: to });
+      if (error) throw error;
+      return data as Session[];
+    },
+    enabled: Boolean(from && to && from <= to),
+  });
+}
+
+export function useCalendarMutations() {
+  const queryClient = useQueryClient();
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["academic-calendar"] });
+    queryClient.invalidateQueries({ queryKey: ["timetable"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+  };
+
+  const saveTerm = useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<"academic_terms"> }) => {
+      const { error } = id
+        ? await supabase.from("academic_terms").update(values).eq("id", id)
+        : await supabase.from("academic_terms").insert(values);
+      if (error) {
+        if (error.code === "23505") {
+          throw new Error(`${values.semester} ${values.academic_year} already has calendar dates`);
+        }
+        throw error;
+      }
+    },
+    onSuccess: (_, { id }) => {
+      toast.success(id ? "Term dates updated" : "Term added");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const removeTerm = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("academic_terms").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Term removed");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const saveEvent = useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<"calendar_events"> }) => {
+      const { error } = id
+        ? await supabase.from("calendar_events").update(values).eq("id", id)
+        : await supabase.from("calendar_events").insert(values);
+      if (error) throw error;
+    },
+    onSuccess: (_, { id }) => {
+      toast.success(id ? "Calendar entry updated" : "Calendar entry added");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const removeEvent = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("calendar_events").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Calendar entry removed");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { saveTerm, removeTerm, saveEvent, removeEvent };
+}
+
+export interface SessionChange {
+  timetableId: string;
+  sessionDate: string;
+  reason: string | null;
+  reschedule?: {
+    date: string;
+    startTime: string;
+    endTime: string;
+    roomId: string | null;
+  };
+}
+
+export function useSessionExceptionActions(profileId: string | undefined) {
+  const queryClient = useQueryClient();
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["timetable"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+  };
+
+  // Cancelling or moving a session replaces any earlier change to it.
+  const change = useMutation({
+    mutationFn: async ({ timetableId, sessionDate, reason, reschedule }: SessionChange) => {
+      const { error } = await supabase.from("session_exceptions").upsert(
+        {
+          timetable_id: timetableId,
+          session_date: sessionDate,
+          kind: reschedule ? "rescheduled" : "cancelled",
+          new_date: reschedule?.date ?? null,
+          new_start_time: reschedule?.startTime ?? null,
+          new_end_time: reschedule?.endTime ?? null,
+          new_room_id: reschedule?.roomId ?? null,
+          reason,
+          created_by: profileId,
+        },
+        { onConflict: "timetable_id,session_date" },
+      );
+      throwTimetableError(error);
+    },
+    onSuccess: (_, { reschedule }) => {
+      toast.success(reschedule ? "Session rescheduled" : "Session cancelled");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const restore = useMutation({
+    mutationFn: async ({ timetableId, sessionDate }: { timetableId: string; sessionDate: string }) => {
+      const { error } = await supabase
+        .from("session_exceptions")
+        .delete()
+        .eq("timetable_id", timetableId)
+        .eq("session_date", sessionDate);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Session restored to its regular slot");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { change, restore };
+}
@@ -0,0 +1,108 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { TablesUpdate } from "@/integrations/supabase/types";
+import { TimetableView, useProfile, useSession } from "@/hooks/use-auth";
+import { TimeFormat } from "@/lib/timetable";
+import { toast } from "sonner";
+
+export const TIMETABLE_VIEW_LABELS: Record<TimetableView, string> = {
+  week: "Full week",
+  workweek: "Working days",
+};
+
+export const TIME_FORMAT_LABELS: Record<TimeFormat, string> = {
+  "24h": "24-hour (14:30)",
+  "12h": "12-hour (2:30 PM)",
+};
+
+export const AVATAR_TYPES = ["image/png", "image/jpeg", "image/webp", "image/gif"];
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024;
+
+type AccountFields = Pick<TablesUpdate<"profiles">, "name" | "department" | "phone" | "timetable_view" | "time_format">;
+
+// Changes the signed-in user makes to their own account.
+export function useAccountActions() {
+  const queryClient = useQueryClient();
+  const { user } = useSession();
+  const { data: profile } = useProfile();
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["profile"] });
+
+  const updateProfile = useMutation({
+    mutationFn: async (fields: AccountFields) => {
+      const { error } = await supabase.from("profiles").update(fields).eq("id", profile!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Settings saved");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  // One file per user, replaced in place; the query string defeats cached copies.
+  const uploadAvatar = useMutation({
+    mutationFn: async (file: File) => {
+      if (!AVATAR_TYPES.includes(file.type)) throw new Error("Choose a PNG, JPEG, WebP or GIF image");
+      if (file.size > AVATAR_MAX_BYTES) throw new Error("The image must be 2 MB or smaller");
+
+      const path = `${user!.id}/avatar`;
+      const { error: uploadError } = await supabase.storage
+        .from("avatars")
+        .upload(path, file, { upsert: true, contentType: file.type });
+      if (uploadError) throw uploadError;
+
+      const { data } = supabase.storage.from("avatars").getPublicUrl(path);
+      const { error } = await supabase
+        .from("profiles")
+        .update({ avatar_url: `${data.publicUrl}?v=${Date.now()}` })
+        .eq("id", profile!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Avatar updated");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const removeAvatar = useMutation({
+    mutationFn: async () => {
+      const { error: removeError } = await supabase.storage.from("avatars").remove([`${user!.id}/avatar`]);
+      if (removeError) throw removeError;
+      const { error } = await supabase.from("profiles").update({ avatar_url: null }).eq("id", profile!.id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Avatar removed");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  // The current password is checked first so an unattended session cannot lock the owner out.
+  const changePassword = useMutation({
+    mutationFn: async ({ current, next }: { current: string; next: string }) => {
+      const { error: verifyError } = await supabase.auth.signInWithPassword({ email: user!.email!, password: current });
+      if (verifyError) throw new Error("Your current password is incorrect");
+      const { error } = await supabase.auth.updateUser({ password: next });
+      if (error) throw error;
+    },
+    onSuccess: () => toast.success("Password changed"),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  // Supabase mails a confirmation link; the profile follows once the new address is confirmed.
+  const changeEmail = useMutation({
+    mutationFn: async (email: string) => {
+      const { error } = await supabase.auth.updateUser(
+        { email },
+        { emailRedirectTo: `${window.location.origin}/settings` },
+      );
+      if (error) throw error;
+    },
+    onSuccess: (_, email) => toast.success(`Check ${email} for a link to confirm the change`),
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { updateProfile, uploadAvatar, removeAvatar, changePassword, changeEmail };
+}
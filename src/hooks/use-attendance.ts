@@ -0,0 +1,147 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Database, Enums, Json } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+export type AttendanceStatus = Enums<"attendance_status">;
+export type AttendanceSummaryRow = Database["public"]["Functions"]["attendance_summary"]["Returns"][number];
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  present: "Present",
+  late: "Late",
+  absent: "Absent",
+  excused: "Excused",
+};
+
+// Students attending less than this share of a course's sessions are flagged.
+export const ATTENDANCE_THRESHOLD = 75;
+
+// How often the check-in QR code changes; the server accepts each token for twice as long.
+export const CHECKIN_ROTATE_SECONDS = 15;
+
+// The QR code carries a link so that a phone's own camera app opens the check-in page.
+export const checkInUrl = (token: string) => `${window.location.origin}/check-in?token=${token}`;
+
+// Accepts a scanned check-in link or a bare token typed in by hand.
+export const tokenFromScan = (text: string) => {
+  try {
+    return new URL(text).searchParams.get("token") ?? "";
+  } catch {
+    return text.trim();
+  }
+};
+
+export interface AttendanceMark {
+  student_id: string;
+  status: AttendanceStatus;
+  note: string | null;
+}
+
+export interface ClassSessionRef {
+  timetableId: string;
+  sessionDate: string;
+  heldOn: string;
+}
+
+export interface RollCall extends ClassSessionRef {
+  records: AttendanceMark[];
+}
+
+/**
+ * Enrolled students of one class session with whatever was recorded so far.
+ * While self check-in is open the roll is polled to show arrivals.
+ */
+export function useSessionRoll(timetableId: string | undefined, sessionDate: string | undefined, live = false) {
+  return useQuery({
+    queryKey: ["attendance", "roll", timetableId, sessionDate],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("session_roll", {
+        _timetable_id: timetableId!,
+        _session_date: sessionDate!,
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: Boolean(timetableId && sessionDate),
+    refetchInterval: live ? CHECKIN_ROTATE_SECONDS * 1000 : false,
+  });
+}
+
+// A fresh check-in token for a running session, renewed on every rotation.
+export function useCheckInToken(session: ClassSessionRef | null) {
+  return useQuery({
+    queryKey: ["attendance", "check-in-token", session],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("issue_checkin_token", {
+        _timetable_id: session!.timetableId,
+        _session_date: session!.sessionDate,
+        _held_on: session!.heldOn,
+        // Local date; the database runs in UTC.
+        _today: format(new Date(), "yyyy-MM-dd"),
+      });
+      if (error) throw error;
+      return data[0];
+    },
+    enabled: Boolean(session),
+    refetchInterval: CHECKIN_ROTATE_SECONDS * 1000,
+    refetchIntervalInBackground: true,
+    gcTime: 0,
+    retry: false,
+  });
+}
+
+/**
+ * Per student and course attendance for a term. Row level security decides
+ * what comes back: students their own courses, faculty the classes they
+ * teach and admins everything.
+ */
+export function useAttendanceSummary(semester: string, academicYear: string) {
+  return useQuery({
+    queryKey: ["attendance", "summary", semester, academicYear],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("attendance_summary", {
+        _semester: semester,
+        _academic_year: academicYear,
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: Boolean(semester && academicYear),
+  });
+}
+
+export function useRecordAttendance() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ timetableId, sessionDate, heldOn, records }: RollCall) => {
+      const { error } = await supabase.rpc("record_attendance", {
+        _timetable_id: timetableId,
+        _session_date: sessionDate,
+        _held_on: heldOn,
+        _records: records as unknown as Json,
+        _today: format(new Date(), "yyyy-MM-dd"),
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Attendance saved");
+      queryClient.invalidateQueries({ queryKey: ["attendance"] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useCheckIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async (token: string) => {
+      const { data, error } = await supabase.rpc("check_in", { _token: token });
+      if (error) throw error;
+      return data[0];
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["attendance"] }),
+  });
+}
@@ -0,0 +1,53 @@
+import { createContext, useContext } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Session, User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables } from "@/integrations/supabase/types";
+import { UserRole } from "@/hooks/use-role-requests";
+import { TimeFormat } from "@/lib/timetable";
+
+export type Profile = Tables<"profiles">;
+export type TimetableView = Enums<"timetable_view">;
+
+export interface AuthState {
+  session: Session | null;
+  user: User | null;
+  // True until the stored session has been read on page load
+  loading: boolean;
+  // Set when the session came from a password reset link
+  passwordRecovery: boolean;
+}
+
+export const AuthContext = createContext<AuthState | null>(null);
+
+export function useSession() {
+  const auth = useContext(AuthContext);
+  if (!auth) throw new Error("useSession must be used inside <AuthProvider>");
+  return auth;
+}
+
+// The signed-in user's profile row; shared by every caller through the query cache.
+export function useProfile() {
+  const { user } = useSession();
+  return useQuery({
+    queryKey: ["profile", user?.id],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("*").eq("user_id", user!.id).single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: Boolean(user),
+  });
+}
+
+// Where each role lands after signing in.
+export const roleHome = (role: UserRole) => `/${role}`;
+
+// Display preferences from account settings, with their defaults until the profile loads.
+export function useDisplayPreferences(): { timeFormat: TimeFormat; timetableView: TimetableView } {
+  const { data: profile } = useProfile();
+  return {
+    timeFormat: profile?.time_format ?? "24h",
+    timetableView: profile?.timetable_view ?? "week",
+  };
+}
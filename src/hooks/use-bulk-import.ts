@@ -0,0 +1,66 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Json } from "@/integrations/supabase/types";
+import { ImportContext, ImportKind } from "@/lib/import";
+import { toast } from "sonner";
+
+// Everything an import is validated against, loaded once per wizard session.
+export function useImportContext(enabled: boolean) {
+  return useQuery({
+    queryKey: ["import-context"],
+    queryFn: async (): Promise<ImportContext> => {
+      const [courses, classrooms, profiles, equipment] = await Promise.all([
+        supabase.from("courses").select("course_code"),
+        supabase.from("classrooms").select("room_name"),
+        supabase.from("profiles").select("email, role"),
+        supabase.from("equipment_types").select("code, label"),
+      ]);
+      if (courses.error) throw courses.error;
+      if (classrooms.error) throw classrooms.error;
+      if (profiles.error) throw profiles.error;
+      if (equipment.error) throw equipment.error;
+
+      return {
+        courseCodes: new Set(courses.data.map((course) => course.course_code.toUpperCase())),
+        roomNames: new Set(classrooms.data.map((room) => room.room_name.toLowerCase())),
+        accountEmails: new Set(profiles.data.map((profile) => profile.email.toLowerCase())),
+        facultyEmails: new Set(
+          profiles.data.filter((profile) => profile.role === "faculty").map((profile) => profile.email.toLowerCase()),
+        ),
+        adminEmails: new Set(
+          profiles.data.filter((profile) => profile.role === "admin").map((profile) => profile.email.toLowerCase()),
+        ),
+        equipment: equipment.data,
+      };
+    },
+    enabled,
+    staleTime: 0,
+  });
+}
+
+const invalidatedBy: Record<ImportKind, string[]> = {
+  courses: ["courses", "section-options"],
+  classrooms: ["classrooms", "dashboard-stats"],
+  faculty: ["course-assignments"],
+  timetable: ["timetable", "dashboard-stats"],
+};
+
+export function useBulkImport() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ kind, rows }: { kind: ImportKind; rows: Record<string, unknown>[] }) => {
+      const { data, error } = await supabase.rpc("bulk_import", { _kind: kind, _rows: rows as Json });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (count, { kind }) => {
+      toast.success(`Imported ${count} ${count === 1 ? "row" : "rows"}`);
+      queryClient.invalidateQueries({ queryKey: ["import-context"] });
+      for (const key of invalidatedBy[kind]) {
+        queryClient.invalidateQueries({ queryKey: [key] });
+      }
+    },
+    onError: (error: Error) => toast.error(`Nothing was imported. ${error.message}`),
+  });
+}
@@ -0,0 +1,86 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums } from "@/integrations/supabase/types";
+import { downloadFile, toFileSlug } from "@/lib/download";
+import { toast } from "sonner";
+
+export type CalendarFeedScope = Enums<"calendar_feed_scope">;
+
+export interface CalendarTarget {
+  scope: CalendarFeedScope;
+  scopeId: string;
+  label: string;
+}
+
+// Served by the calendar-feed edge function; the token is the only credential.
+export const feedUrl = (token: string) =>
+  `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/calendar-feed?token=${token}`;
+
+export const webcalUrl = (token: string) => feedUrl(token).replace(/^https?:/, "webcal:");
+
+export function useCalendarFeeds(profileId: string | undefined) {
+  return useQuery({
+    queryKey: ["calendar-feeds", profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("calendar_feeds")
+        .select("*")
+        .eq("profile_id", profileId)
+        .is("revoked_at", null)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data;
+    },
+    enabled: Boolean(profileId),
+  });
+}
+
+export function useCalendarExport() {
+  return useMutation({
+    mutationFn: async ({ scope, scopeId, label }: CalendarTarget) => {
+      const { data, error } = await supabase.rpc("timetable_ical", { _scope: scope, _scope_id: scopeId });
+      if (error) throw error;
+      downloadFile(data, `${toFileSlug(label)}.ics`, "text/calendar;charset=utf-8");
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
+
+export function useCalendarFeedActions(profileId: string | undefined) {
+  const queryClient = useQueryClient();
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["calendar-feeds", profileId] });
+
+  const create = useMutation({
+    mutationFn: async ({ scope, scopeId, label }: CalendarTarget) => {
+      const { data, error } = await supabase
+        .from("calendar_feeds")
+        .insert({ profile_id: profileId, scope, scope_id: scopeId, label })
+        .select()
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      toast.success("Calendar feed created");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const revoke = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("calendar_feeds")
+        .update({ revoked_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Feed revoked; calendar apps can no longer read it");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { create, revoke };
+}
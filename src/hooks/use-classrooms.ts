@@ -0,0 +1,185 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { endOfWeek, format, startOfWeek } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { DAYS_OF_WEEK, DayOfWeek, dayOfWeekFor, toMinutes } from "@/lib/timetable";
+import { toast } from "sonner";
+
+export type Classroom = Tables<"classrooms">;
+export type EquipmentType = Tables<"equipment_types">;
+
+export interface RoomOccupancy {
+  minutesByDay: Record<DayOfWeek, number>;
+  totalMinutes: number;
+  sessions: number;
+  bookings: number;
+}
+
+export const emptyOccupancy = (): RoomOccupancy => ({
+  minutesByDay: Object.fromEntries(DAYS_OF_WEEK.map((day) => [day, 0])) as Record<DayOfWeek, number>,
+  totalMinutes: 0,
+  sessions: 0,
+  bookings: 0,
+});
+
+export function useClassrooms() {
+  return useQuery({
+    queryKey: ["classrooms"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("classrooms").select("*").order("room_name");
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useEquipmentTypes() {
+  return useQuery({
+    queryKey: ["equipment-types"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("equipment_types").select("*").order("label");
+      if (error) throw error;
+      return data;
+    },
+    staleTime: Infinity,
+  });
+}
+
+// Weekly booked minutes per room for one term of the recurring timetable,
+// plus the approved one-off bookings that fall in the current week.
+export function useRoomOccupancy(semester: string, academicYear: string) {
+  const weekStart = format(startOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd");
+  const weekEnd = format(endOfWeek(new Date(), { weekStartsOn: 1 }), "yyyy-MM-dd");
+
+  return useQuery({
+    queryKey: ["timetable", "occupancy", semester, academicYear, weekStart],
+    queryFn: async () => {
+      const [timetable, bookings] = await Promise.all([
+        supabase
+          .from("timetable")
+          .select("room_id, day_of_week, start_time, end_time")
+          .eq("semester", semester)
+          .eq("academic_year", academicYear),
+        supabase
+          .from("room_bookings")
+          .select("room_id, booking_date, start_time, end_time")
+          .eq("status", "approved")
+          .gte("booking_date", weekStart)
+          .lte("booking_date", weekEnd),
+      ]);
+      if (timetable.error) throw timetable.error;
+      if (bookings.error) throw bookings.error;
+
+      const occupancy = new Map<string, RoomOccupancy>();
+      const add = (roomId: string, day: DayOfWeek, startTime: string, endTime: string) => {
+        const room = occupancy.get(roomId) ?? emptyOccupancy();
+        const minutes = toMinutes(endTime) - toMinutes(startTime);
+        room.minutesByDay[day] += minutes;
+        room.totalMinutes += minutes;
+        occupancy.set(roomId, room);
+        return room;
+      };
+
+      for (const row of timetable.data) {
+        add(row.room_id, row.day_of_week as DayOfWeek, row.start_time, row.end_time).sessions += 1;
+      }
+      for (const row of bookings.data) {
+        const day = dayOfWeekFor(new Date(`${row.booking_date}T00:00:00`));
+        add(row.room_id, day, row.start_time, row.end_time).bookings += 1;
+      }
+      return occupancy;
+    },
+    enabled: Boolean(semester && academicYear),
+  });
+}
+
+export interface RoomSearch {
+  day: DayOfWeek;
+  startTime: string;
+  endTime: string;
+  minCapacity: number;
+  equipment: string[];
+  semester?: string;
+  academicYear?: string;
+  date?: string;
+}
+
+// Free rooms for a window, via the reusable find_available_rooms function.
+export function useAvailableRooms(search: RoomSearch | null) {
+  return useQuery({
+    queryKey: ["timetable", "available-rooms", search],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("find_available_rooms", {
+        _day: search.day,
+        _start_time: search.startTime,
+        _end_time: search.endTime,
+        _min_capacity: search.minCapacity,
+        _equipment: search.equipment,
+        _semester: search.semester || undefined,
+        _academic_year: search.academicYear || undefined,
+        _date: search.date || undefined,
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: Boolean(search),
+  });
+}
+
+export function useClassroomMutations() {
+  const queryClient = useQueryClient();
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["classrooms"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+  };
+
+  const save = useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<"classrooms"> }) => {
+      const { error } = id
+        ? await supabase.from("classrooms").update(values).eq("id", id)
+        : await supabase.from("classrooms").insert(values);
+      if (error) {
+        if (error.code === "23505") throw new Error(`A room named "${values.room_name}" already exists`);
+        throw error;
+      }
+    },
+    onSuccess: (_, { id }) => {
+      toast.success(id ? "Classroom updated" : "Classroom created");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("classrooms").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Classroom deleted");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const setMaintenance = useMutation({
+    mutationFn: async ({ id, reason, until }: { id: string; reason: string | null; until: string | null }) => {
+      const { error } = await supabase
+        .from("classrooms")
+        .update({
+          availability_status: reason === null,
+          maintenance_reason: reason,
+          maintenance_until: until,
+        })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { reason }) => {
+      toast.success(reason === null ? "Room is back in service" : "Room marked under maintenance");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { save, remove, setMaintenance };
+}
@@ -0,0 +1,126 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { DAYS_OF_WEEK, DayOfWeek } from "@/lib/timetable";
+import { toast } from "sonner";
+
+export type Course = Tables<"courses">;
+
+export interface CourseSlot {
+  id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  semester: string;
+  academic_year: string;
+  classrooms: { room_name: string; location: string };
+  profiles: { name: string };
+}
+
+export function useCourses({ includeArchived = false } = {}) {
+  return useQuery({
+    queryKey: ["courses", { includeArchived }],
+    queryFn: async () => {
+      let query = supabase.from("courses").select("*");
+      if (!includeArchived) query = query.is("archived_at", null);
+
+      const { data, error } = await query.order("course_code");
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+// Timetable slots of a course across terms, with their faculty and rooms.
+export function useCourseSlots(courseId: string | undefined) {
+  return useQuery({
+    queryKey: ["timetable", "course", courseId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("timetable")
+        .select(`
+          id,
+          day_of_week,
+          start_time,
+          end_time,
+          semester,
+          academic_year,
+          classrooms!timetable_room_id_fkey (
+            room_name,
+            location
+          ),
+          profiles!timetable_faculty_id_fkey (
+            name
+          )
+        `)
+        .eq("course_id", courseId);
+      if (error) throw error;
+
+      return (data as CourseSlot[]).sort(
+        (a, b) =>
+          b.academic_year.localeCompare(a.academic_year) ||
+          a.semester.localeCompare(b.semester) ||
+          DAYS_OF_WEEK.indexOf(a.day_of_week as DayOfWeek) - DAYS_OF_WEEK.indexOf(b.day_of_week as DayOfWeek) ||
+          a.start_time.localeCompare(b.start_time),
+      );
+    },
+    enabled: Boolean(courseId),
+  });
+}
+
+export async function isCourseCodeTaken(code: string, exceptId?: string): Promise<boolean> {
+  let query = supabase.from("courses").select("id").ilike("course_code", code.replace(/[%_\\]/g, "\\$&"));
+  if (exceptId) query = query.neq("id", exceptId);
+
+  const { data, error } = await query.limit(1);
+  if (error) throw error;
+  return data.length > 0;
+}
+
+export function useCourseMutations() {
+  const queryClient = useQueryClient();
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["courses"] });
+    queryClient.invalidateQueries({ queryKey: ["course-assignments"] });
+    queryClient.invalidateQueries({ queryKey: ["section-options"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+  };
+
+  const save = useMutation({
+    mutationFn: async ({ id, values }: { id?: string; values: TablesInsert<"courses"> }) => {
+      if (await isCourseCodeTaken(values.course_code, id)) {
+        throw new Error(`Course code ${values.course_code} is already in use`);
+      }
+
+      const { error } = id
+        ? await supabase.from("courses").update(values).eq("id", id)
+        : await supabase.from("courses").insert(values);
+      if (error) {
+        if (error.code === "23505") throw new Error(`Course code ${values.course_code} is already in use`);
+        throw error;
+      }
+    },
+    onSuccess: (_, { id }) => {
+      toast.success(id ? "Course updated" : "Course created");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const setArchived = useMutation({
+    mutationFn: async ({ id, archived }: { id: string; archived: boolean }) => {
+      const { error } = await supabase
+        .from("courses")
+        .update({ archived_at: archived ? new Date().toISOString() : null })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { archived }) => {
+      toast.success(archived ? "Course archived" : "Course restored");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { save, setArchived };
+}
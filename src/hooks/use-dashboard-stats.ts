@@ -0,0 +1,22 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+
+export type DashboardStats = Database["public"]["Functions"]["dashboard_stats"]["Returns"][number];
+
+export function useDashboardStats(profileId: string | undefined) {
+  return useQuery({
+    queryKey: ["dashboard-stats", profileId],
+    queryFn: async (): Promise<DashboardStats> => {
+      // Send local wall-clock time; the database runs in UTC.
+      const { data, error } = await supabase
+        .rpc("dashboard_stats", { _at: format(new Date(), "yyyy-MM-dd'T'HH:mm:ss") })
+        .single();
+      if (error) throw error;
+      return data;
+    },
+    enabled: Boolean(profileId),
+    refetchInterval: 60_000,
+  });
+}
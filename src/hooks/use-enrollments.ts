@@ -0,0 +1,171 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+export type EnrollmentStatus = Enums<"enrollment_status">;
+
+export interface SectionListing {
+  id: string;
+  section_code: string;
+  semester: string;
+  academic_year: string;
+  course_id: string;
+  room_id: string | null;
+  courses: {
+    course_code: string;
+    course_name: string;
+    department: string;
+    credits: number | null;
+  };
+  classrooms: {
+    room_name: string;
+    capacity: number;
+  } | null;
+  capacity: number | null;
+  enrolled_count: number;
+  waitlisted_count: number;
+}
+
+export interface MyEnrollment {
+  id: string;
+  status: EnrollmentStatus;
+  waitlisted_at: string | null;
+  section_id: string;
+  course_sections: {
+    section_code: string;
+    semester: string;
+    academic_year: string;
+    course_id: string;
+    courses: {
+      course_code: string;
+      course_name: string;
+    };
+  };
+}
+
+export function useSectionCatalog(semester: string, academicYear: string) {
+  return useQuery({
+    queryKey: ["course-sections", semester, academicYear],
+    queryFn: async (): Promise<SectionListing[]> => {
+      const [sections, availability] = await Promise.all([
+        supabase
+          .from("course_sections")
+          .select(`
+            id,
+            section_code,
+            semester,
+            academic_year,
+            course_id,
+            room_id,
+            courses!course_sections_course_id_fkey (
+              course_code,
+              course_name,
+              department,
+              credits
+            ),
+            classrooms!course_sections_room_id_fkey (
+              room_name,
+              capacity
+            )
+          `)
+          .eq("semester", semester)
+          .eq("academic_year", academicYear),
+        supabase.rpc("section_availability", { _semester: semester, _academic_year: academicYear }),
+      ]);
+      if (sections.error) throw sections.error;
+      if (availability.error) throw availability.error;
+
+      return sections.data
+        .map((section) => {
+          const seats = availability.data.find((row) => row.section_id === section.id);
+          return {
+            ...section,
+            capacity: seats?.capacity ?? null,
+            enrolled_count: seats?.enrolled_count ?? 0,
+            waitlisted_count: seats?.waitlisted_count ?? 0,
+          } as SectionListing;
+        })
+        .sort(
+          (a, b) =>
+            a.courses.course_code.localeCompare(b.courses.course_code) ||
+            a.section_code.localeCompare(b.section_code),
+        );
+    },
+    enabled: Boolean(semester && academicYear),
+  });
+}
+
+export function useMyEnrollments(studentId: string | undefined) {
+  return useQuery({
+    queryKey: ["enrollments", studentId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("enrollments")
+        .select(`
+          id,
+          status,
+          waitlisted_at,
+          section_id,
+          course_sections!enrollments_section_id_fkey (
+            section_code,
+            semester,
+            academic_year,
+            course_id,
+            courses!course_sections_course_id_fkey (
+              course_code,
+              course_name
+            )
+          )
+        `)
+        .eq("student_id", studentId)
+        .neq("status", "dropped");
+      if (error) throw error;
+      return data as unknown as MyEnrollment[];
+    },
+    enabled: Boolean(studentId),
+  });
+}
+
+export function useEnrollmentActions() {
+  const queryClient = useQueryClient();
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["enrollments"] });
+    queryClient.invalidateQueries({ queryKey: ["course-sections"] });
+    queryClient.invalidateQueries({ queryKey: ["timetable"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+  };
+
+  const enroll = useMutation({
+    mutationFn: async (sectionId: string) => {
+      const { data, error } = await supabase.rpc("enroll_in_section", { _section_id: sectionId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: (enrollment) => {
+      if (enrollment.status === "waitlisted") {
+        toast.info("The section is full, you have been added to the waitlist");
+      } else {
+        toast.success("Enrolled successfully");
+      }
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const drop = useMutation({
+    mutationFn: async (enrollmentId: string) => {
+      const { data, error } = await supabase.rpc("drop_enrollment", { _enrollment_id: enrollmentId });
+      if (error) throw error;
+      return data;
+    },
+    onSuccess: () => {
+      toast.success("Course dropped");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { enroll, drop };
+}
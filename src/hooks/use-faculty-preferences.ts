@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { TablesInsert } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+/**
+ * Preferences and unavailable blocks of all faculty for a term, as far as the
+ * signed-in user may see them. Students get nothing back.
+ */
+export function useFacultyPreferences(semester: string, academicYear: string, enabled = true) {
+  return useQuery({
+    queryKey: ["faculty-preferences", semester, academicYear],
+    queryFn: async () => {
+      const [preferences, blocks] = await Promise.all([
+        supabase.from("faculty_preferences").select("*").eq("semester", semester).eq("academic_year", academicYear),
+        supabase
+          .from("faculty_unavailability")
+          .select("*")
+          .eq("semester", semester)
+          .eq("academic_year", academicYear)
+          .order("start_time"),
+      ]);
+      if (preferences.error) throw preferences.error;
+      if (blocks.error) throw blocks.error;
+      return { preferences: preferences.data, blocks: blocks.data };
+    },
+    enabled: enabled && Boolean(semester && academicYear),
+  });
+}
+
+export function useFacultyPreferenceActions() {
+  const queryClient = useQueryClient();
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["faculty-preferences"] });
+
+  const save = useMutation({
+    mutationFn: async (preference: TablesInsert<"faculty_preferences">) => {
+      const { error } = await supabase
+        .from("faculty_preferences")
+        .upsert(preference, { onConflict: "faculty_id,semester,academic_year" });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Teaching preferences saved");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const addBlock = useMutation({
+    mutationFn: async (block: TablesInsert<"faculty_unavailability">) => {
+      const { error } = await supabase.from("faculty_unavailability").insert(block);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const removeBlock = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("faculty_unavailability").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { save, addBlock, removeBlock };
+}
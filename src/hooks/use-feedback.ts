@@ -0,0 +1,143 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables, TablesInsert } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+export type FeedbackCategory = Enums<"feedback_category">;
+
+export const FEEDBACK_STATUSES = ["pending", "reviewed", "resolved"] as const;
+export type FeedbackStatus = (typeof FEEDBACK_STATUSES)[number];
+
+export const FEEDBACK_STATUS_LABELS: Record<FeedbackStatus, string> = {
+  pending: "Open",
+  reviewed: "In review",
+  resolved: "Resolved",
+};
+
+export const FEEDBACK_CATEGORY_LABELS: Record<FeedbackCategory, string> = {
+  room_issue: "Room issue",
+  schedule_clash: "Schedule clash",
+  account: "Account",
+  other: "Other",
+};
+
+export type FeedbackTicket = Tables<"feedback"> & {
+  submitter: Pick<Tables<"profiles">, "name" | "email" | "role"> | null;
+};
+
+export interface FeedbackComment {
+  id: string;
+  message: string;
+  created_at: string;
+  author: { name: string; role: Tables<"profiles">["role"] };
+}
+
+export interface FeedbackStatusChange {
+  id: string;
+  from_status: string | null;
+  to_status: string;
+  created_at: string;
+  changer: { name: string } | null;
+}
+
+/**
+ * Feedback tickets the signed-in user may see, newest first: their own, or
+ * every ticket for admins. Tickets belong to auth users rather than profiles,
+ * so submitters are looked up separately.
+ */
+export function useFeedbackTickets() {
+  return useQuery({
+    queryKey: ["feedback", "tickets"],
+    queryFn: async () => {
+      const { data: tickets, error } = await supabase
+        .from("feedback")
+        .select("*")
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+
+      const userIds = [...new Set(tickets.map((ticket) => ticket.user_id))];
+      const { data: profiles, error: profilesError } = await supabase
+        .from("profiles")
+        .select("user_id, name, email, role")
+        .in("user_id", userIds);
+      if (profilesError) throw profilesError;
+
+      return tickets.map(
+        (ticket): FeedbackTicket => ({
+          ...ticket,
+          submitter: profiles.find((profile) => profile.user_id === ticket.user_id) ?? null,
+        }),
+      );
+    },
+  });
+}
+
+// Replies and status changes of one ticket, oldest first.
+export function useFeedbackThread(feedbackId: string | undefined) {
+  return useQuery({
+    queryKey: ["feedback", "thread", feedbackId],
+    queryFn: async () => {
+      const [comments, history] = await Promise.all([
+        supabase
+          .from("feedback_comments")
+          .select("id, message, created_at, author:profiles!feedback_comments_author_id_fkey (name, role)")
+          .eq("feedback_id", feedbackId!)
+          .order("created_at"),
+        supabase
+          .from("feedback_status_history")
+          .select("id, from_status, to_status, created_at, changer:profiles!feedback_status_history_changed_by_fkey (name)")
+          .eq("feedback_id", feedbackId!)
+          .order("created_at"),
+      ]);
+      if (comments.error) throw comments.error;
+      if (history.error) throw history.error;
+      return {
+        comments: comments.data as unknown as FeedbackComment[],
+        history: history.data as unknown as FeedbackStatusChange[],
+      };
+    },
+    enabled: Boolean(feedbackId),
+  });
+}
+
+export function useFeedbackActions(profileId: string | undefined) {
+  const queryClient = useQueryClient();
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["feedback"] });
+
+  const submit = useMutation({
+    mutationFn: async (ticket: TablesInsert<"feedback">) => {
+      const { error } = await supabase.from("feedback").insert(ticket);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Feedback submitted");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const reply = useMutation({
+    mutationFn: async ({ feedbackId, message }: { feedbackId: string; message: string }) => {
+      const { error } = await supabase
+        .from("feedback_comments")
+        .insert({ feedback_id: feedbackId, author_id: profileId!, message });
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const setStatus = useMutation({
+    mutationFn: async ({ id, status }: { id: string; status: FeedbackStatus }) => {
+      const { error } = await supabase.from("feedback").update({ status }).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: (_, { status }) => {
+      toast.success(`Ticket marked ${FEEDBACK_STATUS_LABELS[status].toLowerCase()}`);
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { submit, reply, setStatus };
+}
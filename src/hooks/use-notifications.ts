@@ -0,0 +1,97 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+export type Notification = Tables<"notifications">;
+export type NotificationKind = Enums<"notification_kind">;
+
+// The data a notification is about, refreshed when one arrives.
+const RELATED_QUERIES: Record<NotificationKind, string[]> = {
+  timetable: ["timetable", "dashboard-stats"],
+  booking: ["room-bookings", "timetable"],
+  feedback: ["feedback"],
+};
+
+/**
+ * The signed-in user's latest notifications. New ones are pushed over
+ * Supabase realtime, announced with a toast and refresh whatever they are
+ * about.
+ */
+export function useNotifications(profileId: string | undefined) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!profileId) return;
+
+    const channel = supabase
+      .channel(`notifications:${profileId}`)
+      .on(
+        "postgres_changes",
+        { event: "*", schema: "public", table: "notifications", filter: `recipient_id=eq.${profileId}` },
+        (payload) => {
+          queryClient.invalidateQueries({ queryKey: ["notifications", profileId] });
+          if (payload.eventType !== "INSERT") return;
+
+          const notification = payload.new as Notification;
+          toast(notification.title, { description: notification.body ?? undefined });
+          for (const key of RELATED_QUERIES[notification.kind]) {
+            queryClient.invalidateQueries({ queryKey: [key] });
+          }
+        },
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [profileId, queryClient]);
+
+  return useQuery({
+    queryKey: ["notifications", profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("notifications")
+        .select("*")
+        .eq("recipient_id", profileId!)
+        .order("created_at", { ascending: false })
+        .limit(50);
+      if (error) throw error;
+      return data;
+    },
+    enabled: Boolean(profileId),
+  });
+}
+
+export function useNotificationActions(profileId: string | undefined) {
+  const queryClient = useQueryClient();
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["notifications", profileId] });
+
+  const markRead = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const markAllRead = useMutation({
+    mutationFn: async () => {
+      const { error } = await supabase
+        .from("notifications")
+        .update({ read_at: new Date().toISOString() })
+        .eq("recipient_id", profileId!)
+        .is("read_at", null);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { markRead, markAllRead };
+}
@@ -0,0 +1,76 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables } from "@/integrations/supabase/types";
+import { toast } from "sonner";
+
+export type UserRole = Enums<"user_role">;
+export type RoleRequestStatus = Enums<"role_request_status">;
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  student: "Student",
+  faculty: "Faculty",
+  admin: "Administrator",
+};
+
+export type RoleRequest = Tables<"role_requests"> & {
+  requester: Pick<Tables<"profiles">, "name" | "email" | "department" | "role">;
+};
+
+// Open requests for faculty or admin access, oldest first; admins only.
+export function usePendingRoleRequests(enabled: boolean) {
+  return useQuery({
+    queryKey: ["role-requests", "pending"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("role_requests")
+        .select("*, requester:profiles!role_requests_profile_id_fkey (name, email, department, role)")
+        .eq("status", "pending")
+        .order("created_at");
+      if (error) throw error;
+      return data as unknown as RoleRequest[];
+    },
+    enabled,
+  });
+}
+
+// The signed-in user's most recent role request, if they ever made one.
+export function useMyRoleRequest(profileId: string | undefined) {
+  return useQuery({
+    queryKey: ["role-requests", "mine", profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("role_requests")
+        .select("*")
+        .eq("profile_id", profileId!)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      if (error) throw error;
+      return data;
+    },
+    enabled: Boolean(profileId),
+  });
+}
+
+export function useRoleRequestActions() {
+  const queryClient = useQueryClient();
+
+  const decide = useMutation({
+    mutationFn: async ({ id, approve, note }: { id: string; approve: boolean; note?: string }) => {
+      const { error } = await supabase.rpc("decide_role_request", {
+        _request_id: id,
+        _approve: approve,
+        _note: note || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { approve }) => {
+      toast.success(approve ? "Role request approved" : "Role request rejected");
+      queryClient.invalidateQueries({ queryKey: ["role-requests"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { decide };
+}
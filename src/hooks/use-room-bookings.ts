@@ -0,0 +1,167 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, TablesInsert } from "@/integrations/supabase/types";
+import { throwTimetableError } from "@/lib/timetable-conflicts";
+import { toast } from "sonner";
+
+export type BookingStatus = Enums<"booking_status">;
+export type BookingKind = Enums<"booking_kind">;
+
+export const BOOKING_KIND_LABELS: Record<BookingKind, string> = {
+  exam: "Exam",
+  seminar: "Seminar",
+  makeup_class: "Make-up class",
+  event: "Event",
+  other: "Other",
+};
+
+export interface RoomBooking {
+  id: string;
+  room_id: string;
+  title: string;
+  kind: BookingKind;
+  booking_date: string;
+  start_time: string;
+  end_time: string;
+  expected_attendees: number | null;
+  status: BookingStatus;
+  decision_note: string | null;
+  decided_at: string | null;
+  classrooms: {
+    room_name: string;
+    location: string;
+    capacity: number;
+  };
+  requester: {
+    name: string;
+    department: string;
+  };
+}
+
+const BOOKING_SELECT = `
+  id,
+  room_id,
+  title,
+  kind,
+  booking_date,
+  start_time,
+  end_time,
+  expected_attendees,
+  status,
+  decision_note,
+  decided_at,
+  classrooms!room_bookings_room_id_fkey (
+    room_name,
+    location,
+    capacity
+  ),
+  requester:profiles!room_bookings_requested_by_fkey (
+    name,
+    department
+  )
+`;
+
+// Approved bookings from a date onwards; visible to everyone.
+export function useApprovedBookings(fromDate: string) {
+  return useQuery({
+    queryKey: ["room-bookings", "approved", fromDate],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("room_bookings")
+        .select(BOOKING_SELECT)
+        .eq("status", "approved")
+        .gte("booking_date", fromDate)
+        .order("booking_date")
+        .order("start_time");
+      if (error) throw error;
+      return data as unknown as RoomBooking[];
+    },
+  });
+}
+
+export function useMyBookings(profileId: string | undefined) {
+  return useQuery({
+    queryKey: ["room-bookings", "mine", profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("room_bookings")
+        .select(BOOKING_SELECT)
+        .eq("requested_by", profileId)
+        .order("booking_date", { ascending: false })
+        .order("start_time");
+      if (error) throw error;
+      return data as unknown as RoomBooking[];
+    },
+    enabled: Boolean(profileId),
+  });
+}
+
+// Requests waiting for an admin decision, oldest date first.
+export function usePendingBookings(enabled: boolean) {
+  return useQuery({
+    queryKey: ["room-bookings", "pending"],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("room_bookings")
+        .select(BOOKING_SELECT)
+        .eq("status", "pending")
+        .order("booking_date")
+        .order("start_time");
+      if (error) throw error;
+      return data as unknown as RoomBooking[];
+    },
+    enabled,
+  });
+}
+
+export function useRoomBookingActions() {
+  const queryClient = useQueryClient();
+
+  // Approved bookings feed the occupancy view and the free room finder.
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["room-bookings"] });
+    queryClient.invalidateQueries({ queryKey: ["timetable"] });
+  };
+
+  const request = useMutation({
+    mutationFn: async (values: TablesInsert<"room_bookings">) => {
+      const { error } = await supabase.from("room_bookings").insert(values);
+      throwTimetableError(error);
+    },
+    onSuccess: () => {
+      toast.success("Booking requested, waiting for approval");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const decide = useMutation({
+    mutationFn: async ({ id, approve, note }: { id: string; approve: boolean; note?: string }) => {
+      const { error } = await supabase.rpc("decide_room_booking", {
+        _booking_id: id,
+        _approve: approve,
+        _note: note || undefined,
+      });
+      throwTimetableError(error);
+    },
+    onSuccess: (_, { approve }) => {
+      toast.success(approve ? "Booking approved" : "Booking rejected");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const cancel = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.rpc("cancel_room_booking", { _booking_id: id });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Booking cancelled");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { request, decide, cancel };
+}
@@ -0,0 +1,88 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { throwTimetableError } from "@/lib/timetable-conflicts";
+import { toast } from "sonner";
+
+export interface TimetableEntry {
+  id: string;
+  course_id: string;
+  room_id: string;
+  faculty_id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  courses: { course_code: string; course_name: string; department: string; credits: number };
+  classrooms: { room_name: string; location: string };
+  profiles: { id: string; name: string };
+}
+
+export interface TimetableMove {
+  id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  room_id: string;
+}
+
+/**
+ * Every timetable entry of a term with its course, room and faculty. The
+ * weekly grid and the printable PDFs are built from this cached result, so
+ * PDFs can still be produced offline once the term has been loaded.
+ */
+export function useTermTimetable(semester: string, academicYear: string) {
+  return useQuery({
+    queryKey: ["timetable", "term", semester, academicYear],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("timetable")
+        .select(`
+          id,
+          course_id,
+          room_id,
+          faculty_id,
+          day_of_week,
+          start_time,
+          end_time,
+          courses!timetable_course_id_fkey (
+            course_code,
+            course_name,
+            department,
+            credits
+          ),
+          classrooms!timetable_room_id_fkey (
+            room_name,
+            location
+          ),
+          profiles!timetable_faculty_id_fkey (
+            id,
+            name
+          )
+        `)
+        .eq("semester", semester)
+        .eq("academic_year", academicYear);
+      if (error) throw error;
+      return data as TimetableEntry[];
+    },
+    enabled: Boolean(semester && academicYear),
+    networkMode: "offlineFirst",
+  });
+}
+
+// Moves a weekly class to another day, time or room. The conflict trigger
+// still has the final say when someone else changed the timetable meanwhile.
+export function useMoveTimetableEntry() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ id, ...move }: TimetableMove) => {
+      const { error } = await supabase.from("timetable").update(move).eq("id", id);
+      throwTimetableError(error);
+    },
+    onSuccess: () => {
+      toast.success("Class moved");
+      queryClient.invalidateQueries({ queryKey: ["timetable"] });
+      queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
@@ -0,0 +1,56 @@
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Session } from "@/hooks/use-academic-calendar";
+
+export type ScheduleProfile = Pick<Tables<"profiles">, "id" | "role" | "department">;
+
+/**
+ * Sessions on the given date for the signed-in user: faculty see what they
+ * teach, students the sections they are enrolled in and admins everything.
+ * Holidays, cancellations and reschedules from the academic calendar apply.
+ */
+export function useTodaySchedule(profile: ScheduleProfile | null, date = new Date()) {
+  const day = format(date, "yyyy-MM-dd");
+
+  return useQuery({
+    queryKey: ["timetable", "day", day, profile?.id, profile?.role],
+    queryFn: async () => {
+      let query = supabase.rpc("expand_timetable", { _from: day, _to: day });
+      let sections: { course_id: string; semester: string; academic_year: string }[] = [];
+
+      if (profile.role === "faculty") {
+        query = query.eq("faculty_id", profile.id);
+      } else if (profile.role === "student") {
+        const { data: enrolled, error: enrolledError } = await supabase
+          .from("enrollments")
+          .select("course_sections!enrollments_section_id_fkey (course_id, semester, academic_year)")
+          .eq("student_id", profile.id)
+          .eq("status", "enrolled");
+        if (enrolledError) throw enrolledError;
+
+        sections = enrolled.map((row) => row.course_sections);
+        if (sections.length === 0) return [];
+        query = query.in("course_id", sections.map((section) => section.course_id));
+      }
+
+      const { data, error } = await query;
+      if (error) throw error;
+
+      const sessions = data as Session[];
+      if (profile.role !== "student") return sessions;
+
+      // A course can run in several terms; keep the ones the student is enrolled for.
+      return sessions.filter((session) =>
+        sections.some(
+          (section) =>
+            section.course_id === session.course_id &&
+            section.semester === session.semester &&
+            section.academic_year === session.academic_year,
+        ),
+      );
+    },
+    enabled: Boolean(profile),
+  });
+}
@@ -0,0 +1,109 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Enums, Tables, TablesUpdate } from "@/integrations/supabase/types";
+import { UserRole } from "@/hooks/use-role-requests";
+import { toast } from "sonner";
+
+export type UserProfile = Tables<"profiles">;
+export type ProfileAuditAction = Enums<"profile_audit_action">;
+
+export const PROFILE_AUDIT_LABELS: Record<ProfileAuditAction, string> = {
+  role_changed: "Role changed",
+  deactivated: "Deactivated",
+  reactivated: "Reactivated",
+};
+
+export interface ProfileAuditEntry {
+  id: string;
+  action: ProfileAuditAction;
+  old_role: UserRole | null;
+  new_role: UserRole | null;
+  note: string | null;
+  created_at: string;
+  changer: { name: string } | null;
+}
+
+// Every profile, by name; filtering happens in the console.
+export function useUserDirectory(enabled: boolean) {
+  return useQuery({
+    queryKey: ["users", "directory"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("profiles").select("*").order("name");
+      if (error) throw error;
+      return data;
+    },
+    enabled,
+  });
+}
+
+// Role and activation history for one account, newest first.
+export function useProfileAudit(profileId: string | undefined) {
+  return useQuery({
+    queryKey: ["users", "audit", profileId],
+    queryFn: async () => {
+      const { data, error } = await supabase
+        .from("profile_audit_log")
+        .select("id, action, old_role, new_role, note, created_at, changer:profiles!profile_audit_log_changed_by_fkey (name)")
+        .eq("profile_id", profileId!)
+        .order("created_at", { ascending: false });
+      if (error) throw error;
+      return data as unknown as ProfileAuditEntry[];
+    },
+    enabled: Boolean(profileId),
+  });
+}
+
+export function useUserAdminActions() {
+  const queryClient = useQueryClient();
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["users"] });
+    queryClient.invalidateQueries({ queryKey: ["role-requests"] });
+    queryClient.invalidateQueries({ queryKey: ["dashboard-stats"] });
+  };
+
+  const updateDetails = useMutation({
+    mutationFn: async ({ id, details }: { id: string; details: Pick<TablesUpdate<"profiles">, "name" | "department" | "phone"> }) => {
+      const { error } = await supabase.from("profiles").update(details).eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Profile updated");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const setRole = useMutation({
+    mutationFn: async ({ id, role, note }: { id: string; role: UserRole; note?: string }) => {
+      const { error } = await supabase.rpc("set_user_role", {
+        _profile_id: id,
+        _role: role,
+        _note: note || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Role updated");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const setActive = useMutation({
+    mutationFn: async ({ id, active, note }: { id: string; active: boolean; note?: string }) => {
+      const { error } = await supabase.rpc("set_user_active", {
+        _profile_id: id,
+        _active: active,
+        _note: note || undefined,
+      });
+      if (error) throw error;
+    },
+    onSuccess: (_, { active }) => {
+      toast.success(active ? "Account reactivated" : "Account deactivated");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { updateDetails, setRole, setActive };
+}
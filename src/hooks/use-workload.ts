@@ -0,0 +1,96 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { throwTimetableError } from "@/lib/timetable-conflicts";
+import { toast } from "sonner";
+
+export type WorkloadLimit = Tables<"department_workload_limits">;
+
+export interface CourseReassignment {
+  courseId: string;
+  semester: string;
+  academicYear: string;
+  fromFacultyId: string;
+  toFacultyId: string;
+}
+
+// Keyed under "timetable" so moves and reassignments refresh the report.
+export function useFacultyWorkload(semester: string, academicYear: string) {
+  return useQuery({
+    queryKey: ["timetable", "workload", semester, academicYear],
+    queryFn: async () => {
+      const { data, error } = await supabase.rpc("faculty_workload", {
+        _semester: semester,
+        _academic_year: academicYear,
+      });
+      if (error) throw error;
+      return data;
+    },
+    enabled: Boolean(semester && academicYear),
+  });
+}
+
+export function useWorkloadLimits() {
+  return useQuery({
+    queryKey: ["workload-limits"],
+    queryFn: async () => {
+      const { data, error } = await supabase.from("department_workload_limits").select("*").order("department");
+      if (error) throw error;
+      return data;
+    },
+  });
+}
+
+export function useWorkloadLimitActions() {
+  const queryClient = useQueryClient();
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ["workload-limits"] });
+    queryClient.invalidateQueries({ queryKey: ["timetable", "workload"] });
+  };
+
+  const save = useMutation({
+    mutationFn: async (limit: TablesInsert<"department_workload_limits">) => {
+      const { error } = await supabase.from("department_workload_limits").upsert(limit, { onConflict: "department" });
+      if (error) throw error;
+    },
+    onSuccess: () => {
+      toast.success("Workload limits saved");
+      refresh();
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  const remove = useMutation({
+    mutationFn: async (id: string) => {
+      const { error } = await supabase.from("department_workload_limits").delete().eq("id", id);
+      if (error) throw error;
+    },
+    onSuccess: refresh,
+    onError: (error: Error) => toast.error(error.message),
+  });
+
+  return { save, remove };
+}
+
+export function useReassignCourse() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: async ({ courseId, semester, academicYear, fromFacultyId, toFacultyId }: CourseReassignment) => {
+      const { error } = await supabase.rpc("reassign_course_faculty", {
+        _course_id: courseId,
+        _semester: semester,
+        _academic_year: academicYear,
+        _from_faculty_id: fromFacultyId,
+        _to_faculty_id: toFacultyId,
+      });
+      throwTimetableError(error);
+    },
+    onSuccess: () => {
+      toast.success("Course reassigned");
+      queryClient.invalidateQueries({ queryKey: ["timetable"] });
+      queryClient.invalidateQueries({ queryKey: ["course-assignments"] });
+    },
+    onError: (error: Error) => toast.error(error.message),
+  });
+}
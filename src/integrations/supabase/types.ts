@@ -14,198 +14,382 @@ export type Database = {
   }
   public: {
     Tables: {
-      classrooms: {
+      academic_terms: {
         Row: {
-          availability_status: boolean | null
-          capacity: number
+          academic_year: string
           created_at: string | null
-          equipment: string[] | null
+          end_date: string
           id: string
-          location: string
-          remarks: string | null
-          room_name: string
+          semester: string
+          start_date: string
           updated_at: string | null
         }
         Insert: {
-          availability_status?: boolean | null
-          capacity: number
+          academic_year: string
           created_at?: string | null
-          equipment?: string[] | null
+          end_date: string
           id?: string
-          location: string
-          remarks?: string | null
-          room_name: string
+          semester: string
+          start_date: string
           updated_at?: string | null
         }
         Update: {
-          availability_status?: boolean | null
-          capacity?: number
+          academic_year?: string
           created_at?: string | null
-          equipment?: string[] | null
+          end_date?: string
           id?: string
-          location?: string
-          remarks?: string | null
-          room_name?: string
+          semester?: string
+          start_date?: string
           updated_at?: string | null
         }
         Relationships: []
       }
-      courses: {
+      attendance_records: {
         Row: {
-          course_code: string
-          course_name: string
+          checked_in_at: string | null
           created_at: string | null
-          credits: number | null
-          department: string
-          description: string | null
           id: string
+          marked_by: string | null
+          note: string | null
+          session_id: string
+          status: Database["public"]["Enums"]["attendance_status"]
+          student_id: string
           updated_at: string | null
         }
         Insert: {
-          course_code: string
-          course_name: string
+          checked_in_at?: string | null
           created_at?: string | null
-          credits?: number | null
-          department: string
-          description?: string | null
           id?: string
+          marked_by?: string | null
+          note?: string | null
+          session_id: string
+          status: Database["public"]["Enums"]["attendance_status"]
+          student_id: string
           updated_at?: string | null
         }
         Update: {
-          course_code?: string
-          course_name?: string
+          checked_in_at?: string | null
           created_at?: string | null
-          credits?: number | null
-          department?: string
-          description?: string | null
           id?: string
+          marked_by?: string | null
+          note?: string | null
+          session_id?: string
+          status?: Database["public"]["Enums"]["attendance_status"]
+          student_id?: string
           updated_at?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "attendance_records_marked_by_fkey"
+            columns: ["marked_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_records_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "class_sessions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "attendance_records_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      feedback: {
+      calendar_feeds: {
         Row: {
           created_at: string | null
           id: string
-          message: string
-          status: string | null
+          label: string
+          last_accessed_at: string | null
+          profile_id: string
+          revoked_at: string | null
+          scope: Database["public"]["Enums"]["calendar_feed_scope"]
+          scope_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string | null
+          id?: string
+          label: string
+          last_accessed_at?: string | null
+          profile_id: string
+          revoked_at?: string | null
+          scope?: Database["public"]["Enums"]["calendar_feed_scope"]
+          scope_id: string
+          token?: string
+        }
+        Update: {
+          created_at?: string | null
+          id?: string
+          label?: string
+          last_accessed_at?: string | null
+          profile_id?: string
+          revoked_at?: string | null
+          scope?: Database["public"]["Enums"]["calendar_feed_scope"]
+          scope_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "calendar_feeds_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      calendar_events: {
+        Row: {
+          created_at: string | null
+          end_date: string
+          id: string
+          kind: Database["public"]["Enums"]["calendar_event_kind"]
+          start_date: string
+          suspends_classes: boolean
           title: string
           updated_at: string | null
-          user_id: string
         }
         Insert: {
           created_at?: string | null
+          end_date: string
           id?: string
-          message: string
-          status?: string | null
+          kind?: Database["public"]["Enums"]["calendar_event_kind"]
+          start_date: string
+          suspends_classes?: boolean
           title: string
           updated_at?: string | null
-          user_id: string
         }
         Update: {
           created_at?: string | null
+          end_date?: string
           id?: string
-          message?: string
-          status?: string | null
+          kind?: Database["public"]["Enums"]["calendar_event_kind"]
+          start_date?: string
+          suspends_classes?: boolean
           title?: string
           updated_at?: string | null
-          user_id?: string
         }
         Relationships: []
       }
-      profiles: {
+      checkin_tokens: {
         Row: {
           created_at: string | null
-          department: string | null
-          email: string
+          expires_at: string
+          session_id: string
+          token: string
+        }
+        Insert: {
+          created_at?: string | null
+          expires_at: string
+          session_id: string
+          token: string
+        }
+        Update: {
+          created_at?: string | null
+          expires_at?: string
+          session_id?: string
+          token?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "checkin_tokens_session_id_fkey"
+            columns: ["session_id"]
+            isOneToOne: false
+            referencedRelation: "class_sessions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      class_sessions: {
+        Row: {
+          created_at: string | null
+          held_on: string
           id: string
-          name: string
-          phone: string | null
-          role: Database["public"]["Enums"]["user_role"]
+          session_date: string
+          taken_by: string | null
+          timetable_id: string
           updated_at: string | null
-          user_id: string
         }
         Insert: {
           created_at?: string | null
-          department?: string | null
-          email: string
+          held_on: string
           id?: string
-          name: string
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
+          session_date: string
+          taken_by?: string | null
+          timetable_id: string
           updated_at?: string | null
-          user_id: string
         }
         Update: {
           created_at?: string | null
-          department?: string | null
-          email?: string
+          held_on?: string
           id?: string
-          name?: string
-          phone?: string | null
-          role?: Database["public"]["Enums"]["user_role"]
+          session_date?: string
+          taken_by?: string | null
+          timetable_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "class_sessions_taken_by_fkey"
+            columns: ["taken_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "class_sessions_timetable_id_fkey"
+            columns: ["timetable_id"]
+            isOneToOne: false
+            referencedRelation: "timetable"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      classrooms: {
+        Row: {
+          availability_status: boolean | null
+          capacity: number
+          created_at: string | null
+          equipment: string[] | null
+          id: string
+          location: string
+          maintenance_reason: string | null
+          maintenance_until: string | null
+          remarks: string | null
+          room_name: string
+          updated_at: string | null
+        }
+        Insert: {
+          availability_status?: boolean | null
+          capacity: number
+          created_at?: string | null
+          equipment?: string[] | null
+          id?: string
+          location: string
+          maintenance_reason?: string | null
+          maintenance_until?: string | null
+          remarks?: string | null
+          room_name: string
+          updated_at?: string | null
+        }
+        Update: {
+          availability_status?: boolean | null
+          capacity?: number
+          created_at?: string | null
+          equipment?: string[] | null
+          id?: string
+          location?: string
+          maintenance_reason?: string | null
+          maintenance_until?: string | null
+          remarks?: string | null
+          room_name?: string
           updated_at?: string | null
-          user_id?: string
         }
         Relationships: []
       }
-      timetable: {
+      course_assignments: {
         Row: {
           academic_year: string
           course_id: string
           created_at: string | null
-          day_of_week: string
-          end_time: string
+          expected_students: number
           faculty_id: string
           id: string
-          room_id: string
+          required_equipment: string[]
           semester: string
-          start_time: string
           updated_at: string | null
         }
         Insert: {
           academic_year: string
           course_id: string
           created_at?: string | null
-          day_of_week: string
-          end_time: string
+          expected_students?: number
           faculty_id: string
           id?: string
-          room_id: string
+          required_equipment?: string[]
           semester: string
-          start_time: string
           updated_at?: string | null
         }
         Update: {
           academic_year?: string
           course_id?: string
           created_at?: string | null
-          day_of_week?: string
-          end_time?: string
+          expected_students?: number
           faculty_id?: string
           id?: string
-          room_id?: string
+          required_equipment?: string[]
           semester?: string
-          start_time?: string
           updated_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "timetable_course_id_fkey"
+            foreignKeyName: "course_assignments_course_id_fkey"
             columns: ["course_id"]
             isOneToOne: false
             referencedRelation: "courses"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "timetable_faculty_id_fkey"
+            foreignKeyName: "course_assignments_faculty_id_fkey"
             columns: ["faculty_id"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      course_sections: {
+        Row: {
+          academic_year: string
+          capacity: number | null
+          course_id: string
+          created_at: string | null
+          id: string
+          room_id: string | null
+          section_code: string
+          semester: string
+          updated_at: string | null
+        }
+        Insert: {
+          academic_year: string
+          capacity?: number | null
+          course_id: string
+          created_at?: string | null
+          id?: string
+          room_id?: string | null
+          section_code: string
+          semester: string
+          updated_at?: string | null
+        }
+        Update: {
+          academic_year?: string
+          capacity?: number | null
+          course_id?: string
+          created_at?: string | null
+          id?: string
+          room_id?: string | null
+          section_code?: string
+          semester?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "course_sections_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
           {
-            foreignKeyName: "timetable_room_id_fkey"
+            foreignKeyName: "course_sections_room_id_fkey"
             columns: ["room_id"]
             isOneToOne: false
             referencedRelation: "classrooms"
@@ -213,14 +397,1191 @@ export type Database = {
           },
         ]
       }
-    }
-    Views: {
-      [_ in never]: never
-    }
-    Functions: {
-      [_ in never]: never
+      courses: {
+        Row: {
+          archived_at: string | null
+          course_code: string
+          course_name: string
+          created_at: string | null
+          credits: number | null
+          department: string
+          description: string | null
+          id: string
+          updated_at: string | null
+        }
+        Insert: {
+          archived_at?: string | null
+          course_code: string
+          course_name: string
+          created_at?: string | null
+          credits?: number | null
+          department: string
+          description?: string | null
+          id?: string
+          updated_at?: string | null
+        }
+        Update: {
+          archived_at?: string | null
+          course_code?: string
+          course_name?: string
+          created_at?: string | null
+          credits?: number | null
+          department?: string
+          description?: string | null
+          id?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      department_workload_limits: {
+        Row: {
+          created_at: string | null
+          department: string
+          id: string
+          max_credits: number | null
+          max_weekly_hours: number
+          min_weekly_hours: number
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          department: string
+          id?: string
+          max_credits?: number | null
+          max_weekly_hours?: number
+          min_weekly_hours?: number
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          department?: string
+          id?: string
+          max_credits?: number | null
+          max_weekly_hours?: number
+          min_weekly_hours?: number
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      enrollments: {
+        Row: {
+          created_at: string | null
+          dropped_at: string | null
+          id: string
+          section_id: string
+          status: Database["public"]["Enums"]["enrollment_status"]
+          student_id: string
+          updated_at: string | null
+          waitlisted_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          dropped_at?: string | null
+          id?: string
+          section_id: string
+          status?: Database["public"]["Enums"]["enrollment_status"]
+          student_id: string
+          updated_at?: string | null
+          waitlisted_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          dropped_at?: string | null
+          id?: string
+          section_id?: string
+          status?: Database["public"]["Enums"]["enrollment_status"]
+          student_id?: string
+          updated_at?: string | null
+          waitlisted_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "enrollments_section_id_fkey"
+            columns: ["section_id"]
+            isOneToOne: false
+            referencedRelation: "course_sections"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "enrollments_student_id_fkey"
+            columns: ["student_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      equipment_types: {
+        Row: {
+          code: string
+          created_at: string | null
+          label: string
+        }
+        Insert: {
+          code: string
+          created_at?: string | null
+          label: string
+        }
+        Update: {
+          code?: string
+          created_at?: string | null
+          label?: string
+        }
+        Relationships: []
+      }
+      faculty_preferences: {
+        Row: {
+          academic_year: string
+          created_at: string | null
+          faculty_id: string
+          id: string
+          max_consecutive_hours: number | null
+          notes: string | null
+          preferred_days: string[]
+          preferred_end_time: string | null
+          preferred_locations: string[]
+          preferred_room_ids: string[]
+          preferred_start_time: string | null
+          semester: string
+          updated_at: string | null
+        }
+        Insert: {
+          academic_year: string
+          created_at?: string | null
+          faculty_id: string
+          id?: string
+          max_consecutive_hours?: number | null
+          notes?: string | null
+          preferred_days?: string[]
+          preferred_end_time?: string | null
+          preferred_locations?: string[]
+          preferred_room_ids?: string[]
+          preferred_start_time?: string | null
+          semester: string
+          updated_at?: string | null
+        }
+        Update: {
+          academic_year?: string
+          created_at?: string | null
+          faculty_id?: string
+          id?: string
+          max_consecutive_hours?: number | null
+          notes?: string | null
+          preferred_days?: string[]
+          preferred_end_time?: string | null
+          preferred_locations?: string[]
+          preferred_room_ids?: string[]
+          preferred_start_time?: string | null
+          semester?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "faculty_preferences_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      faculty_unavailability: {
+        Row: {
+          academic_year: string
+          created_at: string | null
+          day_of_week: string
+          end_time: string
+          faculty_id: string
+          id: string
+          reason: string | null
+          semester: string
+          start_time: string
+        }
+        Insert: {
+          academic_year: string
+          created_at?: string | null
+          day_of_week: string
+          end_time: string
+          faculty_id: string
+          id?: string
+          reason?: string | null
+          semester: string
+          start_time: string
+        }
+        Update: {
+          academic_year?: string
+          created_at?: string | null
+          day_of_week?: string
+          end_time?: string
+          faculty_id?: string
+          id?: string
+          reason?: string | null
+          semester?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "faculty_unavailability_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback: {
+        Row: {
+          category: Database["public"]["Enums"]["feedback_category"]
+          created_at: string | null
+          id: string
+          message: string
+          status: string | null
+          title: string
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          category?: Database["public"]["Enums"]["feedback_category"]
+          created_at?: string | null
+          id?: string
+          message: string
+          status?: string | null
+          title: string
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          category?: Database["public"]["Enums"]["feedback_category"]
+          created_at?: string | null
+          id?: string
+          message?: string
+          status?: string | null
+          title?: string
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      feedback_comments: {
+        Row: {
+          author_id: string
+          created_at: string | null
+          feedback_id: string
+          id: string
+          message: string
+        }
+        Insert: {
+          author_id: string
+          created_at?: string | null
+          feedback_id: string
+          id?: string
+          message: string
+        }
+        Update: {
+          author_id?: string
+          created_at?: string | null
+          feedback_id?: string
+          id?: string
+          message?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_comments_author_id_fkey"
+            columns: ["author_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_comments_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedback"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      feedback_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string | null
+          feedback_id: string
+          from_status: string | null
+          id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string | null
+          feedback_id: string
+          from_status?: string | null
+          id?: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string | null
+          feedback_id?: string
+          from_status?: string | null
+          id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "feedback_status_history_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "feedback_status_history_feedback_id_fkey"
+            columns: ["feedback_id"]
+            isOneToOne: false
+            referencedRelation: "feedback"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notifications: {
+        Row: {
+          body: string | null
+          created_at: string | null
+          id: string
+          kind: Database["public"]["Enums"]["notification_kind"]
+          read_at: string | null
+          recipient_id: string
+          title: string
+        }
+        Insert: {
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["notification_kind"]
+          read_at?: string | null
+          recipient_id: string
+          title: string
+        }
+        Update: {
+          body?: string | null
+          created_at?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["notification_kind"]
+          read_at?: string | null
+          recipient_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notifications_recipient_id_fkey"
+            columns: ["recipient_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profile_audit_log: {
+        Row: {
+          action: Database["public"]["Enums"]["profile_audit_action"]
+          changed_by: string | null
+          created_at: string | null
+          id: string
+          new_role: Database["public"]["Enums"]["user_role"] | null
+          note: string | null
+          old_role: Database["public"]["Enums"]["user_role"] | null
+          profile_id: string
+        }
+        Insert: {
+          action: Database["public"]["Enums"]["profile_audit_action"]
+          changed_by?: string | null
+          created_at?: string | null
+          id?: string
+          new_role?: Database["public"]["Enums"]["user_role"] | null
+          note?: string | null
+          old_role?: Database["public"]["Enums"]["user_role"] | null
+          profile_id: string
+        }
+        Update: {
+          action?: Database["public"]["Enums"]["profile_audit_action"]
+          changed_by?: string | null
+          created_at?: string | null
+          id?: string
+          new_role?: Database["public"]["Enums"]["user_role"] | null
+          note?: string | null
+          old_role?: Database["public"]["Enums"]["user_role"] | null
+          profile_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "profile_audit_log_changed_by_fkey"
+            columns: ["changed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "profile_audit_log_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string | null
+          deactivated_at: string | null
+          department: string | null
+          email: string
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          time_format: Database["public"]["Enums"]["time_format"]
+          timetable_view: Database["public"]["Enums"]["timetable_view"]
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string | null
+          deactivated_at?: string | null
+          department?: string | null
+          email: string
+          id?: string
+          is_active?: boolean
+          name: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          time_format?: Database["public"]["Enums"]["time_format"]
+          timetable_view?: Database["public"]["Enums"]["timetable_view"]
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string | null
+          deactivated_at?: string | null
+          department?: string | null
+          email?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          phone?: string | null
+          role?: Database["public"]["Enums"]["user_role"]
+          time_format?: Database["public"]["Enums"]["time_format"]
+          timetable_view?: Database["public"]["Enums"]["timetable_view"]
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      role_requests: {
+        Row: {
+          created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          id: string
+          profile_id: string
+          reason: string | null
+          requested_role: Database["public"]["Enums"]["user_role"]
+          status: Database["public"]["Enums"]["role_request_status"]
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          id?: string
+          profile_id: string
+          reason?: string | null
+          requested_role: Database["public"]["Enums"]["user_role"]
+          status?: Database["public"]["Enums"]["role_request_status"]
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          id?: string
+          profile_id?: string
+          reason?: string | null
+          requested_role?: Database["public"]["Enums"]["user_role"]
+          status?: Database["public"]["Enums"]["role_request_status"]
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "role_requests_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "role_requests_profile_id_fkey"
+            columns: ["profile_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_bookings: {
+        Row: {
+          booking_date: string
+          created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          end_time: string
+          expected_attendees: number | null
+          id: string
+          kind: Database["public"]["Enums"]["booking_kind"]
+          requested_by: string
+          room_id: string
+          start_time: string
+          status: Database["public"]["Enums"]["booking_status"]
+          title: string
+          updated_at: string | null
+        }
+        Insert: {
+          booking_date: string
+          created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          end_time: string
+          expected_attendees?: number | null
+          id?: string
+          kind?: Database["public"]["Enums"]["booking_kind"]
+          requested_by: string
+          room_id: string
+          start_time: string
+          status?: Database["public"]["Enums"]["booking_status"]
+          title: string
+          updated_at?: string | null
+        }
+        Update: {
+          booking_date?: string
+          created_at?: string | null
+          decided_at?: string | null
+          decided_by?: string | null
+          decision_note?: string | null
+          end_time?: string
+          expected_attendees?: number | null
+          id?: string
+          kind?: Database["public"]["Enums"]["booking_kind"]
+          requested_by?: string
+          room_id?: string
+          start_time?: string
+          status?: Database["public"]["Enums"]["booking_status"]
+          title?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_bookings_decided_by_fkey"
+            columns: ["decided_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_bookings_requested_by_fkey"
+            columns: ["requested_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_bookings_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      session_exceptions: {
+        Row: {
+          created_at: string | null
+          created_by: string | null
+          id: string
+          kind: Database["public"]["Enums"]["session_exception_kind"]
+          new_date: string | null
+          new_end_time: string | null
+          new_room_id: string | null
+          new_start_time: string | null
+          reason: string | null
+          session_date: string
+          timetable_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          kind: Database["public"]["Enums"]["session_exception_kind"]
+          new_date?: string | null
+          new_end_time?: string | null
+          new_room_id?: string | null
+          new_start_time?: string | null
+          reason?: string | null
+          session_date: string
+          timetable_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          kind?: Database["public"]["Enums"]["session_exception_kind"]
+          new_date?: string | null
+          new_end_time?: string | null
+          new_room_id?: string | null
+          new_start_time?: string | null
+          reason?: string | null
+          session_date?: string
+          timetable_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "session_exceptions_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_exceptions_new_room_id_fkey"
+            columns: ["new_room_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "session_exceptions_timetable_id_fkey"
+            columns: ["timetable_id"]
+            isOneToOne: false
+            referencedRelation: "timetable"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timetable: {
+        Row: {
+          academic_year: string
+          course_id: string
+          created_at: string | null
+          day_of_week: string
+          end_time: string
+          faculty_id: string
+          id: string
+          room_id: string
+          semester: string
+          start_time: string
+          updated_at: string | null
+        }
+        Insert: {
+          academic_year: string
+          course_id: string
+          created_at?: string | null
+          day_of_week: string
+          end_time: string
+          faculty_id: string
+          id?: string
+          room_id: string
+          semester: string
+          start_time: string
+          updated_at?: string | null
+        }
+        Update: {
+          academic_year?: string
+          course_id?: string
+          created_at?: string | null
+          day_of_week?: string
+          end_time?: string
+          faculty_id?: string
+          id?: string
+          room_id?: string
+          semester?: string
+          start_time?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timetable_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timetable_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timetable_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timetable_draft_entries: {
+        Row: {
+          course_id: string
+          created_at: string | null
+          day_of_week: string
+          draft_id: string
+          end_time: string
+          faculty_id: string
+          id: string
+          room_id: string
+          start_time: string
+        }
+        Insert: {
+          course_id: string
+          created_at?: string | null
+          day_of_week: string
+          draft_id: string
+          end_time: string
+          faculty_id: string
+          id?: string
+          room_id: string
+          start_time: string
+        }
+        Update: {
+          course_id?: string
+          created_at?: string | null
+          day_of_week?: string
+          draft_id?: string
+          end_time?: string
+          faculty_id?: string
+          id?: string
+          room_id?: string
+          start_time?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timetable_draft_entries_course_id_fkey"
+            columns: ["course_id"]
+            isOneToOne: false
+            referencedRelation: "courses"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timetable_draft_entries_draft_id_fkey"
+            columns: ["draft_id"]
+            isOneToOne: false
+            referencedRelation: "timetable_drafts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timetable_draft_entries_faculty_id_fkey"
+            columns: ["faculty_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "timetable_draft_entries_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "classrooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      timetable_drafts: {
+        Row: {
+          academic_year: string
+          committed_at: string | null
+          created_at: string | null
+          created_by: string | null
+          id: string
+          semester: string
+          settings: Json
+          status: string
+          unscheduled: Json
+          updated_at: string | null
+        }
+        Insert: {
+          academic_year: string
+          committed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          semester: string
+          settings?: Json
+          status?: string
+          unscheduled?: Json
+          updated_at?: string | null
+        }
+        Update: {
+          academic_year?: string
+          committed_at?: string | null
+          created_at?: string | null
+          created_by?: string | null
+          id?: string
+          semester?: string
+          settings?: Json
+          status?: string
+          unscheduled?: Json
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "timetable_drafts_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      attendance_summary: {
+        Args: { _academic_year: string; _semester: string }
+        Returns: {
+          absent: number
+          course_code: string
+          course_id: string
+          course_name: string
+          excused: number
+          late: number
+          percentage: number | null
+          present: number
+          sessions: number
+          student_id: string
+          student_name: string
+        }[]
+      }
+      bulk_import: {
+        Args: { _kind: string; _rows: Json }
+        Returns: number
+      }
+      calendar_feed: {
+        Args: { _token: string }
+        Returns: string
+      }
+      cancel_room_booking: {
+        Args: { _booking_id: string }
+        Returns: {
+          booking_date: string
+          created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          end_time: string
+          expected_attendees: number | null
+          id: string
+          kind: Database["public"]["Enums"]["booking_kind"]
+          requested_by: string
+          room_id: string
+          start_time: string
+          status: Database["public"]["Enums"]["booking_status"]
+          title: string
+          updated_at: string | null
+        }
+      }
+      check_in: {
+        Args: { _token: string }
+        Returns: {
+          course_code: string
+          course_name: string
+        }[]
+      }
+      commit_timetable_draft: {
+        Args: { _draft_id: string }
+        Returns: number
+      }
+      count_user_classes: {
+        Args: { _date: string }
+        Returns: number
+      }
+      dashboard_stats: {
+        Args: { _at?: string }
+        Returns: {
+          available_rooms: number
+          departments: number
+          faculty_teaching_now: number
+          faculty_teaching_today: number
+          today_classes: number
+          total_rooms: number
+          yesterday_classes: number
+        }[]
+      }
+      decide_room_booking: {
+        Args: { _approve: boolean; _booking_id: string; _note?: string }
+        Returns: {
+          booking_date: string
+          created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          end_time: string
+          expected_attendees: number | null
+          id: string
+          kind: Database["public"]["Enums"]["booking_kind"]
+          requested_by: string
+          room_id: string
+          start_time: string
+          status: Database["public"]["Enums"]["booking_status"]
+          title: string
+          updated_at: string | null
+        }
+      }
+      decide_role_request: {
+        Args: { _approve: boolean; _note?: string; _request_id: string }
+        Returns: {
+          created_at: string | null
+          decided_at: string | null
+          decided_by: string | null
+          decision_note: string | null
+          id: string
+          profile_id: string
+          reason: string | null
+          requested_role: Database["public"]["Enums"]["user_role"]
+          status: Database["public"]["Enums"]["role_request_status"]
+          updated_at: string | null
+        }
+      }
+      drop_enrollment: {
+        Args: { _enrollment_id: string }
+        Returns: {
+          created_at: string | null
+          dropped_at: string | null
+          id: string
+          section_id: string
+          status: Database["public"]["Enums"]["enrollment_status"]
+          student_id: string
+          updated_at: string | null
+          waitlisted_at: string | null
+        }
+      }
+      enroll_in_section: {
+        Args: { _section_id: string }
+        Returns: {
+          created_at: string | null
+          dropped_at: string | null
+          id: string
+          section_id: string
+          status: Database["public"]["Enums"]["enrollment_status"]
+          student_id: string
+          updated_at: string | null
+          waitlisted_at: string | null
+        }
+      }
+      expand_timetable: {
+        Args: { _from: string; _to: string }
+        Returns: {
+          academic_year: string
+          course_code: string
+          course_id: string
+          course_name: string
+          end_time: string
+          faculty_id: string
+          faculty_name: string
+          location: string
+          note: string
+          original_date: string
+          room_id: string
+          room_name: string
+          semester: string
+          session_date: string
+          start_time: string
+          status: string
+          timetable_id: string
+        }[]
+      }
+      faculty_workload: {
+        Args: { _academic_year: string; _semester: string }
+        Returns: {
+          courses: number
+          credits: number
+          department: string | null
+          email: string
+          faculty_id: string
+          max_credits: number | null
+          max_weekly_hours: number
+          min_weekly_hours: number
+          name: string
+          sessions: number
+          weekly_minutes: number
+        }[]
+      }
+      find_available_rooms: {
+        Args: {
+          _academic_year?: string
+          _date?: string
+          _day: string
+          _end_time: string
+          _equipment?: string[]
+          _min_capacity?: number
+          _semester?: string
+          _start_time: string
+        }
+        Returns: {
+          capacity: number
+          equipment: string[]
+          id: string
+          location: string
+          room_name: string
+          spare_seats: number
+        }[]
+      }
+      ical_escape: {
+        Args: { _value: string }
+        Returns: string
+      }
+      issue_checkin_token: {
+        Args: {
+          _held_on: string
+          _session_date: string
+          _timetable_id: string
+          _today?: string
+        }
+        Returns: {
+          expires_at: string
+          token: string
+        }[]
+      }
+      reassign_course_faculty: {
+        Args: {
+          _academic_year: string
+          _course_id: string
+          _from_faculty_id: string
+          _semester: string
+          _to_faculty_id: string
+        }
+        Returns: number
+      }
+      record_attendance: {
+        Args: {
+          _held_on: string
+          _records: Json
+          _session_date: string
+          _timetable_id: string
+          _today?: string
+        }
+        Returns: string
+      }
+      save_timetable_draft: {
+        Args: {
+          _academic_year: string
+          _entries: Json
+          _semester: string
+          _settings: Json
+          _unscheduled: Json
+        }
+        Returns: string
+      }
+      section_availability: {
+        Args: { _academic_year: string; _semester: string }
+        Returns: {
+          capacity: number
+          enrolled_count: number
+          section_id: string
+          waitlisted_count: number
+        }[]
+      }
+      section_capacity: {
+        Args: { _section_id: string }
+        Returns: number
+      }
+      session_roll: {
+        Args: { _session_date: string; _timetable_id: string }
+        Returns: {
+          email: string
+          name: string
+          note: string | null
+          section_code: string
+          status: Database["public"]["Enums"]["attendance_status"] | null
+          student_id: string
+        }[]
+      }
+      set_user_active: {
+        Args: { _active: boolean; _note?: string; _profile_id: string }
+        Returns: {
+          avatar_url: string | null
+          created_at: string | null
+          deactivated_at: string | null
+          department: string | null
+          email: string
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          time_format: Database["public"]["Enums"]["time_format"]
+          timetable_view: Database["public"]["Enums"]["timetable_view"]
+          updated_at: string | null
+          user_id: string
+        }
+      }
+      set_user_role: {
+        Args: {
+          _note?: string
+          _profile_id: string
+          _role: Database["public"]["Enums"]["user_role"]
+        }
+        Returns: {
+          avatar_url: string | null
+          created_at: string | null
+          deactivated_at: string | null
+          department: string | null
+          email: string
+          id: string
+          is_active: boolean
+          name: string
+          phone: string | null
+          role: Database["public"]["Enums"]["user_role"]
+          time_format: Database["public"]["Enums"]["time_format"]
+          timetable_view: Database["public"]["Enums"]["timetable_view"]
+          updated_at: string | null
+          user_id: string
+        }
+      }
+      timetable_ical: {
+        Args: {
+          _scope: Database["public"]["Enums"]["calendar_feed_scope"]
+          _scope_id: string
+        }
+        Returns: string
+      }
     }
     Enums: {
+      attendance_status: "present" | "absent" | "late" | "excused"
+      booking_kind: "exam" | "seminar" | "makeup_class" | "event" | "other"
+      booking_status: "pending" | "approved" | "rejected" | "cancelled"
+      calendar_event_kind: "holiday" | "exam_period" | "break" | "event"
+      calendar_feed_scope: "user" | "room" | "course"
+      enrollment_status: "enrolled" | "waitlisted" | "dropped"
+      feedback_category: "room_issue" | "schedule_clash" | "account" | "other"
+      notification_kind: "timetable" | "booking" | "feedback"
+      profile_audit_action: "role_changed" | "deactivated" | "reactivated"
+      role_request_status: "pending" | "approved" | "rejected"
+      session_exception_kind: "cancelled" | "rescheduled"
+      time_format: "24h" | "12h"
+      timetable_view: "week" | "workweek"
       user_role: "student" | "faculty" | "admin"
     }
     CompositeTypes: {
@@ -349,6 +1710,19 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      attendance_status: ["present", "absent", "late", "excused"],
+      booking_kind: ["exam", "seminar", "makeup_class", "event", "other"],
+      booking_status: ["pending", "approved", "rejected", "cancelled"],
+      calendar_event_kind: ["holiday", "exam_period", "break", "event"],
+      calendar_feed_scope: ["user", "room", "course"],
+      enrollment_status: ["enrolled", "waitlisted", "dropped"],
+      feedback_category: ["room_issue", "schedule_clash", "account", "other"],
+      notification_kind: ["timetable", "booking", "feedback"],
+      profile_audit_action: ["role_changed", "deactivated", "reactivated"],
+      role_request_status: ["pending", "approved", "rejected"],
+      session_exception_kind: ["cancelled", "rescheduled"],
+      time_format: ["24h", "12h"],
+      timetable_view: ["week", "workweek"],
       user_role: ["student", "faculty", "admin"],
     },
   },
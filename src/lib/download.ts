@@ -0,0 +1,19 @@
+// Saves generated content (iCalendar, CSV, PDF, ...) through a temporary link.
+export function downloadFile(contents: BlobPart, filename: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
+
+// "CS101 Intro to Programming" -> "cs101-intro-to-programming"
+export function toFileSlug(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
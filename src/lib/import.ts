@@ -0,0 +1,287 @@
+import Papa from "papaparse";
+import { readSheet } from "read-excel-file/browser";
+import { z } from "zod";
+import { classroomSchema, courseSchema, facultyImportSchema, timetableImportSchema } from "@/lib/schemas";
+import { DAYS_OF_WEEK, rangesOverlap } from "@/lib/timetable";
+
+export type ImportKind = "courses" | "classrooms" | "faculty" | "timetable";
+
+export interface ImportField {
+  key: string;
+  label: string;
+  required: boolean;
+  // Lower-case header names recognised when guessing the column mapping.
+  aliases: string[];
+}
+
+export const IMPORT_KINDS: Record<ImportKind, { label: string; fields: ImportField[] }> = {
+  courses: {
+    label: "Courses",
+    fields: [
+      { key: "course_code", label: "Course code", required: true, aliases: ["code", "course"] },
+      { key: "course_name", label: "Course name", required: true, aliases: ["name", "title"] },
+      { key: "department", label: "Department", required: true, aliases: ["dept"] },
+      { key: "credits", label: "Credits", required: false, aliases: ["credit", "units"] },
+      { key: "description", label: "Description", required: false, aliases: ["details"] },
+    ],
+  },
+  classrooms: {
+    label: "Classrooms",
+    fields: [
+      { key: "room_name", label: "Room name", required: true, aliases: ["room", "name"] },
+      { key: "capacity", label: "Capacity", required: true, aliases: ["seats", "size"] },
+      { key: "location", label: "Location", required: true, aliases: ["building", "floor"] },
+      { key: "equipment", label: "Equipment", required: false, aliases: ["facilities", "features"] },
+      { key: "remarks", label: "Remarks", required: false, aliases: ["notes", "comments"] },
+    ],
+  },
+  faculty: {
+    label: "Faculty",
+    fields: [
+      { key: "email", label: "Email", required: true, aliases: ["e-mail", "mail"] },
+      { key: "name", label: "Name", required: false, aliases: ["full name", "faculty"] },
+      { key: "department", label: "Department", required: false, aliases: ["dept"] },
+      { key: "phone", label: "Phone", required: false, aliases: ["mobile", "contact"] },
+    ],
+  },
+  timetable: {
+    label: "Timetable",
+    fields: [
+      { key: "course_code", label: "Course code", required: true, aliases: ["course", "code"] },
+      { key: "room_name", label: "Room", required: true, aliases: ["room", "classroom"] },
+      { key: "faculty_email", label: "Faculty email", required: true, aliases: ["faculty", "teacher", "email"] },
+      { key: "day_of_week", label: "Day", required: true, aliases: ["day", "weekday"] },
+      { key: "start_time", label: "Start time", required: true, aliases: ["start", "from"] },
+      { key: "end_time", label: "End time", required: true, aliases: ["end", "to", "until"] },
+      { key: "semester", label: "Semester", required: true, aliases: ["term"] },
+      { key: "academic_year", label: "Academic year", required: true, aliases: ["year", "session"] },
+    ],
+  },
+};
+
+export interface Spreadsheet {
+  headers: string[];
+  rows: string[][];
+}
+
+// Field key -> column index in the spreadsheet, or null when not imported.
+export type ColumnMapping = Record<string, number | null>;
+
+// Existing data the rows are checked against before anything is sent.
+export interface ImportContext {
+  courseCodes: Set<string>;
+  roomNames: Set<string>;
+  accountEmails: Set<string>;
+  facultyEmails: Set<string>;
+  adminEmails: Set<string>;
+  equipment: { code: string; label: string }[];
+}
+
+export interface ValidatedRow {
+  row: number;
+  values: Record<string, unknown> | null;
+  errors: string[];
+}
+
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return "";
+  if (cell instanceof Date) {
+    // Excel stores times of day as dates on 1899-12-30.
+    return cell.getUTCFullYear() < 1901
+      ? `${String(cell.getUTCHours()).padStart(2, "0")}:${String(cell.getUTCMinutes()).padStart(2, "0")}`
+      : cell.toISOString().slice(0, 10);
+  }
+  return String(cell).trim();
+};
+
+export async function readSpreadsheet(file: File): Promise<Spreadsheet> {
+  let table: string[][];
+
+  if (/\.xlsx$/i.test(file.name)) {
+    const data = await readSheet(file);
+    table = data.map((row) => row.map(cellToString));
+  } else {
+    const parsed = Papa.parse<string[]>(await file.text(), { skipEmptyLines: "greedy" });
+    if (parsed.errors.length > 0 && parsed.data.length === 0) {
+      throw new Error(parsed.errors[0].message);
+    }
+    table = parsed.data.map((row) => row.map(cellToString));
+  }
+
+  const [headers = [], ...rows] = table;
+  if (headers.length === 0) throw new Error("The file is empty");
+
+  return {
+    headers,
+    rows: rows.filter((row) => row.some((cell) => cell !== "")),
+  };
+}
+
+const normalizeHeader = (header: string) => header.toLowerCase().replace(/[_\s]+/g, " ").trim();
+
+export function guessMapping(kind: ImportKind, headers: string[]): ColumnMapping {
+  const normalized = headers.map(normalizeHeader);
+  const taken = new Set<number>();
+  const mapping: ColumnMapping = {};
+
+  for (const field of IMPORT_KINDS[kind].fields) {
+    const candidates = [normalizeHeader(field.key), normalizeHeader(field.label), ...field.aliases];
+    const index = normalized.findIndex((header, i) => !taken.has(i) && candidates.includes(header));
+    mapping[field.key] = index === -1 ? null : index;
+    if (index !== -1) taken.add(index);
+  }
+  return mapping;
+}
+
+// "9:00", "09:00:00" and "2:30 pm" all become "HH:MM".
+export function normalizeTime(value: string): string {
+  const match = value.trim().match(/^(\d{1,2})[:.](\d{2})(?::\d{2})?\s*(am|pm)?$/i);
+  if (!match) return value;
+
+  let hours = Number(match[1]);
+  const meridiem = match[3]?.toLowerCase();
+  if (meridiem === "pm" && hours < 12) hours += 12;
+  if (meridiem === "am" && hours === 12) hours = 0;
+  return `${String(hours).padStart(2, "0")}:${match[2]}`;
+}
+
+// "mon", "MONDAY" and "Monday" all become "Monday".
+export function normalizeDay(value: string): string {
+  const prefix = value.trim().toLowerCase().slice(0, 3);
+  if (prefix.length < 3) return value;
+  return DAYS_OF_WEEK.find((day) => day.toLowerCase().startsWith(prefix)) ?? value;
+}
+
+const errorMessages = (error: unknown) =>
+  error instanceof z.ZodError ? error.errors.map((issue) => issue.message) : [(error as Error).message];
+
+const parseRow = (kind: ImportKind, raw: Record<string, string>, context: ImportContext) => {
+  switch (kind) {
+    case "courses":
+      return courseSchema.parse({
+        ...raw,
+        credits: raw.credits ? Number(raw.credits) : 3,
+        description: raw.description || null,
+      });
+    case "classrooms": {
+      const items = (raw.equipment ?? "")
+        .split(/[,;|]/)
+        .map((item) => item.trim().toLowerCase())
+        .filter(Boolean);
+      const unknown = items.filter(
+        (item) => !context.equipment.some((type) => type.code === item || type.label.toLowerCase() === item),
+      );
+      if (unknown.length > 0) throw new Error(`Unknown equipment: ${unknown.join(", ")}`);
+
+      return classroomSchema.parse({
+        ...raw,
+        capacity: Number(raw.capacity),
+        equipment: items.map(
+          (item) => context.equipment.find((type) => type.code === item || type.label.toLowerCase() === item)!.code,
+        ),
+        remarks: raw.remarks || null,
+      });
+    }
+    case "faculty":
+      return facultyImportSchema.parse({
+        email: raw.email ?? "",
+        name: raw.name ?? "",
+        department: raw.department ?? "",
+        phone: raw.phone ?? "",
+      });
+    case "timetable":
+      return timetableImportSchema.parse({
+        ...raw,
+        day_of_week: normalizeDay(raw.day_of_week ?? ""),
+        start_time: normalizeTime(raw.start_time ?? ""),
+        end_time: normalizeTime(raw.end_time ?? ""),
+      });
+  }
+};
+
+/**
+ * Validates every row of the sheet and collects all problems per row:
+ * schema errors, duplicates within the file, clashes with existing data and
+ * references that do not exist. Only rows without errors carry values.
+ */
+export function validateImport(
+  kind: ImportKind,
+  sheet: Spreadsheet,
+  mapping: ColumnMapping,
+  context: ImportContext,
+): ValidatedRow[] {
+  const seen = new Map<string, number>();
+  const sessions: { row: number; entry: z.infer<typeof timetableImportSchema> }[] = [];
+  const validated: ValidatedRow[] = [];
+
+  sheet.rows.forEach((cells, index) => {
+    // Spreadsheet line numbers: 1 is the header row.
+    const row = index + 2;
+    const raw: Record<string, string> = {};
+    for (const [key, column] of Object.entries(mapping)) {
+      raw[key] = column === null ? "" : (cells[column] ?? "");
+    }
+
+    let values: Record<string, unknown>;
+    try {
+      values = parseRow(kind, raw, context);
+    } catch (error) {
+      validated.push({ row, values: null, errors: errorMessages(error) });
+      return;
+    }
+
+    const errors: string[] = [];
+    const unique = (key: string, label: string) => {
+      const earlier = seen.get(key);
+      if (earlier) errors.push(`${label} is repeated from row ${earlier}`);
+      else seen.set(key, row);
+    };
+
+    if (kind === "courses") {
+      const code = String(values.course_code);
+      unique(code, `Course code ${code}`);
+      if (context.courseCodes.has(code)) errors.push(`Course ${code} already exists`);
+    } else if (kind === "classrooms") {
+      const name = String(values.room_name).toLowerCase();
+      unique(name, `Room ${values.room_name}`);
+      if (context.roomNames.has(name)) errors.push(`Room ${values.room_name} already exists`);
+    } else if (kind === "faculty") {
+      const email = String(values.email);
+      unique(email, email);
+      if (!context.accountEmails.has(email)) errors.push(`No account is registered with ${email}`);
+      else if (context.adminEmails.has(email)) errors.push(`${email} is an administrator and cannot be imported as faculty`);
+    } else {
+      const entry = values as z.infer<typeof timetableImportSchema>;
+      if (!context.courseCodes.has(entry.course_code)) errors.push(`Unknown course code ${entry.course_code}`);
+      if (!context.roomNames.has(entry.room_name.toLowerCase())) errors.push(`Unknown room ${entry.room_name}`);
+      if (!context.facultyEmails.has(entry.faculty_email)) errors.push(`No faculty member with email ${entry.faculty_email}`);
+
+      // Overlaps within the file; overlaps with the saved timetable are caught on commit.
+      for (const { row: otherRow, entry: other } of sessions) {
+        if (
+          other.day_of_week !== entry.day_of_week ||
+          other.semester !== entry.semester ||
+          other.academic_year !== entry.academic_year ||
+          !rangesOverlap(other.start_time, other.end_time, entry.start_time, entry.end_time)
+        ) {
+          continue;
+        }
+        if (other.room_name.toLowerCase() === entry.room_name.toLowerCase()) {
+          errors.push(`${entry.room_name} is already used at this time by row ${otherRow}`);
+        }
+        if (other.faculty_email === entry.faculty_email) {
+          errors.push(`${entry.faculty_email} already teaches at this time in row ${otherRow}`);
+        }
+      }
+      sessions.push({ row, entry });
+    }
+
+    validated.push({ row, values: errors.length > 0 ? null : values, errors });
+  });
+
+  return validated;
+}
+
+export function importTemplate(kind: ImportKind): string {
+  return Papa.unparse([IMPORT_KINDS[kind].fields.map((field) => field.key)]);
+}
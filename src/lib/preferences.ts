@@ -0,0 +1,136 @@
+import type { Tables } from "@/integrations/supabase/types";
+import { formatTime, rangesOverlap, toMinutes } from "@/lib/timetable";
+
+export type FacultyPreference = Tables<"faculty_preferences">;
+export type UnavailableBlock = Tables<"faculty_unavailability">;
+
+export type PreferenceViolationKind = "unavailable" | "day" | "hours" | "consecutive" | "room";
+
+export interface PreferenceViolation {
+  timetable_id: string;
+  faculty_id: string;
+  kind: PreferenceViolationKind;
+  message: string;
+}
+
+// The fields of a timetable entry the preferences are checked against.
+export interface PreferenceCheckedClass {
+  id: string;
+  faculty_id: string;
+  room_id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  classrooms: { room_name: string; location: string };
+}
+
+// Classes with a shorter break than this between them count as back to back.
+const CONSECUTIVE_GAP_MINUTES = 15;
+
+/**
+ * Checks a term's timetable against the faculty's stated availability and
+ * preferences. Unavailable blocks are hard constraints; the others are
+ * preferences that are reported the same way but may be overruled.
+ */
+export function findPreferenceViolations(
+  entries: PreferenceCheckedClass[],
+  preferences: FacultyPreference[],
+  blocks: UnavailableBlock[],
+): PreferenceViolation[] {
+  const violations: PreferenceViolation[] = [];
+  const add = (entry: PreferenceCheckedClass, kind: PreferenceViolationKind, message: string) =>
+    violations.push({ timetable_id: entry.id, faculty_id: entry.faculty_id, kind, message });
+
+  for (const entry of entries) {
+    for (const block of blocks) {
+      if (
+        block.faculty_id === entry.faculty_id &&
+        block.day_of_week === entry.day_of_week &&
+        rangesOverlap(block.start_time, block.end_time, entry.start_time, entry.end_time)
+      ) {
+        add(
+          entry,
+          "unavailable",
+          `Unavailable ${block.day_of_week} ${formatTime(block.start_time)}-${formatTime(block.end_time)}${block.reason ? ` (${block.reason})` : ""}`,
+        );
+      }
+    }
+
+    const preference = preferences.find((item) => item.faculty_id === entry.faculty_id);
+    if (!preference) continue;
+
+    if (preference.preferred_days.length > 0 && !preference.preferred_days.includes(entry.day_of_week)) {
+      add(entry, "day", `Prefers to teach on ${preference.preferred_days.join(", ")}`);
+    }
+
+    const { preferred_start_time: from, preferred_end_time: until } = preference;
+    if (
+      (from && toMinutes(entry.start_time) < toMinutes(from)) ||
+      (until && toMinutes(entry.end_time) > toMinutes(until))
+    ) {
+      add(
+        entry,
+        "hours",
+        `Prefers to teach ${from ? `from ${formatTime(from)}` : ""}${from && until ? " " : ""}${until ? `until ${formatTime(until)}` : ""}`,
+      );
+    }
+
+    const roomPreferred =
+      (preference.preferred_room_ids.length === 0 && preference.preferred_locations.length === 0) ||
+      preference.preferred_room_ids.includes(entry.room_id) ||
+      preference.preferred_locations.includes(entry.classrooms.location);
+    if (!roomPreferred) {
+      add(entry, "room", `${entry.classrooms.room_name} is not one of the preferred rooms or buildings`);
+    }
+  }
+
+  // Runs of back-to-back classes longer than the faculty member's limit
+  for (const preference of preferences) {
+    if (preference.max_consecutive_hours === null) continue;
+    const limit = preference.max_consecutive_hours * 60;
+
+    const byDay = new Map<string, PreferenceCheckedClass[]>();
+    for (const entry of entries.filter((item) => item.faculty_id === preference.faculty_id)) {
+      byDay.set(entry.day_of_week, [...(byDay.get(entry.day_of_week) ?? []), entry]);
+    }
+
+    for (const dayEntries of byDay.values()) {
+      const sorted = dayEntries.sort((a, b) => a.start_time.localeCompare(b.start_time));
+      let run: PreferenceCheckedClass[] = [];
+
+      const closeRun = () => {
+        if (run.length < 2) return;
+        const minutes = toMinutes(run[run.length - 1].end_time) - toMinutes(run[0].start_time);
+        if (minutes > limit) {
+          for (const entry of run) {
+            add(
+              entry,
+              "consecutive",
+              `Part of ${Math.round((minutes / 60) * 10) / 10} consecutive hours; the limit is ${preference.max_consecutive_hours}`,
+            );
+          }
+        }
+      };
+
+      for (const entry of sorted) {
+        const previous = run[run.length - 1];
+        if (previous && toMinutes(entry.start_time) - toMinutes(previous.end_time) >= CONSECUTIVE_GAP_MINUTES) {
+          closeRun();
+          run = [];
+        }
+        run.push(entry);
+      }
+      closeRun();
+    }
+  }
+
+  return violations;
+}
+
+export function groupViolations(violations: PreferenceViolation[]): Map<string, PreferenceViolation[]> {
+  const grouped = new Map<string, PreferenceViolation[]>();
+  for (const violation of violations) {
+    grouped.set(violation.timetable_id, [...(grouped.get(violation.timetable_id) ?? []), violation]);
+  }
+  return grouped;
+}
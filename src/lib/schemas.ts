@@ -0,0 +1,153 @@
+import { z } from "zod";
+import { DAYS_OF_WEEK } from "@/lib/timetable";
+
+export const courseSchema = z.object({
+  course_code: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .regex(/^[A-Z]{2,6}\d{2,4}[A-Z]?$/, "Course code must look like CS101 or MATH201A"),
+  course_name: z.string().trim().min(3, "Course name must be at least 3 characters"),
+  department: z.string().trim().min(2, "Department is required"),
+  credits: z.number().int("Credits must be a whole number").min(1, "Credits must be at least 1").max(12, "Credits cannot exceed 12"),
+  description: z.string().trim().nullable(),
+});
+
+export const classroomSchema = z.object({
+  room_name: z.string().trim().min(2, "Room name is required"),
+  capacity: z.number().int("Capacity must be a whole number").positive("Capacity must be greater than zero"),
+  location: z.string().trim().min(2, "Location is required"),
+  equipment: z.array(z.string()),
+  remarks: z.string().trim().nullable(),
+});
+
+export const roomBookingSchema = z
+  .object({
+    room_id: z.string().uuid("Choose a room"),
+    title: z.string().trim().min(3, "Title must be at least 3 characters"),
+    kind: z.enum(["exam", "seminar", "makeup_class", "event", "other"]),
+    booking_date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Choose a date"),
+    start_time: z.string().regex(/^\d{2}:\d{2}/, "Choose a start time"),
+    end_time: z.string().regex(/^\d{2}:\d{2}/, "Choose an end time"),
+    expected_attendees: z.number().int("Attendees must be a whole number").positive("Attendees must be greater than zero").nullable(),
+  })
+  .refine((booking) => booking.end_time > booking.start_time, "End time must be after start time");
+
+const isoDate = (message: string) => z.string().regex(/^\d{4}-\d{2}-\d{2}$/, message);
+
+export const academicTermSchema = z
+  .object({
+    semester: z.string().trim().min(2, "Semester is required"),
+    academic_year: z.string().trim().regex(/^\d{4}-\d{4}$/, "Academic year must look like 2025-2026"),
+    start_date: isoDate("Choose the first day of teaching"),
+    end_date: isoDate("Choose the last day of teaching"),
+  })
+  .refine((term) => term.end_date >= term.start_date, "The term must end after it starts");
+
+export const calendarEventSchema = z
+  .object({
+    title: z.string().trim().min(3, "Title must be at least 3 characters"),
+    kind: z.enum(["holiday", "exam_period", "break", "event"]),
+    start_date: isoDate("Choose a start date"),
+    end_date: isoDate("Choose an end date"),
+    suspends_classes: z.boolean(),
+  })
+  .refine((event) => event.end_date >= event.start_date, "The end date must not be before the start date");
+
+const clockTime = (message: string) => z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, message);
+
+export const facultyImportSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Enter a valid email address"),
+  name: z.string().trim(),
+  department: z.string().trim(),
+  phone: z.string().trim(),
+});
+
+export const timetableImportSchema = z
+  .object({
+    course_code: z.string().trim().toUpperCase().min(1, "Course code is required"),
+    room_name: z.string().trim().min(1, "Room is required"),
+    faculty_email: z.string().trim().toLowerCase().email("Faculty email is not valid"),
+    day_of_week: z.enum(DAYS_OF_WEEK, { errorMap: () => ({ message: "Day must be Monday to Sunday" }) }),
+    start_time: clockTime("Start time must look like 09:00"),
+    end_time: clockTime("End time must look like 10:30"),
+    semester: z.string().trim().min(2, "Semester is required"),
+    academic_year: z.string().trim().regex(/^\d{4}-\d{4}$/, "Academic year must look like 2025-2026"),
+  })
+  .refine((entry) => entry.end_time > entry.start_time, "End time must be after start time");
+
+export const workloadLimitSchema = z
+  .object({
+    department: z.string().trim().min(2, "Department is required"),
+    min_weekly_hours: z.number().min(0, "Minimum hours cannot be negative").max(60, "Minimum hours cannot exceed 60"),
+    max_weekly_hours: z.number().positive("Maximum hours must be greater than zero").max(60, "Maximum hours cannot exceed 60"),
+    max_credits: z.number().int("Credits must be a whole number").positive("Credit limit must be greater than zero").nullable(),
+  })
+  .refine((limit) => limit.max_weekly_hours >= limit.min_weekly_hours, "Maximum hours must not be below the minimum");
+
+export const facultyPreferenceSchema = z
+  .object({
+    preferred_days: z.array(z.enum(DAYS_OF_WEEK)),
+    preferred_start_time: clockTime("Enter a start time like 09:00").nullable(),
+    preferred_end_time: clockTime("Enter an end time like 17:00").nullable(),
+    max_consecutive_hours: z
+      .number()
+      .positive("Consecutive hours must be greater than zero")
+      .max(12, "Consecutive hours cannot exceed 12")
+      .nullable(),
+    preferred_room_ids: z.array(z.string().uuid()),
+    preferred_locations: z.array(z.string()),
+    notes: z.string().trim().nullable(),
+  })
+  .refine(
+    (preference) =>
+      !preference.preferred_start_time ||
+      !preference.preferred_end_time ||
+      preference.preferred_end_time > preference.preferred_start_time,
+    "The preferred end time must be after the start time",
+  );
+
+export const unavailableBlockSchema = z
+  .object({
+    day_of_week: z.enum(DAYS_OF_WEEK, { errorMap: () => ({ message: "Choose a day" }) }),
+    start_time: clockTime("Choose a start time"),
+    end_time: clockTime("Choose an end time"),
+    reason: z.string().trim().nullable(),
+  })
+  .refine((block) => block.end_time > block.start_time, "End time must be after start time");
+
+export const feedbackSchema = z.object({
+  title: z.string().trim().min(3, "Title must be at least 3 characters"),
+  message: z.string().trim().min(10, "Describe the issue in at least 10 characters"),
+  category: z.enum(["room_issue", "schedule_clash", "account", "other"]),
+});
+
+export const feedbackCommentSchema = z.object({
+  message: z.string().trim().min(1, "Write a reply first"),
+});
+
+export const profileDetailsSchema = z.object({
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  department: z.string().trim().min(2, "Department is required"),
+  phone: z.string().trim().nullable(),
+});
+
+export const passwordChangeSchema = z
+  .object({
+    current_password: z.string().min(1, "Enter your current password"),
+    new_password: z.string().min(6, "Password must be at least 6 characters"),
+    confirm_password: z.string(),
+  })
+  .refine((change) => change.new_password === change.confirm_password, "The new passwords do not match")
+  .refine((change) => change.new_password !== change.current_password, "Choose a password you are not already using");
+
+export const emailChangeSchema = z.object({
+  email: z.string().trim().toLowerCase().email("Invalid email address"),
+});
+
+export const passwordResetSchema = z
+  .object({
+    new_password: z.string().min(6, "Password must be at least 6 characters"),
+    confirm_password: z.string(),
+  })
+  .refine((reset) => reset.new_password === reset.confirm_password, "The passwords do not match");
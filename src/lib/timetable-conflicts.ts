@@ -0,0 +1,139 @@
+import type { PostgrestError } from "@supabase/supabase-js";
+import { formatTime, rangesOverlap } from "@/lib/timetable";
+
+// Raised by the exclusion constraints and the check_timetable_conflicts,
+// check_room_booking_conflicts and check_session_exception_conflicts triggers.
+const EXCLUSION_VIOLATION = "23P01";
+
+export type ConflictKind = "room" | "faculty" | "booking";
+
+export interface TimetableConflict {
+  kind: ConflictKind;
+  timetable_id?: string;
+  day_of_week?: string;
+  start_time?: string;
+  end_time?: string;
+  course_code?: string;
+  course_name?: string;
+  room_name?: string;
+  faculty_name?: string;
+  booking_id?: string;
+  booking_title?: string;
+  booking_date?: string;
+}
+
+export function describeConflict(conflict: TimetableConflict): string {
+  if (conflict.kind === "booking") {
+    return conflict.booking_title
+      ? `${conflict.room_name} is already booked on ${conflict.booking_date} ${formatTime(conflict.start_time)}-${formatTime(conflict.end_time)} for "${conflict.booking_title}".`
+      : "This room already has an approved booking for an overlapping period.";
+  }
+
+  if (!conflict.course_code) {
+    return conflict.kind === "room"
+      ? "This room is already booked for an overlapping period."
+      : "This faculty member is already teaching in an overlapping period.";
+  }
+
+  const when = `${conflict.day_of_week} ${formatTime(conflict.start_time)}-${formatTime(conflict.end_time)}`;
+  const clash = `${conflict.course_code} (${conflict.course_name}) with ${conflict.faculty_name} in ${conflict.room_name}`;
+
+  return conflict.kind === "room"
+    ? `${conflict.room_name} is already booked on ${when} for ${clash}.`
+    : `${conflict.faculty_name} is already teaching on ${when}: ${clash}.`;
+}
+
+export class TimetableConflictError extends Error {
+  readonly conflict: TimetableConflict;
+
+  constructor(conflict: TimetableConflict) {
+    super(describeConflict(conflict));
+    this.name = "TimetableConflictError";
+    this.conflict = conflict;
+  }
+}
+
+export function isTimetableConflict(error: unknown): error is TimetableConflictError {
+  return error instanceof TimetableConflictError;
+}
+
+/**
+ * Turns a Postgres double-booking error into a TimetableConflictError, or
+ * returns null for any other error so callers can fall back to its message.
+ */
+export function toTimetableConflictError(error: Pick<PostgrestError, "code" | "message" | "details"> | null) {
+  if (!error || error.code !== EXCLUSION_VIOLATION) return null;
+
+  try {
+    const conflict = JSON.parse(error.details) as TimetableConflict;
+    if (conflict.kind === "room" || conflict.kind === "faculty" || conflict.kind === "booking") {
+      return new TimetableConflictError(conflict);
+    }
+  } catch {
+    // Constraint violations raced past the trigger carry plain-text details.
+  }
+
+  const kind: ConflictKind = error.message.includes("faculty_no_overlap")
+    ? "faculty"
+    : error.message.includes("room_bookings_no_overlap")
+      ? "booking"
+      : "room";
+  return new TimetableConflictError({ kind });
+}
+
+// Throws the typed conflict when there is one, otherwise the original error.
+export function throwTimetableError(error: PostgrestError | null): void {
+  if (!error) return;
+  throw toTimetableConflictError(error) ?? error;
+}
+
+export interface ScheduledClass {
+  id: string;
+  room_id: string;
+  faculty_id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  courses: { course_code: string; course_name: string };
+  classrooms: { room_name: string };
+  profiles: { name: string };
+}
+
+/**
+ * Client-side mirror of the check_timetable_conflicts trigger, used to
+ * validate a move before it is saved. `entries` must all belong to the same
+ * term as the candidate; room clashes are reported before faculty clashes.
+ */
+export function findTimetableConflict(
+  entries: ScheduledClass[],
+  candidate: Pick<ScheduledClass, "id" | "room_id" | "faculty_id" | "day_of_week" | "start_time" | "end_time">,
+): TimetableConflict | null {
+  const clashes = entries
+    .filter(
+      (entry) =>
+        entry.id !== candidate.id &&
+        entry.day_of_week === candidate.day_of_week &&
+        (entry.room_id === candidate.room_id || entry.faculty_id === candidate.faculty_id) &&
+        rangesOverlap(entry.start_time, entry.end_time, candidate.start_time, candidate.end_time),
+    )
+    .sort(
+      (a, b) =>
+        Number(b.room_id === candidate.room_id) - Number(a.room_id === candidate.room_id) ||
+        a.start_time.localeCompare(b.start_time),
+    );
+
+  const clash = clashes[0];
+  if (!clash) return null;
+
+  return {
+    kind: clash.room_id === candidate.room_id ? "room" : "faculty",
+    timetable_id: clash.id,
+    day_of_week: clash.day_of_week,
+    start_time: clash.start_time,
+    end_time: clash.end_time,
+    course_code: clash.courses.course_code,
+    course_name: clash.courses.course_name,
+    room_name: clash.classrooms.room_name,
+    faculty_name: clash.profiles.name,
+  };
+}
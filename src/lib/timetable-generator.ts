@@ -0,0 +1,260 @@
+import { DayOfWeek, fromMinutes, rangesOverlap, toMinutes } from "@/lib/timetable";
+
+export interface GeneratorCourse {
+  id: string;
+  course_code: string;
+  credits: number | null;
+}
+
+export interface GeneratorAssignment {
+  course_id: string;
+  faculty_id: string;
+  expected_students: number;
+  required_equipment: string[];
+}
+
+export interface GeneratorRoom {
+  id: string;
+  room_name: string;
+  capacity: number;
+  equipment: string[] | null;
+  availability_status: boolean | null;
+}
+
+export interface TimeWindow {
+  start: string;
+  end: string;
+}
+
+export interface GeneratorSettings {
+  days: DayOfWeek[];
+  dayStart: string;
+  dayEnd: string;
+  sessionMinutes: number;
+  breaks: TimeWindow[];
+}
+
+export interface GeneratedEntry {
+  course_id: string;
+  faculty_id: string;
+  room_id: string;
+  day_of_week: DayOfWeek;
+  start_time: string;
+  end_time: string;
+}
+
+export interface UnscheduledSession {
+  course_id: string;
+  course_code: string;
+  reason: string;
+}
+
+export interface GeneratorResult {
+  entries: GeneratedEntry[];
+  unscheduled: UnscheduledSession[];
+}
+
+export const DEFAULT_GENERATOR_SETTINGS: GeneratorSettings = {
+  days: ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"],
+  dayStart: "08:00",
+  dayEnd: "17:00",
+  sessionMinutes: 60,
+  breaks: [{ start: "12:00", end: "13:00" }],
+};
+
+// Upper bound on backtracking steps before falling back to a greedy pass.
+const SEARCH_BUDGET = 50000;
+
+interface Slot {
+  day: DayOfWeek;
+  index: number;
+  start: string;
+  end: string;
+}
+
+interface Session {
+  assignment: GeneratorAssignment;
+  course: GeneratorCourse;
+  rooms: GeneratorRoom[];
+  perWeek: number;
+}
+
+interface Placement {
+  slot: Slot;
+  room: GeneratorRoom;
+}
+
+// Weekly contact hours follow the course credits (one credit = one hour).
+export function weeklySessionsFor(course: GeneratorCourse, sessionMinutes: number): number {
+  const hours = course.credits ?? 3;
+  return Math.max(1, Math.ceil((hours * 60) / sessionMinutes));
+}
+
+export function buildSlots(settings: GeneratorSettings): Slot[] {
+  const slots: Slot[] = [];
+  const dayEnd = toMinutes(settings.dayEnd);
+
+  for (const day of settings.days) {
+    let index = 0;
+    for (let start = toMinutes(settings.dayStart); start + settings.sessionMinutes <= dayEnd; start += settings.sessionMinutes) {
+      const slot = { day, index, start: fromMinutes(start), end: fromMinutes(start + settings.sessionMinutes) };
+      const inBreak = settings.breaks.some((window) => rangesOverlap(slot.start, slot.end, window.start, window.end));
+      if (!inBreak) {
+        slots.push(slot);
+        index++;
+      }
+    }
+  }
+
+  return slots;
+}
+
+export function roomSuits(room: GeneratorRoom, assignment: GeneratorAssignment): boolean {
+  if (room.availability_status === false) return false;
+  if (room.capacity < assignment.expected_students) return false;
+  const equipment = room.equipment ?? [];
+  return assignment.required_equipment.every((item) => equipment.includes(item));
+}
+
+/**
+ * Builds a conflict-free weekly timetable: no room or faculty member is used
+ * twice in the same slot, and a course's sessions are spread across days
+ * where possible. Sessions that cannot be placed are reported, not dropped.
+ */
+export function generateTimetable(
+  courses: GeneratorCourse[],
+  assignments: GeneratorAssignment[],
+  rooms: GeneratorRoom[],
+  settings: GeneratorSettings,
+): GeneratorResult {
+  const slots = buildSlots(settings);
+  const unscheduled: UnscheduledSession[] = [];
+  const sessions: Session[] = [];
+
+  for (const assignment of assignments) {
+    const course = courses.find((c) => c.id === assignment.course_id);
+    if (!course) continue;
+
+    const perWeek = weeklySessionsFor(course, settings.sessionMinutes);
+    const suitable = rooms
+      .filter((room) => roomSuits(room, assignment))
+      .sort((a, b) => a.capacity - b.capacity);
+
+    if (suitable.length === 0) {
+      for (let i = 0; i < perWeek; i++) {
+        unscheduled.push({
+          course_id: course.id,
+          course_code: course.course_code,
+          reason: `No available room seats ${assignment.expected_students}${
+            assignment.required_equipment.length ? ` with ${assignment.required_equipment.join(", ")}` : ""
+          }`,
+        });
+      }
+      continue;
+    }
+
+    for (let i = 0; i < perWeek; i++) {
+      sessions.push({ assignment, course, rooms: suitable, perWeek });
+    }
+  }
+
+  // Most constrained first: fewest candidate rooms, then busiest faculty.
+  const facultyLoad = new Map<string, number>();
+  sessions.forEach((s) => facultyLoad.set(s.assignment.faculty_id, (facultyLoad.get(s.assignment.faculty_id) ?? 0) + 1));
+  sessions.sort(
+    (a, b) =>
+      a.rooms.length - b.rooms.length ||
+      (facultyLoad.get(b.assignment.faculty_id) ?? 0) - (facultyLoad.get(a.assignment.faculty_id) ?? 0) ||
+      a.course.course_code.localeCompare(b.course.course_code),
+  );
+
+  const busyRooms = new Set<string>();
+  const busyFaculty = new Set<string>();
+  const courseDays = new Map<string, number>();
+  const placements: (Placement | null)[] = new Array(sessions.length).fill(null);
+
+  const slotKey = (slot: Slot) => `${slot.day}|${slot.index}`;
+  const courseDayKey = (session: Session, day: DayOfWeek) => `${session.course.id}|${day}`;
+
+  const candidates = (session: Session): Placement[] => {
+    const spreadLimit = Math.ceil(session.perWeek / settings.days.length);
+    const result: { placement: Placement; score: number }[] = [];
+
+    for (const slot of slots) {
+      if (busyFaculty.has(`${session.assignment.faculty_id}|${slotKey(slot)}`)) continue;
+      const sameDay = courseDays.get(courseDayKey(session, slot.day)) ?? 0;
+      if (sameDay >= spreadLimit) continue;
+
+      const room = session.rooms.find((r) => !busyRooms.has(`${r.id}|${slotKey(slot)}`));
+      if (!room) continue;
+
+      result.push({ placement: { slot, room }, score: sameDay * 1000 + (room.capacity - session.assignment.expected_students) });
+    }
+
+    return result.sort((a, b) => a.score - b.score).map((c) => c.placement);
+  };
+
+  const place = (i: number, placement: Placement) => {
+    const session = sessions[i];
+    placements[i] = placement;
+    busyRooms.add(`${placement.room.id}|${slotKey(placement.slot)}`);
+    busyFaculty.add(`${session.assignment.faculty_id}|${slotKey(placement.slot)}`);
+    const key = courseDayKey(session, placement.slot.day);
+    courseDays.set(key, (courseDays.get(key) ?? 0) + 1);
+  };
+
+  const unplace = (i: number) => {
+    const session = sessions[i];
+    const placement = placements[i];
+    if (!placement) return;
+    placements[i] = null;
+    busyRooms.delete(`${placement.room.id}|${slotKey(placement.slot)}`);
+    busyFaculty.delete(`${session.assignment.faculty_id}|${slotKey(placement.slot)}`);
+    const key = courseDayKey(session, placement.slot.day);
+    courseDays.set(key, (courseDays.get(key) ?? 1) - 1);
+  };
+
+  let steps = 0;
+  const search = (i: number): boolean => {
+    if (i === sessions.length) return true;
+    for (const placement of candidates(sessions[i])) {
+      if (++steps > SEARCH_BUDGET) return false;
+      place(i, placement);
+      if (search(i + 1)) return true;
+      unplace(i);
+    }
+    return false;
+  };
+
+  if (!search(0)) {
+    // Keep whatever fits and report the rest so the admin can adjust inputs.
+    for (let i = 0; i < sessions.length; i++) unplace(i);
+    sessions.forEach((session, i) => {
+      const [first] = candidates(session);
+      if (first) {
+        place(i, first);
+      } else {
+        unscheduled.push({
+          course_id: session.course.id,
+          course_code: session.course.course_code,
+          reason: "No free slot for both the faculty member and a suitable room",
+        });
+      }
+    });
+  }
+
+  const entries = sessions.flatMap((session, i) => {
+    const placement = placements[i];
+    if (!placement) return [];
+    return [{
+      course_id: session.course.id,
+      faculty_id: session.assignment.faculty_id,
+      room_id: placement.room.id,
+      day_of_week: placement.slot.day,
+      start_time: placement.slot.start,
+      end_time: placement.slot.end,
+    }];
+  });
+
+  return { entries, unscheduled };
+}
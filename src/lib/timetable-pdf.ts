@@ -0,0 +1,141 @@
+import { jsPDF } from "jspdf";
+import { autoTable } from "jspdf-autotable";
+import { format } from "date-fns";
+import { DAYS_OF_WEEK, DayOfWeek, WORKING_DAYS, formatTime } from "@/lib/timetable";
+
+export const INSTITUTION_NAME = import.meta.env.VITE_INSTITUTION_NAME || "Smart Classroom";
+
+export interface PrintableEntry {
+  id: string;
+  day_of_week: string;
+  start_time: string;
+  end_time: string;
+  courses: { course_code: string; course_name: string; department: string };
+  classrooms: { room_name: string; location: string };
+  profiles: { id: string; name: string };
+}
+
+export type PrintScope = "department" | "room" | "faculty";
+
+export interface TimetablePdfOptions {
+  scope: PrintScope;
+  // Department, room or faculty name shown in the header.
+  label: string;
+  semester: string;
+  academicYear: string;
+  entries: PrintableEntry[];
+}
+
+// Course colours cycle through this palette in both the grid and the legend.
+const PALETTE: [number, number, number][] = [
+  [219, 234, 254],
+  [220, 252, 231],
+  [254, 243, 199],
+  [252, 231, 243],
+  [237, 233, 254],
+  [204, 251, 241],
+  [255, 237, 213],
+  [226, 232, 240],
+];
+
+const SCOPE_TITLES: Record<PrintScope, string> = {
+  department: "Department Timetable",
+  room: "Room Timetable",
+  faculty: "Faculty Timetable",
+};
+
+/**
+ * Renders a landscape A4 weekly grid: one column per day and one row per
+ * distinct period (start-end pair) in the entries. Parallel classes share a
+ * cell. Each cell omits whatever the scope already fixes, e.g. the room on a
+ * room timetable, and the legend spells out the course codes.
+ */
+export function buildTimetablePdf({ scope, label, semester, academicYear, entries }: TimetablePdfOptions): jsPDF {
+  const doc = new jsPDF({ orientation: "landscape", unit: "mm", format: "a4" });
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFont("helvetica", "bold");
+  doc.setFontSize(16);
+  doc.text(INSTITUTION_NAME, pageWidth / 2, 14, { align: "center" });
+  doc.setFontSize(12);
+  doc.text(`${SCOPE_TITLES[scope]}: ${label}`, pageWidth / 2, 21, { align: "center" });
+  doc.setFont("helvetica", "normal");
+  doc.setFontSize(10);
+  doc.text(`${semester} ${academicYear}`, pageWidth / 2, 27, { align: "center" });
+  doc.setFontSize(8);
+  doc.text(`Generated ${format(new Date(), "MMM d, yyyy HH:mm")}`, pageWidth - 14, 10, { align: "right" });
+
+  const days = DAYS_OF_WEEK.filter(
+    (day: DayOfWeek) => WORKING_DAYS.includes(day) || entries.some((entry) => entry.day_of_week === day),
+  );
+  const periods = [...new Set(entries.map((entry) => `${formatTime(entry.start_time)}-${formatTime(entry.end_time)}`))].sort();
+  const courseCodes = [...new Set(entries.map((entry) => entry.courses.course_code))].sort();
+  const colorOf = (code: string) => PALETTE[courseCodes.indexOf(code) % PALETTE.length];
+
+  const cellText = (entry: PrintableEntry) =>
+    [
+      entry.courses.course_code,
+      scope !== "room" && entry.classrooms.room_name,
+      scope !== "faculty" && entry.profiles.name,
+    ]
+      .filter(Boolean)
+      .join("\n");
+
+  const grid = periods.map((period) =>
+    days.map((day) =>
+      entries
+        .filter(
+          (entry) =>
+            entry.day_of_week === day && `${formatTime(entry.start_time)}-${formatTime(entry.end_time)}` === period,
+        )
+        .sort((a, b) => a.courses.course_code.localeCompare(b.courses.course_code)),
+    ),
+  );
+
+  autoTable(doc, {
+    startY: 32,
+    theme: "grid",
+    head: [["Period", ...days]],
+    body: grid.map((row, index) => [periods[index].replace("-", " - "), ...row.map((cell) => cell.map(cellText).join("\n\n"))]),
+    styles: { fontSize: 8, cellPadding: 2, valign: "middle", halign: "center", lineColor: [203, 213, 225] },
+    headStyles: { fillColor: [30, 64, 175], textColor: 255 },
+    columnStyles: { 0: { fontStyle: "bold", cellWidth: 24 } },
+    didParseCell: (data) => {
+      if (data.section !== "body" || data.column.index === 0) return;
+      const cell = grid[data.row.index][data.column.index - 1];
+      // Only single-course cells are coloured; shared cells stay white.
+      if (cell.length > 0 && cell.every((entry) => entry.courses.course_code === cell[0].courses.course_code)) {
+        data.cell.styles.fillColor = colorOf(cell[0].courses.course_code);
+      }
+    },
+  });
+
+  if (entries.length === 0) {
+    doc.setFontSize(10);
+    doc.text("No classes are scheduled for this term.", 14, 48);
+    return doc;
+  }
+
+  const legend = courseCodes.map((code) => {
+    const entry = entries.find((item) => item.courses.course_code === code)!;
+    return [code, entry.courses.course_name, entry.courses.department];
+  });
+
+  autoTable(doc, {
+    startY: (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 8,
+    theme: "plain",
+    head: [["Legend", "Course", "Department"]],
+    body: legend,
+    styles: { fontSize: 8, cellPadding: 1.5 },
+    headStyles: { fontStyle: "bold" },
+    columnStyles: { 0: { fontStyle: "bold", cellWidth: 24 } },
+    tableWidth: pageWidth / 2,
+    didParseCell: (data) => {
+      if (data.section === "body" && data.column.index === 0) {
+        data.cell.styles.fillColor = colorOf(String(data.cell.raw));
+      }
+    },
+  });
+
+  return doc;
+}
@@ -0,0 +1,59 @@
+export const DAYS_OF_WEEK = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+] as const;
+
+export type DayOfWeek = (typeof DAYS_OF_WEEK)[number];
+
+export const WORKING_DAYS: DayOfWeek[] = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday"];
+
+// Postgres TIME columns come back as "HH:MM:SS"; form inputs use "HH:MM".
+export function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + (minutes || 0);
+}
+
+export function fromMinutes(total: number): string {
+  const hours = Math.floor(total / 60);
+  const minutes = total % 60;
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+export type TimeFormat = "24h" | "12h";
+
+export function formatTime(time: string, format: TimeFormat = "24h"): string {
+  if (format === "24h") return time.slice(0, 5);
+  const [hours, minutes] = time.split(":").map(Number);
+  return `${hours % 12 || 12}:${String(minutes || 0).padStart(2, "0")} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+export function rangesOverlap(startA: string, endA: string, startB: string, endB: string): boolean {
+  return toMinutes(startA) < toMinutes(endB) && toMinutes(startB) < toMinutes(endA);
+}
+
+// Academic years run July to June, e.g. "2025-2026".
+export function currentAcademicYear(date = new Date()): string {
+  const year = date.getFullYear();
+  return date.getMonth() >= 6 ? `${year}-${year + 1}` : `${year - 1}-${year}`;
+}
+
+export function currentSemester(date = new Date()): string {
+  return date.getMonth() >= 6 ? "Fall" : "Spring";
+}
+
+export function dayOfWeekFor(date = new Date()): DayOfWeek {
+  // Date#getDay() starts the week on Sunday.
+  return DAYS_OF_WEEK[(date.getDay() + 6) % 7];
+}
+
+export function minutesSinceMidnight(date = new Date()): number {
+  return date.getHours() * 60 + date.getMinutes();
+}
+
+// Occupancy is measured against a 08:00-17:00 teaching day on working days.
+export const TEACHING_MINUTES_PER_WEEK = WORKING_DAYS.length * 9 * 60;
@@ -0,0 +1,125 @@
+import Papa from "papaparse";
+import type { Database } from "@/integrations/supabase/types";
+import { ScheduledClass, findTimetableConflict } from "@/lib/timetable-conflicts";
+import { toMinutes } from "@/lib/timetable";
+
+export type FacultyWorkload = Database["public"]["Functions"]["faculty_workload"]["Returns"][number];
+
+type WorkloadEntry = ScheduledClass & {
+  course_id: string;
+  courses: ScheduledClass["courses"] & { department: string; credits: number };
+};
+
+export type WorkloadStatus = "overload" | "underload" | "balanced";
+
+export interface ReassignmentSuggestion {
+  course_id: string;
+  course_code: string;
+  course_name: string;
+  // Weekly contact minutes and credits that change hands.
+  minutes: number;
+  credits: number;
+  from: FacultyWorkload;
+  to: FacultyWorkload;
+}
+
+export const weeklyHours = (minutes: number) => Math.round((minutes / 60) * 10) / 10;
+
+export function workloadStatus(
+  row: Pick<FacultyWorkload, "weekly_minutes" | "credits" | "min_weekly_hours" | "max_weekly_hours" | "max_credits">,
+): WorkloadStatus {
+  if (row.weekly_minutes > row.max_weekly_hours * 60) return "overload";
+  if (row.max_credits !== null && row.credits > row.max_credits) return "overload";
+  if (row.weekly_minutes < row.min_weekly_hours * 60) return "underload";
+  return "balanced";
+}
+
+/**
+ * Proposes handing whole courses from overloaded faculty to colleagues in the
+ * course's department who are free in every one of its weekly slots and stay
+ * within their own limits. Underloaded colleagues are preferred, then the
+ * least loaded. Each suggestion accounts for the ones made before it.
+ */
+export function suggestReassignments(rows: FacultyWorkload[], entries: WorkloadEntry[]): ReassignmentSuggestion[] {
+  const load = new Map(rows.map((row) => [row.faculty_id, { ...row }]));
+  const schedule = entries.map((entry) => ({ ...entry }));
+  const suggestions: ReassignmentSuggestion[] = [];
+
+  const overloaded = rows
+    .filter((row) => workloadStatus(row) === "overload")
+    .sort((a, b) => b.weekly_minutes - b.max_weekly_hours * 60 - (a.weekly_minutes - a.max_weekly_hours * 60));
+
+  for (const { faculty_id } of overloaded) {
+    const from = load.get(faculty_id)!;
+    const courseIds = [...new Set(schedule.filter((e) => e.faculty_id === faculty_id).map((e) => e.course_id))];
+
+    for (const courseId of courseIds) {
+      if (workloadStatus(from) !== "overload") break;
+
+      const slots = schedule.filter((entry) => entry.course_id === courseId && entry.faculty_id === faculty_id);
+      const { courses } = slots[0];
+      const minutes = slots.reduce((sum, slot) => sum + toMinutes(slot.end_time) - toMinutes(slot.start_time), 0);
+
+      // Do not push the current teacher below their own minimum.
+      if (from.weekly_minutes - minutes < from.min_weekly_hours * 60) continue;
+
+      const to = [...load.values()]
+        .filter((candidate) => {
+          if (candidate.faculty_id === faculty_id || candidate.department !== courses.department) return false;
+          const after = {
+            ...candidate,
+            weekly_minutes: candidate.weekly_minutes + minutes,
+            credits: candidate.credits + courses.credits,
+          };
+          if (workloadStatus(after) === "overload") return false;
+          return slots.every(
+            (slot) => !findTimetableConflict(schedule, { ...slot, faculty_id: candidate.faculty_id }),
+          );
+        })
+        .sort(
+          (a, b) =>
+            Number(workloadStatus(b) === "underload") - Number(workloadStatus(a) === "underload") ||
+            a.weekly_minutes - b.weekly_minutes,
+        )[0];
+      if (!to) continue;
+
+      suggestions.push({
+        course_id: courseId,
+        course_code: courses.course_code,
+        course_name: courses.course_name,
+        minutes,
+        credits: courses.credits,
+        from: { ...from },
+        to: { ...to },
+      });
+
+      from.weekly_minutes -= minutes;
+      from.credits -= courses.credits;
+      to.weekly_minutes += minutes;
+      to.credits += courses.credits;
+      for (const slot of slots) slot.faculty_id = to.faculty_id;
+    }
+  }
+
+  return suggestions;
+}
+
+export function workloadCsv(rows: FacultyWorkload[], semester: string, academicYear: string): string {
+  return Papa.unparse(
+    rows.map((row) => ({
+      Semester: semester,
+      "Academic year": academicYear,
+      Faculty: row.name,
+      Email: row.email,
+      Department: row.department ?? "",
+      Courses: row.courses,
+      "Weekly sessions": row.sessions,
+      "Weekly hours": weeklyHours(row.weekly_minutes),
+      Credits: row.credits,
+      "Min hours": row.min_weekly_hours,
+      "Max hours": row.max_weekly_hours,
+      "Max credits": row.max_credits ?? "",
+      Status: workloadStatus(row),
+    })),
+  );
+}
@@ -1,12 +1,13 @@
 import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Location, useLocation, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { GraduationCap, Loader2, Eye, EyeOff } from "lucide-react";
+import { GraduationCap, Loader2, Eye, EyeOff, Mail, MailCheck } from "lucide-react";
+import { useSession } from "@/hooks/use-auth";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { z } from "zod";
@@ -15,7 +16,8 @@ const signUpSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   email: z.string().email("Invalid email address"),
   password: z.string().min(6, "Password must be at least 6 characters"),
-  role: z.enum(["student", "faculty", "admin"]),
+  requested_role: z.enum(["student", "faculty", "admin"]),
+  role_reason: z.string().optional(),
   department: z.string().min(2, "Department is required"),
   phone: z.string().optional()
 });
@@ -25,27 +27,42 @@ const signInSchema = z.object({
   password: z.string().min(6, "Password must be at least 6 characters")
 });
 
+const emailSchema = z.object({
+  email: z.string().email("Invalid email address")
+});
+
+// "tabs" is the sign in / sign up form; the others replace it while active
+type AuthView = "tabs" | "forgot" | "verify";
+
 const Auth = () => {
   const navigate = useNavigate();
+  const location = useLocation();
+  const { session } = useSession();
   const [loading, setLoading] = useState(false);
   const [showPassword, setShowPassword] = useState(false);
+  const [tab, setTab] = useState("signin");
+  const [view, setView] = useState<AuthView>("tabs");
+  // The address waiting for its confirmation link
+  const [unconfirmedEmail, setUnconfirmedEmail] = useState("");
   const [formData, setFormData] = useState({
     name: "",
     email: "",
     password: "",
-    role: "student" as "student" | "faculty" | "admin",
+    requested_role: "student" as "student" | "faculty" | "admin",
+    role_reason: "",
     department: "",
     phone: ""
   });
 
+  // Back to the page that sent the user here, or to their dashboard
+  const from = (location.state as { from?: Location } | null)?.from;
+  const returnTo = from ? `${from.pathname}${from.search}` : '/dashboard';
+
   useEffect(() => {
-    // Check if user is already authenticated
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      if (session) {
-        navigate('/dashboard');
-      }
-    });
-  }, [navigate]);
+    if (session) {
+      navigate(returnTo, { replace: true });
+    }
+  }, [session, returnTo, navigate]);
 
   const handleSignUp = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -55,14 +72,16 @@ const Auth = () => {
       // Validate form data
       const validatedData = signUpSchema.parse(formData);
       
-      const { error } = await supabase.auth.signUp({
+      const { data, error } = await supabase.auth.signUp({
         email: validatedData.email,
         password: validatedData.password,
         options: {
-          emailRedirectTo: `${window.location.origin}/`,
+          emailRedirectTo: `${window.location.origin}/dashboard`,
           data: {
             name: validatedData.name,
-            role: validatedData.role,
+            // Every account starts as a student; anything else becomes a request for an admin
+            requested_role: validatedData.requested_role,
+            role_reason: validatedData.role_reason,
             department: validatedData.department,
             phone: validatedData.phone
           }
@@ -75,16 +94,21 @@ const Auth = () => {
         } else {
           toast.error(error.message);
         }
+      } else if (data.user && data.user.identities?.length === 0) {
+        // Supabase hides existing accounts by returning a user without identities
+        toast.error("This email is already registered. Please try signing in instead.");
+        setTab("signin");
       } else {
-        toast.success("Account created successfully! Please check your email for verification.");
-        // Automatically sign in after successful signup
-        const { error: signInError } = await supabase.auth.signInWithPassword({
-          email: validatedData.email,
-          password: validatedData.password
-        });
-        
-        if (!signInError) {
-          navigate('/dashboard');
+        if (validatedData.requested_role !== "student") {
+          toast.info("You can use the app as a student until an administrator approves your role request.");
+        }
+        if (data.session) {
+          // Email confirmation is off, so the session effect takes over from here
+          toast.success("Account created successfully!");
+        } else {
+          toast.success("Account created! Please verify your email before signing in.");
+          setUnconfirmedEmail(validatedData.email);
+          setView("verify");
         }
       }
     } catch (error) {
@@ -115,14 +139,17 @@ const Auth = () => {
       });
 
       if (error) {
-        if (error.message.includes("Invalid login credentials")) {
+        if (error.code === "email_not_confirmed") {
+          toast.error("Please verify your email before signing in.");
+          setUnconfirmedEmail(validatedData.email);
+          setView("verify");
+        } else if (error.message.includes("Invalid login credentials")) {
           toast.error("Invalid email or password. Please check your credentials.");
         } else {
           toast.error(error.message);
         }
       } else {
         toast.success("Welcome back!");
-        navigate('/dashboard');
       }
     } catch (error) {
       if (error instanceof z.ZodError) {
@@ -135,6 +162,90 @@ const Auth = () => {
     }
   };
 
+  const handleMagicLink = async () => {
+    setLoading(true);
+
+    try {
+      const { email } = emailSchema.parse({ email: formData.email });
+
+      // Only existing accounts; sign-up needs the details from the other tab
+      const { error } = await supabase.auth.signInWithOtp({
+        email,
+        options: {
+          shouldCreateUser: false,
+          emailRedirectTo: `${window.location.origin}${returnTo}`
+        }
+      });
+
+      if (error) {
+        toast.error(error.message);
+      } else {
+        toast.success(`Check ${email} for a sign-in link.`);
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("An unexpected error occurred");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleForgotPassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setLoading(true);
+
+    try {
+      const { email } = emailSchema.parse({ email: formData.email });
+
+      const { error } = await supabase.auth.resetPasswordForEmail(email, {
+        redirectTo: `${window.location.origin}/reset-password`
+      });
+
+      if (error) {
+        toast.error(error.message);
+      } else {
+        // Worded the same whether or not the account exists
+        toast.success(`If ${email} has an account, a reset link is on its way.`);
+        setView("tabs");
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("An unexpected error occurred");
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleResendVerification = async () => {
+    setLoading(true);
+
+    const { error } = await supabase.auth.resend({
+      type: "signup",
+      email: unconfirmedEmail,
+      options: {
+        emailRedirectTo: `${window.location.origin}/dashboard`
+      }
+    });
+
+    if (error) {
+      toast.error(error.message);
+    } else {
+      toast.success(`Verification email sent to ${unconfirmedEmail}.`);
+    }
+    setLoading(false);
+  };
+
+  const backToSignIn = () => {
+    setTab("signin");
+    setView("tabs");
+  };
+
   const handleInputChange = (field: string, value: string) => {
     setFormData(prev => ({ ...prev, [field]: value }));
   };
@@ -163,157 +274,232 @@ const Auth = () => {
             </CardDescription>
           </CardHeader>
           <CardContent>
-            <Tabs defaultValue="signin" className="w-full">
-              <TabsList className="grid w-full grid-cols-2">
-                <TabsTrigger value="signin">Sign In</TabsTrigger>
-                <TabsTrigger value="signup">Sign Up</TabsTrigger>
-              </TabsList>
-
-              <TabsContent value="signin">
-                <form onSubmit={handleSignIn} className="space-y-4">
-                  <div>
-                    <Label htmlFor="signin-email">Email</Label>
-                    <Input
-                      id="signin-email"
-                      type="email"
-                      placeholder="Enter your email"
-                      value={formData.email}
-                      onChange={(e) => handleInputChange("email", e.target.value)}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="signin-password">Password</Label>
-                    <div className="relative">
+            {view === "verify" ? (
+              <div className="text-center space-y-4 py-4">
+                <MailCheck className="h-12 w-12 text-primary mx-auto" />
+                <div className="space-y-1">
+                  <p className="font-semibold">Verify your email</p>
+                  <p className="text-sm text-muted-foreground">
+                    We sent a confirmation link to {unconfirmedEmail}. Open it to activate your account, then sign in.
+                  </p>
+                </div>
+                <Button className="w-full" variant="outline" onClick={handleResendVerification} disabled={loading}>
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Resend Verification Email
+                </Button>
+                <Button className="w-full" variant="ghost" onClick={backToSignIn}>
+                  Back to Sign In
+                </Button>
+              </div>
+            ) : view === "forgot" ? (
+              <form onSubmit={handleForgotPassword} className="space-y-4">
+                <p className="text-sm text-muted-foreground">
+                  Enter the email you signed up with and we will send you a link to choose a new password.
+                </p>
+                <div>
+                  <Label htmlFor="forgot-email">Email</Label>
+                  <Input
+                    id="forgot-email"
+                    type="email"
+                    placeholder="Enter your email"
+                    value={formData.email}
+                    onChange={(e) => handleInputChange("email", e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={loading}>
+                  {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Send Reset Link
+                </Button>
+                <Button type="button" className="w-full" variant="ghost" onClick={backToSignIn}>
+                  Back to Sign In
+                </Button>
+              </form>
+            ) : (
+              <Tabs value={tab} onValueChange={setTab} className="w-full">
+                <TabsList className="grid w-full grid-cols-2">
+                  <TabsTrigger value="signin">Sign In</TabsTrigger>
+                  <TabsTrigger value="signup">Sign Up</TabsTrigger>
+                </TabsList>
+
+                <TabsContent value="signin">
+                  <form onSubmit={handleSignIn} className="space-y-4">
+                    <div>
+                      <Label htmlFor="signin-email">Email</Label>
+                      <Input
+                        id="signin-email"
+                        type="email"
+                        placeholder="Enter your email"
+                        value={formData.email}
+                        onChange={(e) => handleInputChange("email", e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <Label htmlFor="signin-password">Password</Label>
+                        <Button
+                          type="button"
+                          variant="link"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => setView("forgot")}
+                        >
+                          Forgot password?
+                        </Button>
+                      </div>
+                      <div className="relative">
+                        <Input
+                          id="signin-password"
+                          type={showPassword ? "text" : "password"}
+                          placeholder="Enter your password"
+                          value={formData.password}
+                          onChange={(e) => handleInputChange("password", e.target.value)}
+                          required
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                          onClick={() => setShowPassword(!showPassword)}
+                        >
+                          {showPassword ? (
+                            <EyeOff className="h-4 w-4" />
+                          ) : (
+                            <Eye className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={loading}
+                    >
+                      {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Sign In
+                    </Button>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      className="w-full"
+                      onClick={handleMagicLink}
+                      disabled={loading}
+                    >
+                      <Mail className="mr-2 h-4 w-4" />
+                      Email Me a Sign-in Link
+                    </Button>
+                  </form>
+                </TabsContent>
+
+                <TabsContent value="signup">
+                  <form onSubmit={handleSignUp} className="space-y-4">
+                    <div>
+                      <Label htmlFor="signup-name">Full Name</Label>
                       <Input
-                        id="signin-password"
-                        type={showPassword ? "text" : "password"}
-                        placeholder="Enter your password"
-                        value={formData.password}
-                        onChange={(e) => handleInputChange("password", e.target.value)}
+                        id="signup-name"
+                        type="text"
+                        placeholder="Enter your full name"
+                        value={formData.name}
+                        onChange={(e) => handleInputChange("name", e.target.value)}
                         required
                       />
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
-                        onClick={() => setShowPassword(!showPassword)}
-                      >
-                        {showPassword ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
-                      </Button>
                     </div>
-                  </div>
-                  <Button 
-                    type="submit" 
-                    className="w-full" 
-                    disabled={loading}
-                  >
-                    {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Sign In
-                  </Button>
-                </form>
-              </TabsContent>
-
-              <TabsContent value="signup">
-                <form onSubmit={handleSignUp} className="space-y-4">
-                  <div>
-                    <Label htmlFor="signup-name">Full Name</Label>
-                    <Input
-                      id="signup-name"
-                      type="text"
-                      placeholder="Enter your full name"
-                      value={formData.name}
-                      onChange={(e) => handleInputChange("name", e.target.value)}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="signup-email">Email</Label>
-                    <Input
-                      id="signup-email"
-                      type="email"
-                      placeholder="Enter your email"
-                      value={formData.email}
-                      onChange={(e) => handleInputChange("email", e.target.value)}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="signup-password">Password</Label>
-                    <div className="relative">
+                    <div>
+                      <Label htmlFor="signup-email">Email</Label>
                       <Input
-                        id="signup-password"
-                        type={showPassword ? "text" : "password"}
-                        placeholder="Create a password (min. 6 characters)"
-                        value={formData.password}
-                        onChange={(e) => handleInputChange("password", e.target.value)}
+                        id="signup-email"
+                        type="email"
+                        placeholder="Enter your email"
+                        value={formData.email}
+                        onChange={(e) => handleInputChange("email", e.target.value)}
                         required
                       />
-                      <Button
-                        type="button"
-                        variant="ghost"
-                        size="sm"
-                        className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
-                        onClick={() => setShowPassword(!showPassword)}
-                      >
-                        {showPassword ? (
-                          <EyeOff className="h-4 w-4" />
-                        ) : (
-                          <Eye className="h-4 w-4" />
-                        )}
-                      </Button>
                     </div>
-                  </div>
-                  <div>
-                    <Label htmlFor="signup-role">Role</Label>
-                    <Select value={formData.role} onValueChange={(value: "student" | "faculty" | "admin") => handleInputChange("role", value)}>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Select your role" />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="student">Student</SelectItem>
-                        <SelectItem value="faculty">Faculty</SelectItem>
-                        <SelectItem value="admin">Administrator</SelectItem>
-                      </SelectContent>
-                    </Select>
-                  </div>
-                  <div>
-                    <Label htmlFor="signup-department">Department</Label>
-                    <Input
-                      id="signup-department"
-                      type="text"
-                      placeholder="Enter your department"
-                      value={formData.department}
-                      onChange={(e) => handleInputChange("department", e.target.value)}
-                      required
-                    />
-                  </div>
-                  <div>
-                    <Label htmlFor="signup-phone">Phone (Optional)</Label>
-                    <Input
-                      id="signup-phone"
-                      type="tel"
-                      placeholder="Enter your phone number"
-                      value={formData.phone}
-                      onChange={(e) => handleInputChange("phone", e.target.value)}
-                    />
-                  </div>
-                  <Button 
-                    type="submit" 
-                    className="w-full" 
-                    disabled={loading}
-                  >
-                    {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
-                    Create Account
-                  </Button>
-                </form>
-              </TabsContent>
-            </Tabs>
+                    <div>
+                      <Label htmlFor="signup-password">Password</Label>
+                      <div className="relative">
+                        <Input
+                          id="signup-password"
+                          type={showPassword ? "text" : "password"}
+                          placeholder="Create a password (min. 6 characters)"
+                          value={formData.password}
+                          onChange={(e) => handleInputChange("password", e.target.value)}
+                          required
+                        />
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="absolute right-0 top-0 h-full px-3 hover:bg-transparent"
+                          onClick={() => setShowPassword(!showPassword)}
+                        >
+                          {showPassword ? (
+                            <EyeOff className="h-4 w-4" />
+                          ) : (
+                            <Eye className="h-4 w-4" />
+                          )}
+                        </Button>
+                      </div>
+                    </div>
+                    <div>
+                      <Label htmlFor="signup-role">Role</Label>
+                      <Select value={formData.requested_role} onValueChange={(value: "student" | "faculty" | "admin") => handleInputChange("requested_role", value)}>
+                        <SelectTrigger id="signup-role">
+                          <SelectValue placeholder="Select your role" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="student">Student</SelectItem>
+                          <SelectItem value="faculty">Faculty (needs approval)</SelectItem>
+                          <SelectItem value="admin">Administrator (needs approval)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {formData.requested_role !== "student" && (
+                      <div>
+                        <Label htmlFor="signup-role-reason">Why do you need this role? (Optional)</Label>
+                        <Input
+                          id="signup-role-reason"
+                          type="text"
+                          placeholder="e.g. Lecturer in Computer Science"
+                          value={formData.role_reason}
+                          onChange={(e) => handleInputChange("role_reason", e.target.value)}
+                        />
+                      </div>
+                    )}
+                    <div>
+                      <Label htmlFor="signup-department">Department</Label>
+                      <Input
+                        id="signup-department"
+                        type="text"
+                        placeholder="Enter your department"
+                        value={formData.department}
+                        onChange={(e) => handleInputChange("department", e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div>
+                      <Label htmlFor="signup-phone">Phone (Optional)</Label>
+                      <Input
+                        id="signup-phone"
+                        type="tel"
+                        placeholder="Enter your phone number"
+                        value={formData.phone}
+                        onChange={(e) => handleInputChange("phone", e.target.value)}
+                      />
+                    </div>
+                    <Button 
+                      type="submit" 
+                      className="w-full" 
+                      disabled={loading}
+                    >
+                      {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                      Create Account
+                    </Button>
+                  </form>
+                </TabsContent>
+              </Tabs>
+            )}
           </CardContent>
         </Card>
 
@@ -0,0 +1,113 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { CheckCircle2, GraduationCap, Loader2, XCircle } from "lucide-react";
+import QrScanner from "@/components/dashboard/QrScanner";
+import { tokenFromScan, useCheckIn } from "@/hooks/use-attendance";
+
+const CheckIn = () => {
+  const navigate = useNavigate();
+  const [searchParams] = useSearchParams();
+  const [code, setCode] = useState("");
+  const checkIn = useCheckIn();
+  const lastToken = useRef("");
+
+  const { mutate } = checkIn;
+  const linkToken = searchParams.get("token") ?? "";
+
+  const submit = useCallback(
+    (token: string) => {
+      // The scanner reports the same code many times a second.
+      if (!token || token === lastToken.current) return;
+      lastToken.current = token;
+      mutate(token);
+    },
+    [mutate],
+  );
+
+  // Opened from a phone camera app with the token already in the link
+  useEffect(() => {
+    submit(linkToken);
+  }, [linkToken, submit]);
+
+  const scanAgain = () => {
+    lastToken.current = "";
+    setCode("");
+    checkIn.reset();
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-secondary flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center space-x-2 mb-4">
+            <GraduationCap className="h-10 w-10 text-primary" />
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Smart Classroom
+            </h1>
+          </div>
+        </div>
+
+        <Card className="shadow-elegant border-0">
+          <CardHeader className="text-center">
+            <CardTitle>Class Check-in</CardTitle>
+            <CardDescription>Scan the code shown by your lecturer</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {checkIn.isPending ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : checkIn.isSuccess ? (
+              <div className="text-center space-y-2 py-4">
+                <CheckCircle2 className="h-12 w-12 text-success mx-auto" />
+                <p className="font-semibold">You are checked in</p>
+                {checkIn.data && (
+                  <p className="text-sm text-muted-foreground">
+                    {checkIn.data.course_code} - {checkIn.data.course_name}
+                  </p>
+                )}
+              </div>
+            ) : checkIn.isError ? (
+              <div className="text-center space-y-4 py-4">
+                <XCircle className="h-12 w-12 text-destructive mx-auto" />
+                <p className="text-sm">{checkIn.error.message}</p>
+                <Button variant="outline" onClick={scanAgain}>
+                  Scan again
+                </Button>
+              </div>
+            ) : (
+              <>
+                <QrScanner onScan={(text) => submit(tokenFromScan(text))} />
+                <form
+                  className="flex space-x-2"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    submit(tokenFromScan(code));
+                  }}
+                >
+                  <Input
+                    placeholder="Or paste the check-in link"
+                    aria-label="Check-in code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value)}
+                  />
+                  <Button type="submit" disabled={!code.trim()}>
+                    Check in
+                  </Button>
+                </form>
+              </>
+            )}
+            <Button variant="ghost" className="w-full" onClick={() => navigate("/dashboard")}>
+              Back to dashboard
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default CheckIn;
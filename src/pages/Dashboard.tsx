@@ -1,130 +1,55 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { Navigate, useNavigate, useParams } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { 
-  CalendarDays, 
-  Users, 
-  Building, 
   GraduationCap, 
   LogOut, 
   Settings, 
-  Bell,
-  Clock,
-  MapPin,
-  User
+  Clock
 } from "lucide-react";
 import { Label } from "@/components/ui/label";
+import AcademicCalendar from "@/components/dashboard/AcademicCalendar";
+import AttendanceRollCall from "@/components/dashboard/AttendanceRollCall";
+import AttendanceSummary from "@/components/dashboard/AttendanceSummary";
+import CalendarFeeds from "@/components/dashboard/CalendarFeeds";
+import ClassroomManager from "@/components/dashboard/ClassroomManager";
+import CourseCatalog from "@/components/dashboard/CourseCatalog";
+import CourseEnrollment from "@/components/dashboard/CourseEnrollment";
+import FacultyPreferences from "@/components/dashboard/FacultyPreferences";
+import FeedbackTickets from "@/components/dashboard/FeedbackTickets";
+import FeedbackTriage from "@/components/dashboard/FeedbackTriage";
+import ImportWizard from "@/components/dashboard/ImportWizard";
+import NotificationBell from "@/components/dashboard/NotificationBell";
+import ProfileAvatar from "@/components/dashboard/ProfileAvatar";
+import QuickStats from "@/components/dashboard/QuickStats";
+import RoleRequestNotice from "@/components/dashboard/RoleRequestNotice";
+import RoleRequests from "@/components/dashboard/RoleRequests";
+import RoomBookings from "@/components/dashboard/RoomBookings";
+import RoomFinder from "@/components/dashboard/RoomFinder";
+import SectionManager from "@/components/dashboard/SectionManager";
+import SessionPlanner from "@/components/dashboard/SessionPlanner";
+import TimetableGenerator from "@/components/dashboard/TimetableGenerator";
+import TimetablePrint from "@/components/dashboard/TimetablePrint";
+import TodaySchedule from "@/components/dashboard/TodaySchedule";
+import UserManagement from "@/components/dashboard/UserManagement";
+import WeeklyTimetable from "@/components/dashboard/WeeklyTimetable";
+import WorkloadReport from "@/components/dashboard/WorkloadReport";
+import { roleHome, useProfile, useSession } from "@/hooks/use-auth";
 import { supabase } from "@/integrations/supabase/client";
+import { cn } from "@/lib/utils";
 import { toast } from "sonner";
-import { User as SupabaseUser } from "@supabase/supabase-js";
 
-interface Profile {
-  id: string;
-  name: string;
-  email: string;
-  role: 'student' | 'faculty' | 'admin';
-  department: string;
-  phone?: string;
-}
-
-interface TimetableEntry {
-  id: string;
-  day_of_week: string;
-  start_time: string;
-  end_time: string;
-  courses: {
-    course_code: string;
-    course_name: string;
-  };
-  classrooms: {
-    room_name: string;
-    location: string;
-  };
-  profiles: {
-    name: string;
-  };
-}
+const TABS = ['schedule', 'calendar', 'classrooms', 'courses', 'attendance', 'feedback', 'profile'];
+const ADMIN_TABS = [...TABS, 'users'];
 
 const Dashboard = () => {
   const navigate = useNavigate();
-  const [user, setUser] = useState<SupabaseUser | null>(null);
-  const [profile, setProfile] = useState<Profile | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [timetable, setTimetable] = useState<TimetableEntry[]>([]);
-
-  useEffect(() => {
-    // Check authentication and get user profile
-    const getUser = async () => {
-      const { data: { session } } = await supabase.auth.getSession();
-      
-      if (!session) {
-        navigate('/auth');
-        return;
-      }
-
-      setUser(session.user);
-      
-      // Fetch user profile
-      const { data: profileData, error } = await supabase
-        .from('profiles')
-        .select('*')
-        .eq('user_id', session.user.id)
-        .single();
-
-      if (error) {
-        console.error('Error fetching profile:', error);
-        toast.error('Failed to load profile');
-      } else {
-        setProfile(profileData);
-      }
-
-      // Fetch sample timetable data
-      const { data: timetableData, error: timetableError } = await supabase
-        .from('timetable')
-        .select(`
-          id,
-          day_of_week,
-          start_time,
-          end_time,
-          courses!timetable_course_id_fkey (
-            course_code,
-            course_name
-          ),
-          classrooms!timetable_room_id_fkey (
-            room_name,
-            location
-          ),
-          profiles!timetable_faculty_id_fkey (
-            name
-          )
-        `)
-        .limit(10);
-
-      if (timetableError) {
-        console.error('Error fetching timetable:', timetableError);
-      } else {
-        setTimetable(timetableData || []);
-      }
-
-      setLoading(false);
-    };
-
-    getUser();
-
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        if (event === 'SIGNED_OUT' || !session) {
-          navigate('/auth');
-        }
-      }
-    );
-
-    return () => subscription.unsubscribe();
-  }, [navigate]);
+  const { tab = 'schedule' } = useParams();
+  const { user } = useSession();
+  // RequireRole has already loaded the profile by the time this renders
+  const { data: profile } = useProfile();
 
   const handleSignOut = async () => {
     const { error } = await supabase.auth.signOut();
@@ -145,15 +70,8 @@ const Dashboard = () => {
     }
   };
 
-  if (loading) {
-    return (
-      <div className="min-h-screen bg-gradient-secondary flex items-center justify-center">
-        <div className="text-center">
-          <GraduationCap className="h-12 w-12 text-primary mx-auto mb-4 animate-spin" />
-          <p className="text-muted-foreground">Loading your dashboard...</p>
-        </div>
-      </div>
-    );
+  if (profile && !(profile.role === 'admin' ? ADMIN_TABS : TABS).includes(tab)) {
+    return <Navigate to={roleHome(profile.role)} replace />;
   }
 
   return (
@@ -168,10 +86,8 @@ const Dashboard = () => {
             </h1>
           </div>
           <div className="flex items-center space-x-4">
-            <Button variant="ghost" size="sm">
-              <Bell className="h-4 w-4" />
-            </Button>
-            <Button variant="ghost" size="sm">
+            {profile && <NotificationBell profileId={profile.id} />}
+            <Button variant="ghost" size="sm" onClick={() => navigate('/settings')} aria-label="Account settings">
               <Settings className="h-4 w-4" />
             </Button>
             <Button variant="ghost" size="sm" onClick={handleSignOut}>
@@ -215,148 +131,66 @@ const Dashboard = () => {
         </div>
 
         {/* Quick Stats */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-6 mb-8">
-          <Card className="shadow-card">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Today's Classes</CardTitle>
-              <CalendarDays className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">5</div>
-              <p className="text-xs text-muted-foreground">
-                +2 from yesterday
-              </p>
-            </CardContent>
-          </Card>
-          
-          <Card className="shadow-card">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Available Rooms</CardTitle>
-              <Building className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">12</div>
-              <p className="text-xs text-muted-foreground">
-                Out of 15 total
-              </p>
-            </CardContent>
-          </Card>
-
-          <Card className="shadow-card">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Active Faculty</CardTitle>
-              <Users className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">24</div>
-              <p className="text-xs text-muted-foreground">
-                Currently teaching
-              </p>
-            </CardContent>
-          </Card>
-
-          <Card className="shadow-card">
-            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
-              <CardTitle className="text-sm font-medium">Departments</CardTitle>
-              <GraduationCap className="h-4 w-4 text-muted-foreground" />
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">8</div>
-              <p className="text-xs text-muted-foreground">
-                Active departments
-              </p>
-            </CardContent>
-          </Card>
-        </div>
+        {profile && <QuickStats profileId={profile.id} />}
 
         {/* Main Content */}
-        <Tabs defaultValue="schedule" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-4">
+        <Tabs
+          value={tab}
+          onValueChange={(value) => profile && navigate(`${roleHome(profile.role)}/${value}`)}
+          className="space-y-6"
+        >
+          <TabsList className={cn("grid w-full", profile?.role === 'admin' ? "grid-cols-8" : "grid-cols-7")}>
             <TabsTrigger value="schedule">My Schedule</TabsTrigger>
+            <TabsTrigger value="calendar">Calendar</TabsTrigger>
             <TabsTrigger value="classrooms">Classrooms</TabsTrigger>
             <TabsTrigger value="courses">Courses</TabsTrigger>
+            <TabsTrigger value="attendance">Attendance</TabsTrigger>
+            <TabsTrigger value="feedback">Feedback</TabsTrigger>
             <TabsTrigger value="profile">Profile</TabsTrigger>
+            {profile?.role === 'admin' && <TabsTrigger value="users">Users</TabsTrigger>}
           </TabsList>
 
           <TabsContent value="schedule" className="space-y-6">
-            <Card className="shadow-card">
-              <CardHeader>
-                <CardTitle>Today's Schedule</CardTitle>
-                <CardDescription>
-                  Your classes and events for today
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                {timetable.length > 0 ? (
-                  <div className="space-y-4">
-                    {timetable.slice(0, 3).map((entry) => (
-                      <div key={entry.id} className="flex items-center justify-between p-4 border rounded-lg">
-                        <div className="flex items-center space-x-4">
-                          <div className="w-12 h-12 bg-gradient-primary rounded-lg flex items-center justify-center">
-                            <CalendarDays className="h-6 w-6 text-white" />
-                          </div>
-                          <div>
-                            <h4 className="font-semibold">{entry.courses?.course_name}</h4>
-                            <p className="text-sm text-muted-foreground">
-                              {entry.courses?.course_code} • {entry.profiles?.name}
-                            </p>
-                          </div>
-                        </div>
-                        <div className="text-right">
-                          <div className="flex items-center space-x-2 text-sm">
-                            <Clock className="h-4 w-4" />
-                            <span>{entry.start_time} - {entry.end_time}</span>
-                          </div>
-                          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
-                            <MapPin className="h-4 w-4" />
-                            <span>{entry.classrooms?.room_name}</span>
-                          </div>
-                        </div>
-                      </div>
-                    ))}
-                  </div>
-                ) : (
-                  <div className="text-center py-8">
-                    <CalendarDays className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                    <p className="text-muted-foreground">No classes scheduled for today</p>
-                  </div>
-                )}
-              </CardContent>
-            </Card>
+            {profile && <TodaySchedule profile={profile} />}
+            {profile && <WeeklyTimetable canEdit={profile.role !== 'student'} />}
+
+            {profile?.role === 'admin' && <TimetableGenerator />}
+            {profile?.role === 'admin' && <WorkloadReport />}
+            {profile?.role === 'admin' && <ImportWizard />}
+            {profile && profile.role !== 'student' && <TimetablePrint />}
+          </TabsContent>
+
+          <TabsContent value="calendar" className="space-y-6">
+            {profile && profile.role !== 'student' && <SessionPlanner profile={profile} />}
+            <AcademicCalendar canManage={profile?.role === 'admin'} />
           </TabsContent>
 
           <TabsContent value="classrooms" className="space-y-6">
-            <Card className="shadow-card">
-              <CardHeader>
-                <CardTitle>Classroom Status</CardTitle>
-                <CardDescription>
-                  Current availability of classrooms
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8">
-                  <Building className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                  <p className="text-muted-foreground">Classroom management features coming soon</p>
-                </div>
-              </CardContent>
-            </Card>
+            <RoomFinder />
+            <ClassroomManager canManage={profile?.role === 'admin'} />
+            {profile && (
+              <RoomBookings
+                profileId={profile.id}
+                canRequest={profile.role === 'admin' || profile.role === 'faculty'}
+                canApprove={profile.role === 'admin'}
+              />
+            )}
           </TabsContent>
 
           <TabsContent value="courses" className="space-y-6">
-            <Card className="shadow-card">
-              <CardHeader>
-                <CardTitle>Course Management</CardTitle>
-                <CardDescription>
-                  Manage your courses and curriculum
-                </CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="text-center py-8">
-                  <GraduationCap className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
-                  <p className="text-muted-foreground">Course management features coming soon</p>
-                </div>
-              </CardContent>
-            </Card>
+            <CourseCatalog canManage={profile?.role === 'admin'} />
+            {profile?.role === 'student' && <CourseEnrollment studentId={profile.id} />}
+            {profile?.role === 'admin' && <SectionManager />}
+          </TabsContent>
+
+          <TabsContent value="attendance" className="space-y-6">
+            {profile && profile.role !== 'student' && <AttendanceRollCall profile={profile} />}
+            {profile && <AttendanceSummary isStudent={profile.role === 'student'} />}
+          </TabsContent>
+
+          <TabsContent value="feedback" className="space-y-6">
+            {profile?.role === 'admin' && <FeedbackTriage profileId={profile.id} />}
+            {profile && user && profile.role !== 'admin' && <FeedbackTickets userId={user.id} profileId={profile.id} />}
           </TabsContent>
 
           <TabsContent value="profile" className="space-y-6">
@@ -371,13 +205,14 @@ const Dashboard = () => {
                 {profile && (
                   <div className="space-y-4">
                     <div className="flex items-center space-x-4 p-4 border rounded-lg">
-                      <div className="w-12 h-12 bg-gradient-primary rounded-full flex items-center justify-center">
-                        <User className="h-6 w-6 text-white" />
-                      </div>
-                      <div>
+                      <ProfileAvatar profile={profile} />
+                      <div className="flex-1">
                         <h3 className="font-semibold">{profile.name}</h3>
                         <p className="text-sm text-muted-foreground">{profile.email}</p>
                       </div>
+                      <Button variant="outline" size="sm" onClick={() => navigate('/settings')}>
+                        Edit Profile
+                      </Button>
                     </div>
                     <div className="grid grid-cols-2 gap-4">
                       <div>
@@ -399,7 +234,17 @@ const Dashboard = () => {
                 )}
               </CardContent>
             </Card>
+            {profile && <RoleRequestNotice profileId={profile.id} />}
+            {profile?.role === 'faculty' && <FacultyPreferences profileId={profile.id} />}
+            {profile && <CalendarFeeds profileId={profile.id} profileName={profile.name} />}
           </TabsContent>
+
+          {profile?.role === 'admin' && (
+            <TabsContent value="users" className="space-y-6">
+              <RoleRequests />
+              <UserManagement currentProfileId={profile.id} />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
@@ -1,31 +1,13 @@
-import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { CalendarDays, Users, Building, GraduationCap, Clock, Star } from "lucide-react";
-import { supabase } from "@/integrations/supabase/client";
-import { User } from "@supabase/supabase-js";
+import { useSession } from "@/hooks/use-auth";
 import { useNavigate } from "react-router-dom";
 
 const Index = () => {
-  const [user, setUser] = useState<User | null>(null);
+  const { user } = useSession();
   const navigate = useNavigate();
 
-  useEffect(() => {
-    // Get initial session
-    supabase.auth.getSession().then(({ data: { session } }) => {
-      setUser(session?.user ?? null);
-    });
-
-    // Listen for auth changes
-    const { data: { subscription } } = supabase.auth.onAuthStateChange(
-      (event, session) => {
-        setUser(session?.user ?? null);
-      }
-    );
-
-    return () => subscription.unsubscribe();
-  }, []);
-
   const handleGetStarted = () => {
     if (user) {
       navigate('/dashboard');
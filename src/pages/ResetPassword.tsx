@@ -0,0 +1,123 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GraduationCap, Loader2, XCircle } from "lucide-react";
+import AuthLoading from "@/components/auth/AuthLoading";
+import { useSession } from "@/hooks/use-auth";
+import { supabase } from "@/integrations/supabase/client";
+import { passwordResetSchema } from "@/lib/schemas";
+import { toast } from "sonner";
+import { z } from "zod";
+
+// Supabase reports an expired or used link in the URL fragment instead of signing in.
+const linkError = () => new URLSearchParams(window.location.hash.slice(1)).get("error_description");
+
+const ResetPassword = () => {
+  const navigate = useNavigate();
+  const { session, loading, passwordRecovery } = useSession();
+  const [error] = useState(linkError);
+  const [saving, setSaving] = useState(false);
+  const [passwords, setPasswords] = useState({ new_password: "", confirm_password: "" });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setSaving(true);
+
+    try {
+      const { new_password } = passwordResetSchema.parse(passwords);
+      const { error: updateError } = await supabase.auth.updateUser({ password: new_password });
+
+      if (updateError) {
+        toast.error(updateError.message);
+      } else {
+        toast.success("Your password has been reset");
+        navigate("/dashboard", { replace: true });
+      }
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        toast.error(error.errors[0].message);
+      } else {
+        toast.error("An unexpected error occurred");
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) return <AuthLoading message="Checking your reset link..." />;
+
+  // Saving the password ends recovery mode; keep the form until we navigate away
+  const valid = !error && session && (passwordRecovery || saving);
+
+  return (
+    <div className="min-h-screen bg-gradient-secondary flex items-center justify-center p-4">
+      <div className="w-full max-w-md">
+        <div className="text-center mb-8">
+          <div className="flex items-center justify-center space-x-2 mb-4">
+            <GraduationCap className="h-10 w-10 text-primary" />
+            <h1 className="text-3xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Smart Classroom
+            </h1>
+          </div>
+        </div>
+
+        <Card className="shadow-elegant border-0">
+          <CardHeader className="text-center">
+            <CardTitle>Reset Password</CardTitle>
+            <CardDescription>
+              {valid ? `Choose a new password for ${session.user.email}` : "This link cannot be used"}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {valid ? (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div>
+                  <Label htmlFor="reset-password">New Password</Label>
+                  <Input
+                    id="reset-password"
+                    type="password"
+                    autoComplete="new-password"
+                    placeholder="At least 6 characters"
+                    value={passwords.new_password}
+                    onChange={(e) => setPasswords({ ...passwords, new_password: e.target.value })}
+                    required
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="reset-confirm-password">Confirm Password</Label>
+                  <Input
+                    id="reset-confirm-password"
+                    type="password"
+                    autoComplete="new-password"
+                    value={passwords.confirm_password}
+                    onChange={(e) => setPasswords({ ...passwords, confirm_password: e.target.value })}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={saving}>
+                  {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Set New Password
+                </Button>
+              </form>
+            ) : (
+              <div className="text-center space-y-4 py-4">
+                <XCircle className="h-12 w-12 text-destructive mx-auto" />
+                <p className="text-sm text-muted-foreground">
+                  {error ?? "The reset link is invalid or has expired."} Request a new one from the sign-in page.
+                </p>
+                <Button className="w-full" onClick={() => navigate("/auth")}>
+                  Back to Sign In
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default ResetPassword;
@@ -0,0 +1,50 @@
+import { useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { ArrowLeft, GraduationCap } from "lucide-react";
+import AuthLoading from "@/components/auth/AuthLoading";
+import PreferenceSettings from "@/components/settings/PreferenceSettings";
+import ProfileSettings from "@/components/settings/ProfileSettings";
+import SecuritySettings from "@/components/settings/SecuritySettings";
+import { roleHome, useProfile } from "@/hooks/use-auth";
+
+const Settings = () => {
+  const navigate = useNavigate();
+  const { data: profile, isLoading } = useProfile();
+
+  if (isLoading || !profile) {
+    return <AuthLoading message="Loading your settings..." />;
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-secondary">
+      {/* Header */}
+      <header className="border-b bg-background/95 backdrop-blur supports-[backdrop-filter]:bg-background/60">
+        <div className="container mx-auto px-4 py-4 flex justify-between items-center">
+          <div className="flex items-center space-x-2">
+            <GraduationCap className="h-8 w-8 text-primary" />
+            <h1 className="text-2xl font-bold bg-gradient-primary bg-clip-text text-transparent">
+              Smart Classroom
+            </h1>
+          </div>
+          <Button variant="ghost" size="sm" onClick={() => navigate(`${roleHome(profile.role)}/profile`)}>
+            <ArrowLeft className="mr-2 h-4 w-4" />
+            Back to Dashboard
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-4 py-8 max-w-3xl space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold mb-2">Account Settings</h1>
+          <p className="text-muted-foreground">Manage your profile, sign-in details and display preferences</p>
+        </div>
+
+        <ProfileSettings profile={profile} />
+        <PreferenceSettings profile={profile} />
+        <SecuritySettings />
+      </div>
+    </div>
+  );
+};
+
+export default Settings;
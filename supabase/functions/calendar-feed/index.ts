@@ -0,0 +1,29 @@
+// Public iCalendar feed. Calendar apps cannot sign in, so the secret token in
+// the URL is the only credential; revoking the feed makes this return 404.
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+const supabase = createClient(Deno.env.get("SUPABASE_URL")!, Deno.env.get("SUPABASE_ANON_KEY")!);
+
+Deno.serve(async (req) => {
+  const token = new URL(req.url).searchParams.get("token");
+  if (!token) {
+    return new Response("Missing feed token", { status: 400 });
+  }
+
+  const { data, error } = await supabase.rpc("calendar_feed", { _token: token });
+  if (error) {
+    console.error("Error building calendar feed:", error);
+    return new Response("Could not build the calendar", { status: 500 });
+  }
+  if (!data) {
+    return new Response("This calendar feed does not exist or has been revoked", { status: 404 });
+  }
+
+  return new Response(data, {
+    headers: {
+      "Content-Type": "text/calendar; charset=utf-8",
+      "Content-Disposition": 'inline; filename="timetable.ics"',
+      "Cache-Control": "private, max-age=900",
+    },
+  });
+});
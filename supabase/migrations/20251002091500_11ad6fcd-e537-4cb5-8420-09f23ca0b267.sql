@@ -0,0 +1,133 @@
+-- Course assignments: which faculty member teaches a course in a given term
+CREATE TABLE public.course_assignments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+    faculty_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    semester TEXT NOT NULL,
+    academic_year TEXT NOT NULL,
+    expected_students INTEGER NOT NULL DEFAULT 30 CHECK (expected_students > 0),
+    required_equipment TEXT[] NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(course_id, semester, academic_year)
+);
+
+-- Generated timetables are stored as drafts until an admin commits them
+CREATE TABLE public.timetable_drafts (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    semester TEXT NOT NULL,
+    academic_year TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'committed', 'discarded')),
+    settings JSONB NOT NULL DEFAULT '{}',
+    unscheduled JSONB NOT NULL DEFAULT '[]',
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    committed_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE TABLE public.timetable_draft_entries (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    draft_id UUID NOT NULL REFERENCES public.timetable_drafts(id) ON DELETE CASCADE,
+    course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+    faculty_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    room_id UUID NOT NULL REFERENCES public.classrooms(id) ON DELETE CASCADE,
+    day_of_week TEXT NOT NULL CHECK (day_of_week IN ('Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday')),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_draft_time_range CHECK (end_time > start_time)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.course_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.timetable_drafts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.timetable_draft_entries ENABLE ROW LEVEL SECURITY;
+
+-- Course assignments policies
+CREATE POLICY "Anyone can view course assignments"
+ON public.course_assignments FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage course assignments"
+ON public.course_assignments FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Drafts are only visible to admins until committed into the timetable
+CREATE POLICY "Admins can manage timetable drafts"
+ON public.timetable_drafts FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+CREATE POLICY "Admins can manage timetable draft entries"
+ON public.timetable_draft_entries FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Replace the semester's timetable with the rows of a reviewed draft
+CREATE OR REPLACE FUNCTION public.commit_timetable_draft(_draft_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    _draft public.timetable_drafts%ROWTYPE;
+    _inserted INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only administrators can commit timetable drafts'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _draft FROM public.timetable_drafts WHERE id = _draft_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Timetable draft % not found', _draft_id;
+    END IF;
+
+    IF _draft.status <> 'draft' THEN
+        RAISE EXCEPTION 'Timetable draft % has already been %', _draft_id, _draft.status;
+    END IF;
+
+    DELETE FROM public.timetable
+    WHERE semester = _draft.semester AND academic_year = _draft.academic_year;
+
+    INSERT INTO public.timetable (course_id, faculty_id, room_id, day_of_week, start_time, end_time, semester, academic_year)
+    SELECT course_id, faculty_id, room_id, day_of_week, start_time, end_time, _draft.semester, _draft.academic_year
+    FROM public.timetable_draft_entries
+    WHERE draft_id = _draft_id;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+    UPDATE public.timetable_drafts
+    SET status = 'committed', committed_at = NOW()
+    WHERE id = _draft_id;
+
+    RETURN _inserted;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Create triggers for updating timestamps
+CREATE TRIGGER update_course_assignments_updated_at
+    BEFORE UPDATE ON public.course_assignments
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_timetable_drafts_updated_at
+    BEFORE UPDATE ON public.timetable_drafts
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_course_assignments_term ON public.course_assignments(semester, academic_year);
+CREATE INDEX idx_course_assignments_faculty_id ON public.course_assignments(faculty_id);
+CREATE INDEX idx_timetable_drafts_term ON public.timetable_drafts(semester, academic_year);
+CREATE INDEX idx_timetable_draft_entries_draft_id ON public.timetable_draft_entries(draft_id);
+CREATE INDEX idx_timetable_term ON public.timetable(semester, academic_year);
@@ -0,0 +1,82 @@
+-- Enable equality operators for GiST so uuid/text columns can join a range exclusion
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+-- Range type over TIME for class periods within a day
+CREATE TYPE public.timerange AS RANGE (subtype = time);
+
+-- Report double bookings with the clashing course, room and faculty member.
+-- The exclusion constraints below remain the backstop for concurrent writes.
+CREATE OR REPLACE FUNCTION public.check_timetable_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+    _clash RECORD;
+BEGIN
+    SELECT
+        t.id,
+        t.day_of_week,
+        t.start_time,
+        t.end_time,
+        c.course_code,
+        c.course_name,
+        r.room_name,
+        p.name AS faculty_name,
+        CASE WHEN t.room_id = NEW.room_id THEN 'room' ELSE 'faculty' END AS kind
+    INTO _clash
+    FROM public.timetable t
+    JOIN public.courses c ON c.id = t.course_id
+    JOIN public.classrooms r ON r.id = t.room_id
+    JOIN public.profiles p ON p.id = t.faculty_id
+    WHERE t.id <> NEW.id
+      AND t.semester = NEW.semester
+      AND t.academic_year = NEW.academic_year
+      AND t.day_of_week = NEW.day_of_week
+      AND (t.room_id = NEW.room_id OR t.faculty_id = NEW.faculty_id)
+      AND t.start_time < NEW.end_time
+      AND NEW.start_time < t.end_time
+    ORDER BY (t.room_id = NEW.room_id) DESC, t.start_time
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Timetable % conflict with % on % %-%',
+            _clash.kind, _clash.course_code, _clash.day_of_week, _clash.start_time, _clash.end_time
+            USING ERRCODE = '23P01',
+                  CONSTRAINT = 'timetable_' || _clash.kind || '_no_overlap',
+                  DETAIL = json_build_object(
+                      'kind', _clash.kind,
+                      'timetable_id', _clash.id,
+                      'day_of_week', _clash.day_of_week,
+                      'start_time', _clash.start_time,
+                      'end_time', _clash.end_time,
+                      'course_code', _clash.course_code,
+                      'course_name', _clash.course_name,
+                      'room_name', _clash.room_name,
+                      'faculty_name', _clash.faculty_name
+                  )::text;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER check_timetable_conflicts
+    BEFORE INSERT OR UPDATE ON public.timetable
+    FOR EACH ROW EXECUTE FUNCTION public.check_timetable_conflicts();
+
+-- A room or faculty member cannot be in two overlapping periods on the same day of a term
+ALTER TABLE public.timetable
+    ADD CONSTRAINT timetable_room_no_overlap EXCLUDE USING gist (
+        room_id WITH =,
+        semester WITH =,
+        academic_year WITH =,
+        day_of_week WITH =,
+        public.timerange(start_time, end_time) WITH &&
+    );
+
+ALTER TABLE public.timetable
+    ADD CONSTRAINT timetable_faculty_no_overlap EXCLUDE USING gist (
+        faculty_id WITH =,
+        semester WITH =,
+        academic_year WITH =,
+        day_of_week WITH =,
+        public.timerange(start_time, end_time) WITH &&
+    );
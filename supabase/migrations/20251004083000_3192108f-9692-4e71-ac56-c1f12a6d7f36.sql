@@ -0,0 +1,65 @@
+-- Classes the current user attends or teaches on a given weekday.
+-- Faculty count what they teach, students their department's courses,
+-- admins every class in the institution.
+CREATE OR REPLACE FUNCTION public.count_user_classes(_day TEXT)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.timetable t
+    JOIN public.courses c ON c.id = t.course_id
+    JOIN public.profiles me ON me.user_id = auth.uid()
+    WHERE t.day_of_week = _day
+      AND CASE me.role
+          WHEN 'faculty' THEN t.faculty_id = me.id
+          WHEN 'student' THEN c.department = me.department
+          ELSE true
+      END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Figures for the dashboard Quick Stats cards. _at is the caller's local
+-- time so "today" and "right now" match what the user sees on screen.
+CREATE OR REPLACE FUNCTION public.dashboard_stats(_at TIMESTAMP DEFAULT LOCALTIMESTAMP)
+RETURNS TABLE (
+    today_classes INTEGER,
+    yesterday_classes INTEGER,
+    available_rooms INTEGER,
+    total_rooms INTEGER,
+    faculty_teaching_now INTEGER,
+    faculty_teaching_today INTEGER,
+    departments INTEGER
+) AS $$
+    WITH clock AS (
+        SELECT
+            to_char(_at, 'FMDay') AS today,
+            to_char(_at - INTERVAL '1 day', 'FMDay') AS yesterday,
+            _at::TIME AS now_time
+    ),
+    running AS (
+        SELECT t.room_id, t.faculty_id
+        FROM public.timetable t, clock
+        WHERE t.day_of_week = clock.today
+          AND t.start_time <= clock.now_time
+          AND clock.now_time < t.end_time
+    )
+    SELECT
+        public.count_user_classes(clock.today),
+        public.count_user_classes(clock.yesterday),
+        (
+            SELECT COUNT(*)::INTEGER FROM public.classrooms r
+            WHERE COALESCE(r.availability_status, true)
+              AND r.id NOT IN (SELECT room_id FROM running)
+        ),
+        (SELECT COUNT(*)::INTEGER FROM public.classrooms),
+        (SELECT COUNT(DISTINCT faculty_id)::INTEGER FROM running),
+        (
+            SELECT COUNT(DISTINCT t.faculty_id)::INTEGER FROM public.timetable t
+            WHERE t.day_of_week = clock.today
+        ),
+        (
+            SELECT COUNT(DISTINCT department)::INTEGER FROM (
+                SELECT department FROM public.courses
+                UNION
+                SELECT department FROM public.profiles WHERE department IS NOT NULL AND department <> ''
+            ) d
+        )
+    FROM clock;
+$$ LANGUAGE sql STABLE SET search_path = public;
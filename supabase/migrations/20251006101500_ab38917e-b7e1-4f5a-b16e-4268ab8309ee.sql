@@ -0,0 +1,246 @@
+-- Create enrollment status enum
+CREATE TYPE enrollment_status AS ENUM ('enrolled', 'waitlisted', 'dropped');
+
+-- Course sections: a course offered in a term, seated in a classroom
+CREATE TABLE public.course_sections (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    course_id UUID NOT NULL REFERENCES public.courses(id) ON DELETE CASCADE,
+    section_code TEXT NOT NULL,
+    semester TEXT NOT NULL,
+    academic_year TEXT NOT NULL,
+    room_id UUID REFERENCES public.classrooms(id) ON DELETE SET NULL,
+    capacity INTEGER CHECK (capacity > 0), -- Optional cap below the room's capacity
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(course_id, section_code, semester, academic_year)
+);
+
+-- Enrollments: a student's place (or waitlist spot) in a section
+CREATE TABLE public.enrollments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    section_id UUID NOT NULL REFERENCES public.course_sections(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    status enrollment_status NOT NULL DEFAULT 'enrolled',
+    waitlisted_at TIMESTAMP WITH TIME ZONE,
+    dropped_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(section_id, student_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.course_sections ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.enrollments ENABLE ROW LEVEL SECURITY;
+
+-- Course sections policies
+CREATE POLICY "Anyone can view course sections"
+ON public.course_sections FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage course sections"
+ON public.course_sections FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Enrollments policies. Students add and drop through enroll_in_section and
+-- drop_enrollment so capacity and waitlist order are always enforced.
+CREATE POLICY "Students can view their own enrollments"
+ON public.enrollments FOR SELECT USING (
+    student_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Faculty and admins can view enrollments"
+ON public.enrollments FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role IN ('admin', 'faculty')
+    )
+);
+
+CREATE POLICY "Admins can manage enrollments"
+ON public.enrollments FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Seats a section offers: its own cap, limited by the room it is taught in
+CREATE OR REPLACE FUNCTION public.section_capacity(_section_id UUID)
+RETURNS INTEGER AS $$
+    SELECT LEAST(
+        COALESCE(s.capacity, r.capacity),
+        COALESCE(r.capacity, s.capacity)
+    )
+    FROM public.course_sections s
+    LEFT JOIN public.classrooms r ON r.id = s.room_id
+    WHERE s.id = _section_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Seat counts for every section of a term, visible to everyone
+CREATE OR REPLACE FUNCTION public.section_availability(_semester TEXT, _academic_year TEXT)
+RETURNS TABLE (
+    section_id UUID,
+    capacity INTEGER,
+    enrolled_count INTEGER,
+    waitlisted_count INTEGER
+) AS $$
+    SELECT
+        s.id,
+        public.section_capacity(s.id),
+        COUNT(e.id) FILTER (WHERE e.status = 'enrolled')::INTEGER,
+        COUNT(e.id) FILTER (WHERE e.status = 'waitlisted')::INTEGER
+    FROM public.course_sections s
+    LEFT JOIN public.enrollments e ON e.section_id = s.id
+    WHERE s.semester = _semester AND s.academic_year = _academic_year
+    GROUP BY s.id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Enroll the calling student, or waitlist them when the section is full
+CREATE OR REPLACE FUNCTION public.enroll_in_section(_section_id UUID)
+RETURNS public.enrollments AS $$
+DECLARE
+    _student_id UUID;
+    _section public.course_sections%ROWTYPE;
+    _capacity INTEGER;
+    _enrolled INTEGER;
+    _status enrollment_status;
+    _result public.enrollments%ROWTYPE;
+BEGIN
+    SELECT id INTO _student_id FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'student';
+
+    IF _student_id IS NULL THEN
+        RAISE EXCEPTION 'Only students can enroll in courses' USING ERRCODE = '42501';
+    END IF;
+
+    -- Lock the section so concurrent requests cannot oversubscribe it
+    SELECT * INTO _section FROM public.course_sections WHERE id = _section_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Section % not found', _section_id;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.enrollments e
+        JOIN public.course_sections s ON s.id = e.section_id
+        WHERE e.student_id = _student_id
+          AND e.status <> 'dropped'
+          AND s.course_id = _section.course_id
+          AND s.semester = _section.semester
+          AND s.academic_year = _section.academic_year
+          AND s.id <> _section_id
+    ) THEN
+        RAISE EXCEPTION 'You are already in another section of this course' USING ERRCODE = '23505';
+    END IF;
+
+    _capacity := public.section_capacity(_section_id);
+
+    SELECT COUNT(*) INTO _enrolled FROM public.enrollments
+    WHERE section_id = _section_id AND status = 'enrolled' AND student_id <> _student_id;
+
+    _status := CASE WHEN _capacity IS NULL OR _enrolled < _capacity THEN 'enrolled' ELSE 'waitlisted' END;
+
+    INSERT INTO public.enrollments (section_id, student_id, status, waitlisted_at)
+    VALUES (_section_id, _student_id, _status, CASE WHEN _status = 'waitlisted' THEN NOW() END)
+    ON CONFLICT (section_id, student_id) DO UPDATE
+        SET status = EXCLUDED.status,
+            waitlisted_at = EXCLUDED.waitlisted_at,
+            dropped_at = NULL
+        WHERE public.enrollments.status = 'dropped'
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'You are already registered for this section' USING ERRCODE = '23505';
+    END IF;
+
+    RETURN _result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Drop an enrollment and promote the longest-waiting student into the seat
+CREATE OR REPLACE FUNCTION public.drop_enrollment(_enrollment_id UUID)
+RETURNS public.enrollments AS $$
+DECLARE
+    _enrollment public.enrollments%ROWTYPE;
+    _next_id UUID;
+BEGIN
+    SELECT e.* INTO _enrollment FROM public.enrollments e
+    WHERE e.id = _enrollment_id
+      AND (
+          e.student_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+          OR EXISTS (SELECT 1 FROM public.profiles WHERE user_id = auth.uid() AND role = 'admin')
+      )
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Enrollment % not found', _enrollment_id;
+    END IF;
+
+    IF _enrollment.status = 'dropped' THEN
+        RETURN _enrollment;
+    END IF;
+
+    PERFORM 1 FROM public.course_sections WHERE id = _enrollment.section_id FOR UPDATE;
+
+    UPDATE public.enrollments
+    SET status = 'dropped', dropped_at = NOW(), waitlisted_at = NULL
+    WHERE id = _enrollment_id
+    RETURNING * INTO _enrollment;
+
+    SELECT id INTO _next_id FROM public.enrollments
+    WHERE section_id = _enrollment.section_id AND status = 'waitlisted'
+    ORDER BY waitlisted_at
+    LIMIT 1;
+
+    IF _next_id IS NOT NULL AND (
+        SELECT COUNT(*) FROM public.enrollments
+        WHERE section_id = _enrollment.section_id AND status = 'enrolled'
+    ) < COALESCE(public.section_capacity(_enrollment.section_id), 2147483647) THEN
+        UPDATE public.enrollments
+        SET status = 'enrolled', waitlisted_at = NULL
+        WHERE id = _next_id;
+    END IF;
+
+    RETURN _enrollment;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Students now count the classes of the sections they are enrolled in
+CREATE OR REPLACE FUNCTION public.count_user_classes(_day TEXT)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.timetable t
+    JOIN public.profiles me ON me.user_id = auth.uid()
+    WHERE t.day_of_week = _day
+      AND CASE me.role
+          WHEN 'faculty' THEN t.faculty_id = me.id
+          WHEN 'student' THEN EXISTS (
+              SELECT 1 FROM public.enrollments e
+              JOIN public.course_sections s ON s.id = e.section_id
+              WHERE e.student_id = me.id
+                AND e.status = 'enrolled'
+                AND s.course_id = t.course_id
+                AND s.semester = t.semester
+                AND s.academic_year = t.academic_year
+          )
+          ELSE true
+      END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Create triggers for updating timestamps
+CREATE TRIGGER update_course_sections_updated_at
+    BEFORE UPDATE ON public.course_sections
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_enrollments_updated_at
+    BEFORE UPDATE ON public.enrollments
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_course_sections_term ON public.course_sections(semester, academic_year);
+CREATE INDEX idx_course_sections_course_id ON public.course_sections(course_id);
+CREATE INDEX idx_enrollments_student_id ON public.enrollments(student_id);
+CREATE INDEX idx_enrollments_section_status ON public.enrollments(section_id, status);
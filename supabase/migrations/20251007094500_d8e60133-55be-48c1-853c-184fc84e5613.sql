@@ -0,0 +1,77 @@
+-- Controlled vocabulary for classroom equipment
+CREATE TABLE public.equipment_types (
+    code TEXT PRIMARY KEY CHECK (code ~ '^[a-z][a-z0-9_]*$'),
+    label TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+INSERT INTO public.equipment_types (code, label) VALUES
+('projector', 'Projector'),
+('whiteboard', 'Whiteboard'),
+('smart_board', 'Smart board'),
+('air_conditioning', 'Air conditioning'),
+('audio_system', 'Audio system'),
+('sound_system', 'Sound system'),
+('microphones', 'Microphones'),
+('computers', 'Computers'),
+('stage', 'Stage');
+
+-- Keep anything already recorded on rooms valid
+INSERT INTO public.equipment_types (code, label)
+SELECT DISTINCT item, initcap(replace(item, '_', ' '))
+FROM public.classrooms, unnest(equipment) AS item
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE public.equipment_types ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view equipment types"
+ON public.equipment_types FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage equipment types"
+ON public.equipment_types FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Maintenance details for rooms taken out of service
+ALTER TABLE public.classrooms
+    ADD COLUMN maintenance_reason TEXT,
+    ADD COLUMN maintenance_until DATE;
+
+UPDATE public.classrooms
+SET maintenance_reason = remarks
+WHERE availability_status = false;
+
+-- Reject equipment outside the vocabulary and clear maintenance details on return
+CREATE OR REPLACE FUNCTION public.validate_classroom()
+RETURNS TRIGGER AS $$
+DECLARE
+    _unknown TEXT;
+BEGIN
+    SELECT item INTO _unknown
+    FROM unnest(COALESCE(NEW.equipment, '{}')) AS item
+    WHERE item NOT IN (SELECT code FROM public.equipment_types)
+    LIMIT 1;
+
+    IF _unknown IS NOT NULL THEN
+        RAISE EXCEPTION 'Unknown equipment type "%"', _unknown
+            USING ERRCODE = '23514';
+    END IF;
+
+    IF COALESCE(NEW.availability_status, true) THEN
+        NEW.maintenance_reason := NULL;
+        NEW.maintenance_until := NULL;
+    ELSIF NULLIF(trim(NEW.maintenance_reason), '') IS NULL THEN
+        RAISE EXCEPTION 'A reason is required when a room is put under maintenance'
+            USING ERRCODE = '23514';
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER validate_classroom
+    BEFORE INSERT OR UPDATE ON public.classrooms
+    FOR EACH ROW EXECUTE FUNCTION public.validate_classroom();
@@ -0,0 +1,8 @@
+-- Archived courses stay in the catalog for history but are no longer offered
+ALTER TABLE public.courses
+    ADD COLUMN archived_at TIMESTAMP WITH TIME ZONE;
+
+-- Course codes are unique regardless of case ("cs101" clashes with "CS101")
+CREATE UNIQUE INDEX courses_course_code_upper_key ON public.courses (upper(course_code));
+
+CREATE INDEX idx_courses_department ON public.courses(department);
@@ -0,0 +1,49 @@
+-- Rooms that are in service, fit the group, carry the required equipment and
+-- have no overlapping timetable row in the window. Best capacity fit first.
+-- Leave the term empty to check against every term in the timetable.
+CREATE OR REPLACE FUNCTION public.find_available_rooms(
+    _day TEXT,
+    _start_time TIME,
+    _end_time TIME,
+    _min_capacity INTEGER DEFAULT 1,
+    _equipment TEXT[] DEFAULT '{}',
+    _semester TEXT DEFAULT NULL,
+    _academic_year TEXT DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    room_name TEXT,
+    location TEXT,
+    capacity INTEGER,
+    equipment TEXT[],
+    spare_seats INTEGER
+) AS $$
+BEGIN
+    IF _end_time <= _start_time THEN
+        RAISE EXCEPTION 'End time must be after start time' USING ERRCODE = '22007';
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        r.id,
+        r.room_name,
+        r.location,
+        r.capacity,
+        r.equipment,
+        r.capacity - COALESCE(_min_capacity, 1)
+    FROM public.classrooms r
+    WHERE COALESCE(r.availability_status, true)
+      AND r.capacity >= COALESCE(_min_capacity, 1)
+      AND COALESCE(r.equipment, '{}') @> COALESCE(_equipment, '{}')
+      AND NOT EXISTS (
+          SELECT 1 FROM public.timetable t
+          WHERE t.room_id = r.id
+            AND t.day_of_week = _day
+            AND t.start_time < _end_time
+            AND _start_time < t.end_time
+            AND (_semester IS NULL OR t.semester = _semester)
+            AND (_academic_year IS NULL OR t.academic_year = _academic_year)
+      )
+    ORDER BY r.capacity - COALESCE(_min_capacity, 1), r.room_name;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
@@ -0,0 +1,264 @@
+-- Create booking enums
+CREATE TYPE booking_status AS ENUM ('pending', 'approved', 'rejected', 'cancelled');
+CREATE TYPE booking_kind AS ENUM ('exam', 'seminar', 'makeup_class', 'event', 'other');
+
+-- One-off, date-specific room reservations outside the recurring timetable
+CREATE TABLE public.room_bookings (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    room_id UUID NOT NULL REFERENCES public.classrooms(id) ON DELETE CASCADE,
+    requested_by UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    title TEXT NOT NULL,
+    kind booking_kind NOT NULL DEFAULT 'other',
+    booking_date DATE NOT NULL,
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    expected_attendees INTEGER CHECK (expected_attendees > 0),
+    status booking_status NOT NULL DEFAULT 'pending',
+    decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_booking_time_range CHECK (end_time > start_time),
+    -- Two approved bookings can never share a room at the same time
+    CONSTRAINT room_bookings_no_overlap EXCLUDE USING gist (
+        room_id WITH =,
+        booking_date WITH =,
+        public.timerange(start_time, end_time) WITH &&
+    ) WHERE (status = 'approved')
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.room_bookings ENABLE ROW LEVEL SECURITY;
+
+-- Room bookings policies
+CREATE POLICY "Anyone can view approved bookings"
+ON public.room_bookings FOR SELECT USING (status = 'approved');
+
+CREATE POLICY "Users can view their own booking requests"
+ON public.room_bookings FOR SELECT USING (
+    requested_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Faculty and admins can request bookings"
+ON public.room_bookings FOR INSERT WITH CHECK (
+    status = 'pending'
+    AND requested_by IN (
+        SELECT id FROM public.profiles
+        WHERE user_id = auth.uid() AND role IN ('admin', 'faculty')
+    )
+);
+
+CREATE POLICY "Admins can manage bookings"
+ON public.room_bookings FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Reject bookings that clash with the recurring timetable or an approved booking
+CREATE OR REPLACE FUNCTION public.check_room_booking_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+    _class RECORD;
+    _booking RECORD;
+BEGIN
+    IF NEW.status NOT IN ('pending', 'approved') THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.classrooms
+        WHERE id = NEW.room_id AND availability_status = false
+    ) THEN
+        RAISE EXCEPTION 'This room is under maintenance' USING ERRCODE = '23514';
+    END IF;
+
+    SELECT t.id, t.day_of_week, t.start_time, t.end_time, c.course_code, c.course_name, r.room_name, p.name AS faculty_name
+    INTO _class
+    FROM public.timetable t
+    JOIN public.courses c ON c.id = t.course_id
+    JOIN public.classrooms r ON r.id = t.room_id
+    JOIN public.profiles p ON p.id = t.faculty_id
+    WHERE t.room_id = NEW.room_id
+      AND t.day_of_week = to_char(NEW.booking_date, 'FMDay')
+      AND t.start_time < NEW.end_time
+      AND NEW.start_time < t.end_time
+    ORDER BY t.start_time
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Booking clashes with % on %', _class.course_code, _class.day_of_week
+            USING ERRCODE = '23P01',
+                  DETAIL = json_build_object(
+                      'kind', 'room',
+                      'timetable_id', _class.id,
+                      'day_of_week', _class.day_of_week,
+                      'start_time', _class.start_time,
+                      'end_time', _class.end_time,
+                      'course_code', _class.course_code,
+                      'course_name', _class.course_name,
+                      'room_name', _class.room_name,
+                      'faculty_name', _class.faculty_name
+                  )::text;
+    END IF;
+
+    SELECT b.id, b.title, b.booking_date, b.start_time, b.end_time, r.room_name
+    INTO _booking
+    FROM public.room_bookings b
+    JOIN public.classrooms r ON r.id = b.room_id
+    WHERE b.id <> NEW.id
+      AND b.room_id = NEW.room_id
+      AND b.booking_date = NEW.booking_date
+      AND b.status = 'approved'
+      AND b.start_time < NEW.end_time
+      AND NEW.start_time < b.end_time
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Booking clashes with approved booking %', _booking.title
+            USING ERRCODE = '23P01',
+                  DETAIL = json_build_object(
+                      'kind', 'booking',
+                      'booking_id', _booking.id,
+                      'booking_title', _booking.title,
+                      'booking_date', _booking.booking_date,
+                      'start_time', _booking.start_time,
+                      'end_time', _booking.end_time,
+                      'room_name', _booking.room_name
+                  )::text;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_room_booking_conflicts
+    BEFORE INSERT OR UPDATE OF room_id, booking_date, start_time, end_time, status ON public.room_bookings
+    FOR EACH ROW EXECUTE FUNCTION public.check_room_booking_conflicts();
+
+-- Approve or reject a pending request (admins only)
+CREATE OR REPLACE FUNCTION public.decide_room_booking(_booking_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS public.room_bookings AS $$
+DECLARE
+    _admin_id UUID;
+    _result public.room_bookings%ROWTYPE;
+BEGIN
+    SELECT id INTO _admin_id FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin';
+
+    IF _admin_id IS NULL THEN
+        RAISE EXCEPTION 'Only administrators can decide booking requests' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.room_bookings
+    SET status = CASE WHEN _approve THEN 'approved'::booking_status ELSE 'rejected'::booking_status END,
+        decided_by = _admin_id,
+        decided_at = NOW(),
+        decision_note = NULLIF(trim(_note), '')
+    WHERE id = _booking_id AND status = 'pending'
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Booking % is not pending', _booking_id;
+    END IF;
+
+    RETURN _result;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Requesters withdraw their own pending or approved bookings
+CREATE OR REPLACE FUNCTION public.cancel_room_booking(_booking_id UUID)
+RETURNS public.room_bookings AS $$
+DECLARE
+    _result public.room_bookings%ROWTYPE;
+BEGIN
+    UPDATE public.room_bookings
+    SET status = 'cancelled'
+    WHERE id = _booking_id
+      AND status IN ('pending', 'approved')
+      AND requested_by IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Booking % cannot be cancelled', _booking_id;
+    END IF;
+
+    RETURN _result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Free rooms can now also be checked against approved bookings on a date
+DROP FUNCTION public.find_available_rooms(TEXT, TIME, TIME, INTEGER, TEXT[], TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.find_available_rooms(
+    _day TEXT,
+    _start_time TIME,
+    _end_time TIME,
+    _min_capacity INTEGER DEFAULT 1,
+    _equipment TEXT[] DEFAULT '{}',
+    _semester TEXT DEFAULT NULL,
+    _academic_year TEXT DEFAULT NULL,
+    _date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    room_name TEXT,
+    location TEXT,
+    capacity INTEGER,
+    equipment TEXT[],
+    spare_seats INTEGER
+) AS $$
+BEGIN
+    IF _end_time <= _start_time THEN
+        RAISE EXCEPTION 'End time must be after start time' USING ERRCODE = '22007';
+    END IF;
+
+    IF _date IS NOT NULL THEN
+        _day := to_char(_date, 'FMDay');
+    END IF;
+
+    RETURN QUERY
+    SELECT
+        r.id,
+        r.room_name,
+        r.location,
+        r.capacity,
+        r.equipment,
+        r.capacity - COALESCE(_min_capacity, 1)
+    FROM public.classrooms r
+    WHERE COALESCE(r.availability_status, true)
+      AND r.capacity >= COALESCE(_min_capacity, 1)
+      AND COALESCE(r.equipment, '{}') @> COALESCE(_equipment, '{}')
+      AND NOT EXISTS (
+          SELECT 1 FROM public.timetable t
+          WHERE t.room_id = r.id
+            AND t.day_of_week = _day
+            AND t.start_time < _end_time
+            AND _start_time < t.end_time
+            AND (_semester IS NULL OR t.semester = _semester)
+            AND (_academic_year IS NULL OR t.academic_year = _academic_year)
+      )
+      AND NOT EXISTS (
+          SELECT 1 FROM public.room_bookings b
+          WHERE _date IS NOT NULL
+            AND b.room_id = r.id
+            AND b.booking_date = _date
+            AND b.status = 'approved'
+            AND b.start_time < _end_time
+            AND _start_time < b.end_time
+      )
+    ORDER BY r.capacity - COALESCE(_min_capacity, 1), r.room_name;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Create triggers for updating timestamps
+CREATE TRIGGER update_room_bookings_updated_at
+    BEFORE UPDATE ON public.room_bookings
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_room_bookings_room_date ON public.room_bookings(room_id, booking_date);
+CREATE INDEX idx_room_bookings_requested_by ON public.room_bookings(requested_by);
+CREATE INDEX idx_room_bookings_status ON public.room_bookings(status);
@@ -0,0 +1,305 @@
+-- Create calendar enums
+CREATE TYPE calendar_event_kind AS ENUM ('holiday', 'exam_period', 'break', 'event');
+CREATE TYPE session_exception_kind AS ENUM ('cancelled', 'rescheduled');
+
+-- Teaching dates of each term the timetable refers to
+CREATE TABLE public.academic_terms (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    semester TEXT NOT NULL,
+    academic_year TEXT NOT NULL,
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_term_range CHECK (end_date >= start_date),
+    UNIQUE(semester, academic_year)
+);
+
+-- Holidays, exam weeks and other dated periods; classes do not run on
+-- days covered by an event that suspends classes
+CREATE TABLE public.calendar_events (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    title TEXT NOT NULL,
+    kind calendar_event_kind NOT NULL DEFAULT 'holiday',
+    start_date DATE NOT NULL,
+    end_date DATE NOT NULL,
+    suspends_classes BOOLEAN NOT NULL DEFAULT true,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_event_range CHECK (end_date >= start_date)
+);
+
+-- One-off changes to a single dated occurrence of a timetable entry
+CREATE TABLE public.session_exceptions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    timetable_id UUID NOT NULL REFERENCES public.timetable(id) ON DELETE CASCADE,
+    session_date DATE NOT NULL,
+    kind session_exception_kind NOT NULL,
+    new_date DATE,
+    new_start_time TIME,
+    new_end_time TIME,
+    new_room_id UUID REFERENCES public.classrooms(id) ON DELETE SET NULL,
+    reason TEXT,
+    created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_reschedule CHECK (
+        kind = 'cancelled'
+        OR (new_date IS NOT NULL AND new_start_time IS NOT NULL AND new_end_time > new_start_time)
+    ),
+    UNIQUE(timetable_id, session_date)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.academic_terms ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.calendar_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.session_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Academic terms policies
+CREATE POLICY "Anyone can view academic terms"
+ON public.academic_terms FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage academic terms"
+ON public.academic_terms FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Calendar events policies
+CREATE POLICY "Anyone can view calendar events"
+ON public.calendar_events FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage calendar events"
+ON public.calendar_events FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Session exceptions policies
+CREATE POLICY "Anyone can view session exceptions"
+ON public.session_exceptions FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage session exceptions"
+ON public.session_exceptions FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+CREATE POLICY "Faculty can manage exceptions for their own classes"
+ON public.session_exceptions FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.timetable t
+        JOIN public.profiles p ON p.id = t.faculty_id
+        WHERE t.id = timetable_id AND p.user_id = auth.uid()
+    )
+);
+
+-- Concrete dated sessions for a date range: the weekly pattern limited to
+-- each term's dates (terms without calendar dates run every week), with
+-- holidays, cancellations and reschedules applied. status is one of
+--   scheduled   - the class runs as in the weekly timetable
+--   rescheduled - a moved class on its new date, time or room
+--   moved       - the original slot of a rescheduled class
+--   cancelled   - called off for this date only
+--   suspended   - falls on a holiday or exam period
+CREATE OR REPLACE FUNCTION public.expand_timetable(_from DATE, _to DATE)
+RETURNS TABLE (
+    session_date DATE,
+    timetable_id UUID,
+    course_id UUID,
+    faculty_id UUID,
+    room_id UUID,
+    start_time TIME,
+    end_time TIME,
+    semester TEXT,
+    academic_year TEXT,
+    status TEXT,
+    original_date DATE,
+    note TEXT,
+    course_code TEXT,
+    course_name TEXT,
+    room_name TEXT,
+    location TEXT,
+    faculty_name TEXT
+) AS $$
+BEGIN
+    IF _to < _from THEN
+        RAISE EXCEPTION 'The end of the range must not be before its start' USING ERRCODE = '22007';
+    END IF;
+
+    IF _to - _from > 366 THEN
+        RAISE EXCEPTION 'Sessions can be expanded for at most one year at a time' USING ERRCODE = '22023';
+    END IF;
+
+    RETURN QUERY
+    WITH days AS (
+        SELECT d::DATE AS day
+        FROM generate_series(_from, _to, INTERVAL '1 day') d
+    ),
+    pattern AS (
+        SELECT days.day, t.id, t.course_id, t.faculty_id, t.room_id, t.start_time, t.end_time, t.semester, t.academic_year
+        FROM days
+        JOIN public.timetable t ON t.day_of_week = to_char(days.day, 'FMDay')
+        LEFT JOIN public.academic_terms term
+            ON term.semester = t.semester AND term.academic_year = t.academic_year
+        WHERE term.id IS NULL OR days.day BETWEEN term.start_date AND term.end_date
+    ),
+    sessions AS (
+        SELECT
+            p.day,
+            p.id,
+            p.course_id,
+            p.faculty_id,
+            p.room_id,
+            p.start_time,
+            p.end_time,
+            p.semester,
+            p.academic_year,
+            CASE
+                WHEN x.kind = 'cancelled' THEN 'cancelled'
+                WHEN x.kind = 'rescheduled' THEN 'moved'
+                WHEN ev.title IS NOT NULL THEN 'suspended'
+                ELSE 'scheduled'
+            END,
+            NULL::DATE,
+            COALESCE(x.reason, ev.title)
+        FROM pattern p
+        LEFT JOIN public.session_exceptions x
+            ON x.timetable_id = p.id AND x.session_date = p.day
+        LEFT JOIN LATERAL (
+            SELECT e.title FROM public.calendar_events e
+            WHERE e.suspends_classes AND p.day BETWEEN e.start_date AND e.end_date
+            ORDER BY e.start_date
+            LIMIT 1
+        ) ev ON true
+        UNION ALL
+        SELECT
+            x.new_date,
+            t.id,
+            t.course_id,
+            t.faculty_id,
+            COALESCE(x.new_room_id, t.room_id),
+            x.new_start_time,
+            x.new_end_time,
+            t.semester,
+            t.academic_year,
+            'rescheduled',
+            x.session_date,
+            x.reason
+        FROM public.session_exceptions x
+        JOIN public.timetable t ON t.id = x.timetable_id
+        WHERE x.kind = 'rescheduled'
+          AND x.new_date BETWEEN _from AND _to
+    )
+    SELECT
+        s.day,
+        s.id,
+        s.course_id,
+        s.faculty_id,
+        s.room_id,
+        s.start_time,
+        s.end_time,
+        s.semester,
+        s.academic_year,
+        s.status,
+        s.original_date,
+        s.note,
+        c.course_code,
+        c.course_name,
+        r.room_name,
+        r.location,
+        f.name
+    FROM sessions s (day, id, course_id, faculty_id, room_id, start_time, end_time, semester, academic_year, status, original_date, note)
+    JOIN public.courses c ON c.id = s.course_id
+    JOIN public.classrooms r ON r.id = s.room_id
+    JOIN public.profiles f ON f.id = s.faculty_id
+    ORDER BY s.day, s.start_time, c.course_code;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Classes the current user attends or teaches on a date, now taking
+-- holidays and one-off changes into account
+DROP FUNCTION public.count_user_classes(TEXT);
+
+CREATE OR REPLACE FUNCTION public.count_user_classes(_date DATE)
+RETURNS INTEGER AS $$
+    SELECT COUNT(*)::INTEGER
+    FROM public.expand_timetable(_date, _date) s
+    JOIN public.profiles me ON me.user_id = auth.uid()
+    WHERE s.status IN ('scheduled', 'rescheduled')
+      AND CASE me.role
+          WHEN 'faculty' THEN s.faculty_id = me.id
+          WHEN 'student' THEN EXISTS (
+              SELECT 1 FROM public.enrollments e
+              JOIN public.course_sections cs ON cs.id = e.section_id
+              WHERE e.student_id = me.id
+                AND e.status = 'enrolled'
+                AND cs.course_id = s.course_id
+                AND cs.semester = s.semester
+                AND cs.academic_year = s.academic_year
+          )
+          ELSE true
+      END;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.dashboard_stats(_at TIMESTAMP DEFAULT LOCALTIMESTAMP)
+RETURNS TABLE (
+    today_classes INTEGER,
+    yesterday_classes INTEGER,
+    available_rooms INTEGER,
+    total_rooms INTEGER,
+    faculty_teaching_now INTEGER,
+    faculty_teaching_today INTEGER,
+    departments INTEGER
+) AS $$
+    WITH today AS (
+        SELECT s.room_id, s.faculty_id, s.start_time, s.end_time
+        FROM public.expand_timetable(_at::DATE, _at::DATE) s
+        WHERE s.status IN ('scheduled', 'rescheduled')
+    ),
+    running AS (
+        SELECT room_id, faculty_id FROM today
+        WHERE start_time <= _at::TIME AND _at::TIME < end_time
+    )
+    SELECT
+        public.count_user_classes(_at::DATE),
+        public.count_user_classes((_at - INTERVAL '1 day')::DATE),
+        (
+            SELECT COUNT(*)::INTEGER FROM public.classrooms r
+            WHERE COALESCE(r.availability_status, true)
+              AND r.id NOT IN (SELECT room_id FROM running)
+        ),
+        (SELECT COUNT(*)::INTEGER FROM public.classrooms),
+        (SELECT COUNT(DISTINCT faculty_id)::INTEGER FROM running),
+        (SELECT COUNT(DISTINCT faculty_id)::INTEGER FROM today),
+        (
+            SELECT COUNT(DISTINCT department)::INTEGER FROM (
+                SELECT department FROM public.courses
+                UNION
+                SELECT department FROM public.profiles WHERE department IS NOT NULL AND department <> ''
+            ) d
+        );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Create triggers for updating timestamps
+CREATE TRIGGER update_academic_terms_updated_at
+    BEFORE UPDATE ON public.academic_terms
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_calendar_events_updated_at
+    BEFORE UPDATE ON public.calendar_events
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_session_exceptions_updated_at
+    BEFORE UPDATE ON public.session_exceptions
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_calendar_events_dates ON public.calendar_events(start_date, end_date);
+CREATE INDEX idx_session_exceptions_new_date ON public.session_exceptions(new_date) WHERE kind = 'rescheduled';
@@ -0,0 +1,210 @@
+-- Create calendar feed scope enum
+CREATE TYPE calendar_feed_scope AS ENUM ('user', 'room', 'course');
+
+-- Secret, revocable URLs calendar apps poll for a timetable in iCalendar form
+CREATE TABLE public.calendar_feeds (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    scope calendar_feed_scope NOT NULL DEFAULT 'user',
+    scope_id UUID NOT NULL,
+    label TEXT NOT NULL,
+    token TEXT NOT NULL UNIQUE DEFAULT replace(gen_random_uuid()::text || gen_random_uuid()::text, '-', ''),
+    last_accessed_at TIMESTAMP WITH TIME ZONE,
+    revoked_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+-- Calendar feeds policies
+CREATE POLICY "Users can view their own calendar feeds"
+ON public.calendar_feeds FOR SELECT USING (
+    profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- Personal feeds can only be created for the user's own timetable
+CREATE POLICY "Users can create their own calendar feeds"
+ON public.calendar_feeds FOR INSERT WITH CHECK (
+    profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND (scope <> 'user' OR scope_id = profile_id)
+    AND revoked_at IS NULL
+);
+
+CREATE POLICY "Users can revoke their own calendar feeds"
+ON public.calendar_feeds FOR UPDATE USING (
+    profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- Escape TEXT property values (RFC 5545, section 3.3.11)
+CREATE OR REPLACE FUNCTION public.ical_escape(_value TEXT)
+RETURNS TEXT AS $$
+    SELECT replace(replace(replace(replace(COALESCE(_value, ''), '\', '\\'), ';', '\;'), ',', '\,'), E'\n', '\n');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- The weekly timetable of a user, room or course as an iCalendar document.
+-- Each timetable entry becomes a weekly RRULE bounded by its term dates,
+-- holidays and one-off changes become EXDATEs and rescheduled sessions are
+-- published as separate events. Times are floating local times.
+CREATE OR REPLACE FUNCTION public.timetable_ical(_scope calendar_feed_scope, _scope_id UUID)
+RETURNS TEXT AS $$
+DECLARE
+    _role user_role;
+    _name TEXT;
+    _ids UUID[];
+    _row RECORD;
+    _first DATE;
+    _exdates TEXT;
+    _stamp TEXT := to_char(NOW() AT TIME ZONE 'UTC', 'YYYYMMDD"T"HH24MISS"Z"');
+    _lines TEXT[] := ARRAY[
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        'PRODID:-//Smart Class Flow//Timetable//EN',
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH'
+    ];
+BEGIN
+    IF _scope = 'user' THEN
+        SELECT role, name || ' - Timetable' INTO _role, _name FROM public.profiles WHERE id = _scope_id;
+    ELSIF _scope = 'room' THEN
+        SELECT room_name || ' - Room Schedule' INTO _name FROM public.classrooms WHERE id = _scope_id;
+    ELSE
+        SELECT course_code || ' - ' || course_name INTO _name FROM public.courses WHERE id = _scope_id;
+    END IF;
+
+    IF _name IS NULL THEN
+        RAISE EXCEPTION 'Nothing to export for % %', _scope, _scope_id USING ERRCODE = 'P0002';
+    END IF;
+
+    SELECT COALESCE(array_agg(t.id), '{}') INTO _ids
+    FROM public.timetable t
+    WHERE CASE _scope
+        WHEN 'room' THEN t.room_id = _scope_id
+        WHEN 'course' THEN t.course_id = _scope_id
+        ELSE CASE _role
+            WHEN 'student' THEN EXISTS (
+                SELECT 1 FROM public.enrollments e
+                JOIN public.course_sections s ON s.id = e.section_id
+                WHERE e.student_id = _scope_id
+                  AND e.status = 'enrolled'
+                  AND s.course_id = t.course_id
+                  AND s.semester = t.semester
+                  AND s.academic_year = t.academic_year
+            )
+            ELSE t.faculty_id = _scope_id
+        END
+    END;
+
+    _lines := _lines || ('X-WR-CALNAME:' || public.ical_escape(_name));
+
+    FOR _row IN
+        SELECT t.id, t.day_of_week, t.start_time, t.end_time, t.created_at,
+               c.course_code, c.course_name, r.room_name, r.location, f.name AS faculty_name,
+               term.start_date AS term_start, term.end_date AS term_end
+        FROM public.timetable t
+        JOIN public.courses c ON c.id = t.course_id
+        JOIN public.classrooms r ON r.id = t.room_id
+        JOIN public.profiles f ON f.id = t.faculty_id
+        LEFT JOIN public.academic_terms term
+            ON term.semester = t.semester AND term.academic_year = t.academic_year
+        WHERE t.id = ANY(_ids)
+        ORDER BY array_position(ARRAY['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'], t.day_of_week), t.start_time
+    LOOP
+        -- First date on or after the start of the term that falls on the class's weekday
+        _first := COALESCE(_row.term_start, _row.created_at::DATE);
+        _first := _first + (
+            7 + array_position(ARRAY['Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday'], _row.day_of_week)
+              - EXTRACT(ISODOW FROM _first)::INTEGER
+        ) % 7;
+
+        CONTINUE WHEN _row.term_end IS NOT NULL AND _first > _row.term_end;
+
+        -- Open-ended entries only list exceptions for the coming year
+        SELECT string_agg(to_char(d::DATE + _row.start_time, 'YYYYMMDD"T"HH24MISS'), ',' ORDER BY d)
+        INTO _exdates
+        FROM generate_series(_first, COALESCE(_row.term_end, _first + 371), INTERVAL '7 days') d
+        WHERE EXISTS (
+            SELECT 1 FROM public.calendar_events e
+            WHERE e.suspends_classes AND d::DATE BETWEEN e.start_date AND e.end_date
+        )
+        OR EXISTS (
+            SELECT 1 FROM public.session_exceptions x
+            WHERE x.timetable_id = _row.id AND x.session_date = d::DATE
+        );
+
+        _lines := _lines || ARRAY[
+            'BEGIN:VEVENT',
+            'UID:' || _row.id || '@smart-class-flow',
+            'DTSTAMP:' || _stamp,
+            'DTSTART:' || to_char(_first + _row.start_time, 'YYYYMMDD"T"HH24MISS'),
+            'DTEND:' || to_char(_first + _row.end_time, 'YYYYMMDD"T"HH24MISS'),
+            'RRULE:FREQ=WEEKLY' || COALESCE(';UNTIL=' || to_char(_row.term_end + _row.end_time, 'YYYYMMDD"T"HH24MISS'), ''),
+            'SUMMARY:' || public.ical_escape(_row.course_code || ' ' || _row.course_name),
+            'LOCATION:' || public.ical_escape(_row.room_name || ', ' || _row.location),
+            'DESCRIPTION:' || public.ical_escape('Faculty: ' || _row.faculty_name)
+        ];
+
+        IF _exdates IS NOT NULL THEN
+            _lines := _lines || ('EXDATE:' || _exdates);
+        END IF;
+
+        _lines := _lines || 'END:VEVENT'::TEXT;
+    END LOOP;
+
+    FOR _row IN
+        SELECT x.id, x.new_date, x.new_start_time, x.new_end_time, x.reason,
+               c.course_code, c.course_name, r.room_name, r.location, f.name AS faculty_name
+        FROM public.session_exceptions x
+        JOIN public.timetable t ON t.id = x.timetable_id
+        JOIN public.courses c ON c.id = t.course_id
+        JOIN public.classrooms r ON r.id = COALESCE(x.new_room_id, t.room_id)
+        JOIN public.profiles f ON f.id = t.faculty_id
+        WHERE x.kind = 'rescheduled'
+          AND CASE _scope
+              WHEN 'room' THEN COALESCE(x.new_room_id, t.room_id) = _scope_id
+              ELSE t.id = ANY(_ids)
+          END
+        ORDER BY x.new_date, x.new_start_time
+    LOOP
+        _lines := _lines || ARRAY[
+            'BEGIN:VEVENT',
+            'UID:' || _row.id || '@smart-class-flow',
+            'DTSTAMP:' || _stamp,
+            'DTSTART:' || to_char(_row.new_date + _row.new_start_time, 'YYYYMMDD"T"HH24MISS'),
+            'DTEND:' || to_char(_row.new_date + _row.new_end_time, 'YYYYMMDD"T"HH24MISS'),
+            'SUMMARY:' || public.ical_escape(_row.course_code || ' ' || _row.course_name || ' (rescheduled)'),
+            'LOCATION:' || public.ical_escape(_row.room_name || ', ' || _row.location),
+            'DESCRIPTION:' || public.ical_escape(
+                'Faculty: ' || _row.faculty_name || COALESCE(E'\n' || _row.reason, '')
+            ),
+            'END:VEVENT'
+        ];
+    END LOOP;
+
+    _lines := _lines || 'END:VCALENDAR'::TEXT;
+
+    RETURN array_to_string(_lines, E'\r\n') || E'\r\n';
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Serves a feed by its token to calendar apps, which cannot sign in
+CREATE OR REPLACE FUNCTION public.calendar_feed(_token TEXT)
+RETURNS TEXT AS $$
+DECLARE
+    _feed public.calendar_feeds%ROWTYPE;
+BEGIN
+    UPDATE public.calendar_feeds
+    SET last_accessed_at = NOW()
+    WHERE token = _token AND revoked_at IS NULL
+    RETURNING * INTO _feed;
+
+    IF _feed.id IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    RETURN public.timetable_ical(_feed.scope, _feed.scope_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create indexes for better performance
+CREATE INDEX idx_calendar_feeds_profile_id ON public.calendar_feeds(profile_id);
@@ -0,0 +1,107 @@
+-- Inserts a validated spreadsheet in one transaction: the first failing row
+-- aborts the import and nothing is written. Each element of _rows carries its
+-- spreadsheet line in "row" so errors point back at the source file.
+--   courses    course_code, course_name, department, credits, description
+--   classrooms room_name, capacity, location, equipment[], remarks
+--   faculty    email, name, department, phone (promotes existing accounts)
+--   timetable  course_code, room_name, faculty_email, day_of_week,
+--              start_time, end_time, semester, academic_year
+CREATE OR REPLACE FUNCTION public.bulk_import(_kind TEXT, _rows JSONB)
+RETURNS INTEGER AS $$
+DECLARE
+    _row JSONB;
+    _course_id UUID;
+    _room_id UUID;
+    _faculty_id UUID;
+    _count INTEGER := 0;
+    _detail TEXT;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only administrators can import data' USING ERRCODE = '42501';
+    END IF;
+
+    IF _kind NOT IN ('courses', 'classrooms', 'faculty', 'timetable') THEN
+        RAISE EXCEPTION 'Unknown import type %', _kind USING ERRCODE = '22023';
+    END IF;
+
+    FOR _row IN SELECT value FROM jsonb_array_elements(_rows) LOOP
+        BEGIN
+            CASE _kind
+            WHEN 'courses' THEN
+                INSERT INTO public.courses (course_code, course_name, department, credits, description)
+                VALUES (
+                    upper(_row->>'course_code'),
+                    _row->>'course_name',
+                    _row->>'department',
+                    COALESCE((_row->>'credits')::INTEGER, 3),
+                    NULLIF(_row->>'description', '')
+                );
+            WHEN 'classrooms' THEN
+                INSERT INTO public.classrooms (room_name, capacity, location, equipment, remarks)
+                VALUES (
+                    _row->>'room_name',
+                    (_row->>'capacity')::INTEGER,
+                    _row->>'location',
+                    ARRAY(SELECT jsonb_array_elements_text(COALESCE(_row->'equipment', '[]'::JSONB))),
+                    NULLIF(_row->>'remarks', '')
+                );
+            WHEN 'faculty' THEN
+                UPDATE public.profiles
+                SET role = 'faculty',
+                    name = COALESCE(NULLIF(_row->>'name', ''), name),
+                    department = COALESCE(NULLIF(_row->>'department', ''), department),
+                    phone = COALESCE(NULLIF(_row->>'phone', ''), phone)
+                WHERE lower(email) = lower(_row->>'email');
+
+                IF NOT FOUND THEN
+                    RAISE EXCEPTION 'No account is registered with %', _row->>'email' USING ERRCODE = 'P0002';
+                END IF;
+            ELSE
+                SELECT id INTO _course_id FROM public.courses
+                WHERE upper(course_code) = upper(_row->>'course_code');
+                IF NOT FOUND THEN
+                    RAISE EXCEPTION 'Unknown course code %', _row->>'course_code' USING ERRCODE = 'P0002';
+                END IF;
+
+                SELECT id INTO _room_id FROM public.classrooms
+                WHERE lower(room_name) = lower(_row->>'room_name');
+                IF NOT FOUND THEN
+                    RAISE EXCEPTION 'Unknown room %', _row->>'room_name' USING ERRCODE = 'P0002';
+                END IF;
+
+                SELECT id INTO _faculty_id FROM public.profiles
+                WHERE lower(email) = lower(_row->>'faculty_email') AND role = 'faculty';
+                IF NOT FOUND THEN
+                    RAISE EXCEPTION 'No faculty member with email %', _row->>'faculty_email' USING ERRCODE = 'P0002';
+                END IF;
+
+                INSERT INTO public.timetable (
+                    course_id, room_id, faculty_id, day_of_week, start_time, end_time, semester, academic_year
+                )
+                VALUES (
+                    _course_id,
+                    _room_id,
+                    _faculty_id,
+                    _row->>'day_of_week',
+                    (_row->>'start_time')::TIME,
+                    (_row->>'end_time')::TIME,
+                    _row->>'semester',
+                    _row->>'academic_year'
+                );
+            END CASE;
+        EXCEPTION WHEN OTHERS THEN
+            -- Keep the original code and detail so conflicts stay machine-readable
+            GET STACKED DIAGNOSTICS _detail = PG_EXCEPTION_DETAIL;
+            RAISE EXCEPTION 'Row %: %', COALESCE(_row->>'row', (_count + 1)::TEXT), SQLERRM
+                USING ERRCODE = SQLSTATE, DETAIL = _detail;
+        END;
+
+        _count := _count + 1;
+    END LOOP;
+
+    RETURN _count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
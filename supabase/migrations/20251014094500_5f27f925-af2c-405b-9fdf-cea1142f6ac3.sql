@@ -0,0 +1,126 @@
+-- Teaching load limits per department; faculty of departments without a row
+-- are held to 6-18 weekly contact hours and no credit limit
+CREATE TABLE public.department_workload_limits (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    department TEXT NOT NULL UNIQUE,
+    min_weekly_hours NUMERIC(4,1) NOT NULL DEFAULT 6,
+    max_weekly_hours NUMERIC(4,1) NOT NULL DEFAULT 18,
+    max_credits INTEGER CHECK (max_credits > 0),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_workload_range CHECK (min_weekly_hours >= 0 AND max_weekly_hours >= min_weekly_hours)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.department_workload_limits ENABLE ROW LEVEL SECURITY;
+
+-- Department workload limits policies
+CREATE POLICY "Anyone can view department workload limits"
+ON public.department_workload_limits FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage department workload limits"
+ON public.department_workload_limits FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Weekly contact time and credits of every faculty member in a term, with the
+-- limits of their department. Credits count each course once, however many
+-- weekly slots it has. Faculty without classes are included with zero load.
+CREATE OR REPLACE FUNCTION public.faculty_workload(_semester TEXT, _academic_year TEXT)
+RETURNS TABLE (
+    faculty_id UUID,
+    name TEXT,
+    email TEXT,
+    department TEXT,
+    sessions INTEGER,
+    courses INTEGER,
+    weekly_minutes INTEGER,
+    credits INTEGER,
+    min_weekly_hours NUMERIC,
+    max_weekly_hours NUMERIC,
+    max_credits INTEGER
+) AS $$
+    SELECT
+        p.id,
+        p.name,
+        p.email,
+        p.department,
+        COUNT(t.id)::INTEGER,
+        COUNT(DISTINCT t.course_id)::INTEGER,
+        COALESCE(SUM(EXTRACT(EPOCH FROM t.end_time - t.start_time) / 60), 0)::INTEGER,
+        COALESCE((
+            SELECT SUM(c.credits)
+            FROM public.courses c
+            WHERE c.id IN (
+                SELECT course_id FROM public.timetable
+                WHERE faculty_id = p.id AND semester = _semester AND academic_year = _academic_year
+            )
+        ), 0)::INTEGER,
+        COALESCE(l.min_weekly_hours, 6),
+        COALESCE(l.max_weekly_hours, 18),
+        l.max_credits
+    FROM public.profiles p
+    LEFT JOIN public.timetable t
+        ON t.faculty_id = p.id AND t.semester = _semester AND t.academic_year = _academic_year
+    LEFT JOIN public.department_workload_limits l ON l.department = p.department
+    WHERE p.role = 'faculty'
+    GROUP BY p.id, l.id
+    ORDER BY p.name;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Hands every weekly slot of a course in a term to another faculty member and
+-- keeps the course assignment in step. The conflict trigger rejects the move
+-- when the new faculty member already teaches in one of the slots.
+CREATE OR REPLACE FUNCTION public.reassign_course_faculty(
+    _course_id UUID,
+    _semester TEXT,
+    _academic_year TEXT,
+    _from_faculty_id UUID,
+    _to_faculty_id UUID
+)
+RETURNS INTEGER AS $$
+DECLARE
+    _count INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only administrators can reassign courses' USING ERRCODE = '42501';
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.profiles WHERE id = _to_faculty_id AND role = 'faculty') THEN
+        RAISE EXCEPTION 'Courses can only be assigned to faculty members' USING ERRCODE = '22023';
+    END IF;
+
+    UPDATE public.timetable
+    SET faculty_id = _to_faculty_id
+    WHERE course_id = _course_id
+      AND semester = _semester
+      AND academic_year = _academic_year
+      AND faculty_id = _from_faculty_id;
+
+    GET DIAGNOSTICS _count = ROW_COUNT;
+
+    IF _count = 0 THEN
+        RAISE EXCEPTION 'The course has no classes with that faculty member this term' USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE public.course_assignments
+    SET faculty_id = _to_faculty_id
+    WHERE course_id = _course_id
+      AND semester = _semester
+      AND academic_year = _academic_year
+      AND faculty_id = _from_faculty_id;
+
+    RETURN _count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create triggers for updating timestamps
+CREATE TRIGGER update_department_workload_limits_updated_at
+    BEFORE UPDATE ON public.department_workload_limits
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,91 @@
+-- When and where a faculty member prefers to teach in a term
+CREATE TABLE public.faculty_preferences (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    faculty_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    semester TEXT NOT NULL,
+    academic_year TEXT NOT NULL,
+    preferred_days TEXT[] NOT NULL DEFAULT '{}',
+    preferred_start_time TIME,
+    preferred_end_time TIME,
+    max_consecutive_hours NUMERIC(3,1) CHECK (max_consecutive_hours > 0),
+    preferred_room_ids UUID[] NOT NULL DEFAULT '{}',
+    preferred_locations TEXT[] NOT NULL DEFAULT '{}',
+    notes TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_preferred_hours CHECK (
+        preferred_start_time IS NULL OR preferred_end_time IS NULL OR preferred_end_time > preferred_start_time
+    ),
+    UNIQUE(faculty_id, semester, academic_year)
+);
+
+-- Weekly periods in which a faculty member cannot teach at all
+CREATE TABLE public.faculty_unavailability (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    faculty_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    semester TEXT NOT NULL,
+    academic_year TEXT NOT NULL,
+    day_of_week TEXT NOT NULL CHECK (day_of_week IN ('Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday', 'Sunday')),
+    start_time TIME NOT NULL,
+    end_time TIME NOT NULL,
+    reason TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    CONSTRAINT valid_unavailable_period CHECK (end_time > start_time)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.faculty_preferences ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.faculty_unavailability ENABLE ROW LEVEL SECURITY;
+
+-- Faculty preferences policies; everyone who edits the timetable can see them
+CREATE POLICY "Admins and faculty can view faculty preferences"
+ON public.faculty_preferences FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role IN ('admin', 'faculty')
+    )
+);
+
+CREATE POLICY "Faculty can manage their own preferences"
+ON public.faculty_preferences FOR ALL USING (
+    faculty_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid() AND role = 'faculty')
+);
+
+CREATE POLICY "Admins can manage faculty preferences"
+ON public.faculty_preferences FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Faculty unavailability policies
+CREATE POLICY "Admins and faculty can view faculty unavailability"
+ON public.faculty_unavailability FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role IN ('admin', 'faculty')
+    )
+);
+
+CREATE POLICY "Faculty can manage their own unavailability"
+ON public.faculty_unavailability FOR ALL USING (
+    faculty_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid() AND role = 'faculty')
+);
+
+CREATE POLICY "Admins can manage faculty unavailability"
+ON public.faculty_unavailability FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Create triggers for updating timestamps
+CREATE TRIGGER update_faculty_preferences_updated_at
+    BEFORE UPDATE ON public.faculty_preferences
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_faculty_unavailability_faculty_term
+    ON public.faculty_unavailability(faculty_id, semester, academic_year);
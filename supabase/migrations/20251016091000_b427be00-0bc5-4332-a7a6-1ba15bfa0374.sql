@@ -0,0 +1,227 @@
+-- Create attendance status enum
+CREATE TYPE attendance_status AS ENUM ('present', 'absent', 'late', 'excused');
+
+-- A dated occurrence of a timetable entry for which attendance was taken.
+-- session_date is the scheduled date, as in session_exceptions; held_on is
+-- the day the class actually took place when it was rescheduled.
+CREATE TABLE public.class_sessions (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    timetable_id UUID NOT NULL REFERENCES public.timetable(id) ON DELETE CASCADE,
+    session_date DATE NOT NULL,
+    held_on DATE NOT NULL,
+    taken_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(timetable_id, session_date)
+);
+
+-- One student's attendance at one class session
+CREATE TABLE public.attendance_records (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    session_id UUID NOT NULL REFERENCES public.class_sessions(id) ON DELETE CASCADE,
+    student_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    status attendance_status NOT NULL,
+    note TEXT,
+    marked_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE(session_id, student_id)
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.class_sessions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.attendance_records ENABLE ROW LEVEL SECURITY;
+
+-- Class sessions policies
+CREATE POLICY "Anyone can view class sessions"
+ON public.class_sessions FOR SELECT USING (true);
+
+CREATE POLICY "Admins can manage class sessions"
+ON public.class_sessions FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+CREATE POLICY "Faculty can manage sessions of their own classes"
+ON public.class_sessions FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.timetable t
+        JOIN public.profiles p ON p.id = t.faculty_id
+        WHERE t.id = timetable_id AND p.user_id = auth.uid()
+    )
+);
+
+-- Attendance records policies; students only ever see their own
+CREATE POLICY "Students can view their own attendance"
+ON public.attendance_records FOR SELECT USING (
+    student_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Admins can manage attendance"
+ON public.attendance_records FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+CREATE POLICY "Faculty can manage attendance in their own classes"
+ON public.attendance_records FOR ALL USING (
+    EXISTS (
+        SELECT 1 FROM public.class_sessions s
+        JOIN public.timetable t ON t.id = s.timetable_id
+        JOIN public.profiles p ON p.id = t.faculty_id
+        WHERE s.id = session_id AND p.user_id = auth.uid()
+    )
+);
+
+-- Students enrolled in the course of a class session, with the attendance
+-- already recorded for it. Only the class's faculty member and admins may
+-- call it.
+CREATE OR REPLACE FUNCTION public.session_roll(_timetable_id UUID, _session_date DATE)
+RETURNS TABLE (
+    student_id UUID,
+    name TEXT,
+    email TEXT,
+    section_code TEXT,
+    status attendance_status,
+    note TEXT
+) AS $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles p
+        WHERE p.user_id = auth.uid()
+          AND (p.role = 'admin' OR p.id = (SELECT faculty_id FROM public.timetable WHERE id = _timetable_id))
+    ) THEN
+        RAISE EXCEPTION 'Only the faculty member teaching this class can take attendance' USING ERRCODE = '42501';
+    END IF;
+
+    RETURN QUERY
+    SELECT p.id, p.name, p.email, cs.section_code, a.status, a.note
+    FROM public.timetable t
+    JOIN public.course_sections cs
+        ON cs.course_id = t.course_id AND cs.semester = t.semester AND cs.academic_year = t.academic_year
+    JOIN public.enrollments e ON e.section_id = cs.id AND e.status = 'enrolled'
+    JOIN public.profiles p ON p.id = e.student_id
+    LEFT JOIN public.class_sessions s ON s.timetable_id = t.id AND s.session_date = _session_date
+    LEFT JOIN public.attendance_records a ON a.session_id = s.id AND a.student_id = p.id
+    WHERE t.id = _timetable_id
+    ORDER BY p.name;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Saves a roll call in one go. _records is an array of
+-- {"student_id", "status", "note"}; every student must be enrolled.
+CREATE OR REPLACE FUNCTION public.record_attendance(
+    _timetable_id UUID,
+    _session_date DATE,
+    _held_on DATE,
+    _records JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    _marker UUID;
+    _session_id UUID;
+    _stranger TEXT;
+BEGIN
+    SELECT p.id INTO _marker
+    FROM public.profiles p
+    WHERE p.user_id = auth.uid()
+      AND (p.role = 'admin' OR p.id = (SELECT faculty_id FROM public.timetable WHERE id = _timetable_id));
+
+    IF _marker IS NULL THEN
+        RAISE EXCEPTION 'Only the faculty member teaching this class can take attendance' USING ERRCODE = '42501';
+    END IF;
+
+    IF _held_on > CURRENT_DATE THEN
+        RAISE EXCEPTION 'Attendance cannot be taken for a session that has not happened yet' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT r->>'student_id' INTO _stranger
+    FROM jsonb_array_elements(_records) r
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.timetable t
+        JOIN public.course_sections cs
+            ON cs.course_id = t.course_id AND cs.semester = t.semester AND cs.academic_year = t.academic_year
+        JOIN public.enrollments e ON e.section_id = cs.id AND e.status = 'enrolled'
+        WHERE t.id = _timetable_id AND e.student_id = (r->>'student_id')::UUID
+    )
+    LIMIT 1;
+
+    IF _stranger IS NOT NULL THEN
+        RAISE EXCEPTION 'Student % is not enrolled in this course', _stranger USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.class_sessions (timetable_id, session_date, held_on, taken_by)
+    VALUES (_timetable_id, _session_date, _held_on, _marker)
+    ON CONFLICT (timetable_id, session_date)
+    DO UPDATE SET held_on = EXCLUDED.held_on, taken_by = EXCLUDED.taken_by
+    RETURNING id INTO _session_id;
+
+    INSERT INTO public.attendance_records (session_id, student_id, status, note, marked_by)
+    SELECT _session_id, (r->>'student_id')::UUID, (r->>'status')::attendance_status, NULLIF(r->>'note', ''), _marker
+    FROM jsonb_array_elements(_records) r
+    ON CONFLICT (session_id, student_id)
+    DO UPDATE SET status = EXCLUDED.status, note = EXCLUDED.note, marked_by = EXCLUDED.marked_by;
+
+    RETURN _session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Attendance per student and course in a term. Late counts as attended and
+-- excused sessions are left out of the percentage. Runs with the caller's
+-- rights, so students only get their own rows and faculty their classes.
+CREATE OR REPLACE FUNCTION public.attendance_summary(_semester TEXT, _academic_year TEXT)
+RETURNS TABLE (
+    student_id UUID,
+    student_name TEXT,
+    course_id UUID,
+    course_code TEXT,
+    course_name TEXT,
+    sessions INTEGER,
+    present INTEGER,
+    late INTEGER,
+    absent INTEGER,
+    excused INTEGER,
+    percentage NUMERIC
+) AS $$
+    SELECT
+        a.student_id,
+        st.name,
+        c.id,
+        c.course_code,
+        c.course_name,
+        COUNT(*)::INTEGER,
+        COUNT(*) FILTER (WHERE a.status = 'present')::INTEGER,
+        COUNT(*) FILTER (WHERE a.status = 'late')::INTEGER,
+        COUNT(*) FILTER (WHERE a.status = 'absent')::INTEGER,
+        COUNT(*) FILTER (WHERE a.status = 'excused')::INTEGER,
+        ROUND(
+            100.0 * COUNT(*) FILTER (WHERE a.status IN ('present', 'late'))
+            / NULLIF(COUNT(*) FILTER (WHERE a.status <> 'excused'), 0),
+            1
+        )
+    FROM public.attendance_records a
+    JOIN public.class_sessions s ON s.id = a.session_id
+    JOIN public.timetable t ON t.id = s.timetable_id
+    JOIN public.courses c ON c.id = t.course_id
+    JOIN public.profiles st ON st.id = a.student_id
+    WHERE t.semester = _semester AND t.academic_year = _academic_year
+    GROUP BY a.student_id, st.name, c.id
+    ORDER BY c.course_code, st.name;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Create triggers for updating timestamps
+CREATE TRIGGER update_class_sessions_updated_at
+    BEFORE UPDATE ON public.class_sessions
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_attendance_records_updated_at
+    BEFORE UPDATE ON public.attendance_records
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Create indexes for better performance
+CREATE INDEX idx_attendance_records_student_id ON public.attendance_records(student_id);
+CREATE INDEX idx_class_sessions_timetable_id ON public.class_sessions(timetable_id);
@@ -0,0 +1,115 @@
+-- Short-lived tokens shown as a QR code while a class is running. Students
+-- check themselves in with the current token. There are no policies: the
+-- tokens are only ever read and written by the functions below.
+CREATE TABLE public.checkin_tokens (
+    token TEXT PRIMARY KEY,
+    session_id UUID NOT NULL REFERENCES public.class_sessions(id) ON DELETE CASCADE,
+    expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- When a student checked in themselves; NULL for marks made at roll call
+ALTER TABLE public.attendance_records ADD COLUMN checked_in_at TIMESTAMP WITH TIME ZONE;
+
+-- Enable Row Level Security
+ALTER TABLE public.checkin_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Opens the session for self check-in if needed and hands out a fresh token.
+-- The client asks for a new one every 15 seconds; each stays valid for 30 so
+-- a scan made just before the code changes still counts.
+CREATE OR REPLACE FUNCTION public.issue_checkin_token(_timetable_id UUID, _session_date DATE, _held_on DATE)
+RETURNS TABLE (token TEXT, expires_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+    _marker UUID;
+    _session_id UUID;
+BEGIN
+    SELECT p.id INTO _marker
+    FROM public.profiles p
+    WHERE p.user_id = auth.uid()
+      AND (p.role = 'admin' OR p.id = (SELECT t.faculty_id FROM public.timetable t WHERE t.id = _timetable_id));
+
+    IF _marker IS NULL THEN
+        RAISE EXCEPTION 'Only the faculty member teaching this class can take attendance' USING ERRCODE = '42501';
+    END IF;
+
+    IF _held_on <> CURRENT_DATE THEN
+        RAISE EXCEPTION 'Self check-in is only open on the day the class takes place' USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.class_sessions (timetable_id, session_date, held_on, taken_by)
+    VALUES (_timetable_id, _session_date, _held_on, _marker)
+    ON CONFLICT (timetable_id, session_date)
+    DO UPDATE SET held_on = EXCLUDED.held_on
+    RETURNING id INTO _session_id;
+
+    DELETE FROM public.checkin_tokens k WHERE k.expires_at < NOW() - INTERVAL '1 hour';
+
+    token := replace(gen_random_uuid()::TEXT, '-', '');
+    expires_at := NOW() + INTERVAL '30 seconds';
+    INSERT INTO public.checkin_tokens (token, session_id, expires_at) VALUES (token, _session_id, expires_at);
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Marks the signed-in student present for the session a token belongs to.
+-- Rejects stale tokens, students who are not enrolled and repeated scans.
+CREATE OR REPLACE FUNCTION public.check_in(_token TEXT)
+RETURNS TABLE (course_code TEXT, course_name TEXT) AS $$
+DECLARE
+    _student UUID;
+    _session_id UUID;
+    _expires TIMESTAMP WITH TIME ZONE;
+    _timetable_id UUID;
+BEGIN
+    SELECT p.id INTO _student
+    FROM public.profiles p
+    WHERE p.user_id = auth.uid() AND p.role = 'student';
+
+    IF _student IS NULL THEN
+        RAISE EXCEPTION 'Only students can check in to a class' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT k.session_id, k.expires_at INTO _session_id, _expires
+    FROM public.checkin_tokens k
+    WHERE k.token = _token;
+
+    IF _session_id IS NULL THEN
+        RAISE EXCEPTION 'This is not a valid check-in code' USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _expires < NOW() THEN
+        RAISE EXCEPTION 'This check-in code has expired; scan the one on screen now' USING ERRCODE = '22023';
+    END IF;
+
+    SELECT s.timetable_id INTO _timetable_id FROM public.class_sessions s WHERE s.id = _session_id;
+
+    IF NOT EXISTS (
+        SELECT 1 FROM public.timetable t
+        JOIN public.course_sections cs
+            ON cs.course_id = t.course_id AND cs.semester = t.semester AND cs.academic_year = t.academic_year
+        JOIN public.enrollments e ON e.section_id = cs.id AND e.status = 'enrolled'
+        WHERE t.id = _timetable_id AND e.student_id = _student
+    ) THEN
+        RAISE EXCEPTION 'You are not enrolled in this course' USING ERRCODE = '42501';
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.attendance_records a
+        WHERE a.session_id = _session_id AND a.student_id = _student
+    ) THEN
+        RAISE EXCEPTION 'Your attendance for this class is already recorded' USING ERRCODE = '23505';
+    END IF;
+
+    INSERT INTO public.attendance_records (session_id, student_id, status, marked_by, checked_in_at)
+    VALUES (_session_id, _student, 'present', _student, NOW());
+
+    RETURN QUERY
+    SELECT c.course_code, c.course_name
+    FROM public.timetable t
+    JOIN public.courses c ON c.id = t.course_id
+    WHERE t.id = _timetable_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create indexes for better performance
+CREATE INDEX idx_checkin_tokens_session_id ON public.checkin_tokens(session_id);
@@ -0,0 +1,81 @@
+-- Create feedback category enum
+CREATE TYPE feedback_category AS ENUM ('room_issue', 'schedule_clash', 'account', 'other');
+
+ALTER TABLE public.feedback ADD COLUMN category feedback_category NOT NULL DEFAULT 'other';
+
+-- Replies on a feedback ticket from the submitter or an admin
+CREATE TABLE public.feedback_comments (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    feedback_id UUID NOT NULL REFERENCES public.feedback(id) ON DELETE CASCADE,
+    author_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    message TEXT NOT NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Every status a ticket has been in, written by a trigger on feedback
+CREATE TABLE public.feedback_status_history (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    feedback_id UUID NOT NULL REFERENCES public.feedback(id) ON DELETE CASCADE,
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.feedback_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.feedback_status_history ENABLE ROW LEVEL SECURITY;
+
+-- Feedback policies; only admins triage, so only they change a ticket
+CREATE POLICY "Admins can update feedback"
+ON public.feedback FOR UPDATE USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- Feedback comments policies. The feedback policies decide which tickets
+-- are visible, so the thread follows the ticket.
+CREATE POLICY "Users can view comments on feedback they can see"
+ON public.feedback_comments FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.feedback f WHERE f.id = feedback_id)
+);
+
+CREATE POLICY "Users can comment on feedback they can see"
+ON public.feedback_comments FOR INSERT WITH CHECK (
+    author_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND EXISTS (SELECT 1 FROM public.feedback f WHERE f.id = feedback_id)
+);
+
+-- Feedback status history policies
+CREATE POLICY "Users can view the history of feedback they can see"
+ON public.feedback_status_history FOR SELECT USING (
+    EXISTS (SELECT 1 FROM public.feedback f WHERE f.id = feedback_id)
+);
+
+-- Records the initial status of a ticket and every change after it
+CREATE OR REPLACE FUNCTION public.log_feedback_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF TG_OP = 'INSERT' OR NEW.status IS DISTINCT FROM OLD.status THEN
+        INSERT INTO public.feedback_status_history (feedback_id, from_status, to_status, changed_by)
+        VALUES (
+            NEW.id,
+            CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+            NEW.status,
+            (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+        );
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_feedback_status_change
+    AFTER INSERT OR UPDATE OF status ON public.feedback
+    FOR EACH ROW EXECUTE FUNCTION public.log_feedback_status();
+
+-- Create indexes for better performance
+CREATE INDEX idx_feedback_status ON public.feedback(status);
+CREATE INDEX idx_feedback_comments_feedback_id ON public.feedback_comments(feedback_id);
+CREATE INDEX idx_feedback_status_history_feedback_id ON public.feedback_status_history(feedback_id);
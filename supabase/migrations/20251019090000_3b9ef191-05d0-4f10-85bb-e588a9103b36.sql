@@ -0,0 +1,177 @@
+-- Create notification kind enum
+CREATE TYPE notification_kind AS ENUM ('timetable', 'booking', 'feedback');
+
+-- Per-user messages about changes that affect them. Rows are only created by
+-- the triggers below; users read them and mark them as read.
+CREATE TABLE public.notifications (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    recipient_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    kind notification_kind NOT NULL,
+    title TEXT NOT NULL,
+    body TEXT,
+    read_at TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Notifications policies
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT USING (
+    recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can mark their own notifications as read"
+ON public.notifications FOR UPDATE USING (
+    recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE USING (
+    recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- Tells the faculty member and the enrolled students about a class that was
+-- added, moved or removed. Bulk changes such as committing a generated
+-- timetable touch many rows in one transaction; those collapse into a
+-- single notification per person instead of one per class.
+CREATE OR REPLACE FUNCTION public.notify_timetable_change()
+RETURNS TRIGGER AS $$
+DECLARE
+    _row public.timetable%ROWTYPE;
+    _previous_faculty UUID;
+    _course TEXT;
+    _room TEXT;
+    _title TEXT;
+    _body TEXT;
+    _recipients UUID[];
+BEGIN
+    IF TG_OP = 'DELETE' THEN
+        _row := OLD;
+    ELSE
+        _row := NEW;
+    END IF;
+
+    IF TG_OP = 'UPDATE' THEN
+        IF (NEW.day_of_week, NEW.start_time, NEW.end_time, NEW.room_id, NEW.faculty_id)
+            IS NOT DISTINCT FROM (OLD.day_of_week, OLD.start_time, OLD.end_time, OLD.room_id, OLD.faculty_id) THEN
+            RETURN NULL;
+        END IF;
+        _previous_faculty := OLD.faculty_id;
+    END IF;
+
+    -- Either may already be gone when the class is deleted along with it
+    SELECT COALESCE(MAX(course_code), 'A class') INTO _course FROM public.courses WHERE id = _row.course_id;
+    SELECT COALESCE(MAX(room_name), 'a room that no longer exists') INTO _room FROM public.classrooms WHERE id = _row.room_id;
+
+    _title := _course || CASE TG_OP
+        WHEN 'INSERT' THEN ' was added to your timetable'
+        WHEN 'UPDATE' THEN ' has changed'
+        ELSE ' was removed from your timetable'
+    END;
+    _body := CASE WHEN TG_OP = 'DELETE' THEN 'It was on ' ELSE 'Now on ' END
+        || _row.day_of_week || ' ' || to_char(_row.start_time, 'HH24:MI') || '-' || to_char(_row.end_time, 'HH24:MI')
+        || ' in ' || _room;
+
+    SELECT array_agg(DISTINCT recipient) INTO _recipients
+    FROM (
+        SELECT _row.faculty_id AS recipient
+        UNION
+        SELECT _previous_faculty
+        UNION
+        SELECT e.student_id
+        FROM public.course_sections cs
+        JOIN public.enrollments e ON e.section_id = cs.id AND e.status = 'enrolled'
+        WHERE cs.course_id = _row.course_id
+          AND cs.semester = _row.semester
+          AND cs.academic_year = _row.academic_year
+    ) affected
+    -- Skips a profile that is being deleted and took its classes with it
+    WHERE recipient IN (SELECT id FROM public.profiles);
+
+    IF _recipients IS NULL THEN
+        RETURN NULL;
+    END IF;
+
+    -- NOW() is fixed for the transaction, so it identifies notifications
+    -- written earlier by the same bulk change.
+    UPDATE public.notifications
+    SET title = 'Your timetable has changed',
+        body = 'Several classes were added, moved or removed; check your weekly timetable'
+    WHERE kind = 'timetable' AND created_at = NOW() AND recipient_id = ANY(_recipients);
+
+    INSERT INTO public.notifications (recipient_id, kind, title, body)
+    SELECT r, 'timetable', _title, _body
+    FROM unnest(_recipients) r
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.notifications n
+        WHERE n.recipient_id = r AND n.kind = 'timetable' AND n.created_at = NOW()
+    );
+
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tells the requester when an admin approves or rejects a room booking
+CREATE OR REPLACE FUNCTION public.notify_booking_decision()
+RETURNS TRIGGER AS $$
+BEGIN
+    INSERT INTO public.notifications (recipient_id, kind, title, body)
+    SELECT
+        NEW.requested_by,
+        'booking',
+        'Booking ' || NEW.status || ': ' || NEW.title,
+        c.room_name || ' on ' || to_char(NEW.booking_date, 'DD Mon YYYY') || ' '
+            || to_char(NEW.start_time, 'HH24:MI') || '-' || to_char(NEW.end_time, 'HH24:MI')
+            || COALESCE('. ' || NEW.decision_note, '')
+    FROM public.classrooms c
+    WHERE c.id = NEW.room_id;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Tells the submitter when someone else moves their feedback ticket along
+CREATE OR REPLACE FUNCTION public.notify_feedback_status()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF auth.uid() IS DISTINCT FROM NEW.user_id THEN
+        INSERT INTO public.notifications (recipient_id, kind, title, body)
+        SELECT
+            p.id,
+            'feedback',
+            'Your feedback is now ' || CASE NEW.status
+                WHEN 'pending' THEN 'open'
+                WHEN 'reviewed' THEN 'in review'
+                ELSE NEW.status
+            END,
+            NEW.title
+        FROM public.profiles p
+        WHERE p.user_id = NEW.user_id;
+    END IF;
+    RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create notification triggers
+CREATE TRIGGER notify_timetable_change
+    AFTER INSERT OR UPDATE OR DELETE ON public.timetable
+    FOR EACH ROW EXECUTE FUNCTION public.notify_timetable_change();
+
+CREATE TRIGGER notify_booking_decision
+    AFTER UPDATE OF status ON public.room_bookings
+    FOR EACH ROW
+    WHEN (OLD.status = 'pending' AND NEW.status IN ('approved', 'rejected'))
+    EXECUTE FUNCTION public.notify_booking_decision();
+
+CREATE TRIGGER notify_feedback_status
+    AFTER UPDATE OF status ON public.feedback
+    FOR EACH ROW
+    WHEN (OLD.status IS DISTINCT FROM NEW.status)
+    EXECUTE FUNCTION public.notify_feedback_status();
+
+-- Deliver new notifications to the browser as they are written
+ALTER PUBLICATION supabase_realtime ADD TABLE public.notifications;
+
+-- Create indexes for better performance
+CREATE INDEX idx_notifications_recipient_created ON public.notifications(recipient_id, created_at DESC);
@@ -0,0 +1,117 @@
+-- Create role request status enum
+CREATE TYPE role_request_status AS ENUM ('pending', 'approved', 'rejected');
+
+-- Requests for faculty or admin access. Every account starts as a student;
+-- the role only changes once an admin approves the request.
+CREATE TABLE public.role_requests (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    requested_role user_role NOT NULL CHECK (requested_role <> 'student'),
+    reason TEXT,
+    status role_request_status NOT NULL DEFAULT 'pending',
+    decided_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    decided_at TIMESTAMP WITH TIME ZONE,
+    decision_note TEXT,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- At most one open request per person
+CREATE UNIQUE INDEX role_requests_one_pending
+    ON public.role_requests(profile_id) WHERE status = 'pending';
+
+-- Enable Row Level Security
+ALTER TABLE public.role_requests ENABLE ROW LEVEL SECURITY;
+
+-- Role requests policies; decisions go through decide_role_request
+CREATE POLICY "Users can view their own role requests"
+ON public.role_requests FOR SELECT USING (
+    profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+CREATE POLICY "Users can request a role"
+ON public.role_requests FOR INSERT WITH CHECK (
+    profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND status = 'pending'
+    AND decided_by IS NULL
+);
+
+CREATE POLICY "Admins can view all role requests"
+ON public.role_requests FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+-- New accounts are always students. The department and phone entered at
+-- sign-up are kept, and a faculty or admin role asked for becomes a request.
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER AS $$
+DECLARE
+    _profile_id UUID;
+    _requested TEXT := NEW.raw_user_meta_data->>'requested_role';
+BEGIN
+    INSERT INTO public.profiles (user_id, name, email, role, department, phone)
+    VALUES (
+        NEW.id,
+        COALESCE(NEW.raw_user_meta_data->>'name', NEW.email),
+        NEW.email,
+        'student',
+        NULLIF(trim(NEW.raw_user_meta_data->>'department'), ''),
+        NULLIF(trim(NEW.raw_user_meta_data->>'phone'), '')
+    )
+    RETURNING id INTO _profile_id;
+
+    IF _requested IN ('faculty', 'admin') THEN
+        INSERT INTO public.role_requests (profile_id, requested_role, reason)
+        VALUES (
+            _profile_id,
+            _requested::user_role,
+            NULLIF(trim(NEW.raw_user_meta_data->>'role_reason'), '')
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Approve or reject a pending role request (admins only). Approval gives
+-- the requester the role straight away.
+CREATE OR REPLACE FUNCTION public.decide_role_request(_request_id UUID, _approve BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS public.role_requests AS $$
+DECLARE
+    _admin_id UUID;
+    _result public.role_requests%ROWTYPE;
+BEGIN
+    SELECT id INTO _admin_id FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin';
+
+    IF _admin_id IS NULL THEN
+        RAISE EXCEPTION 'Only administrators can decide role requests' USING ERRCODE = '42501';
+    END IF;
+
+    UPDATE public.role_requests
+    SET status = CASE WHEN _approve THEN 'approved'::role_request_status ELSE 'rejected'::role_request_status END,
+        decided_by = _admin_id,
+        decided_at = NOW(),
+        decision_note = NULLIF(trim(_note), '')
+    WHERE id = _request_id AND status = 'pending'
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'Role request % is not pending', _request_id;
+    END IF;
+
+    IF _approve THEN
+        UPDATE public.profiles SET role = _result.requested_role WHERE id = _result.profile_id;
+    END IF;
+
+    RETURN _result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create triggers for updating timestamps
+CREATE TRIGGER update_role_requests_updated_at
+    BEFORE UPDATE ON public.role_requests
+    FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
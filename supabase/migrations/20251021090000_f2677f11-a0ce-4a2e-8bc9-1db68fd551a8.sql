@@ -0,0 +1,177 @@
+-- Accounts can be deactivated by an admin instead of being deleted
+ALTER TABLE public.profiles
+    ADD COLUMN is_active BOOLEAN NOT NULL DEFAULT true,
+    ADD COLUMN deactivated_at TIMESTAMP WITH TIME ZONE;
+
+-- Create profile audit action enum
+CREATE TYPE profile_audit_action AS ENUM ('role_changed', 'deactivated', 'reactivated');
+
+-- Every role change and (de)activation, whichever path made it
+CREATE TABLE public.profile_audit_log (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    profile_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+    action profile_audit_action NOT NULL,
+    old_role user_role,
+    new_role user_role,
+    note TEXT,
+    changed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Enable Row Level Security
+ALTER TABLE public.profile_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Profile audit log policies; rows are only written by the trigger below
+CREATE POLICY "Admins can view the profile audit log"
+ON public.profile_audit_log FOR SELECT USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    )
+);
+
+CREATE POLICY "Users can view their own profile history"
+ON public.profile_audit_log FOR SELECT USING (
+    profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
+
+-- Users may only edit their own contact details. Role and activation are
+-- column-protected and change through set_user_role / set_user_active.
+REVOKE UPDATE ON public.profiles FROM anon, authenticated;
+GRANT UPDATE (name, department, phone) ON public.profiles TO authenticated;
+
+CREATE POLICY "Admins can update all profiles"
+ON public.profiles FOR UPDATE USING (
+    EXISTS (
+        SELECT 1 FROM public.profiles AS admin
+        WHERE admin.user_id = auth.uid() AND admin.role = 'admin'
+    )
+);
+
+-- Profiles are created by handle_new_user; a hand-made one may only be a student
+DROP POLICY "Users can insert their own profile" ON public.profiles;
+
+CREATE POLICY "Users can insert their own profile"
+ON public.profiles FOR INSERT WITH CHECK (auth.uid() = user_id AND role = 'student');
+
+-- Write an audit row when the role or the active flag changes. The admin
+-- functions pass their note through the app.profile_change_note setting.
+CREATE OR REPLACE FUNCTION public.log_profile_changes()
+RETURNS TRIGGER AS $$
+DECLARE
+    _changed_by UUID;
+    _note TEXT := NULLIF(current_setting('app.profile_change_note', true), '');
+BEGIN
+    SELECT id INTO _changed_by FROM public.profiles WHERE user_id = auth.uid();
+
+    IF NEW.role IS DISTINCT FROM OLD.role THEN
+        INSERT INTO public.profile_audit_log (profile_id, action, old_role, new_role, note, changed_by)
+        VALUES (NEW.id, 'role_changed', OLD.role, NEW.role, _note, _changed_by);
+    END IF;
+
+    IF NEW.is_active IS DISTINCT FROM OLD.is_active THEN
+        INSERT INTO public.profile_audit_log (profile_id, action, note, changed_by)
+        VALUES (
+            NEW.id,
+            CASE WHEN NEW.is_active THEN 'reactivated'::profile_audit_action ELSE 'deactivated'::profile_audit_action END,
+            _note,
+            _changed_by
+        );
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER log_profile_changes
+    AFTER UPDATE OF role, is_active ON public.profiles
+    FOR EACH ROW EXECUTE FUNCTION public.log_profile_changes();
+
+-- Change someone's role (admins only, never their own). A pending request
+-- for the same role is closed as approved.
+CREATE OR REPLACE FUNCTION public.set_user_role(_profile_id UUID, _role user_role, _note TEXT DEFAULT NULL)
+RETURNS public.profiles AS $$
+DECLARE
+    _admin_id UUID;
+    _result public.profiles%ROWTYPE;
+BEGIN
+    SELECT id INTO _admin_id FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin';
+
+    IF _admin_id IS NULL THEN
+        RAISE EXCEPTION 'Only administrators can change roles' USING ERRCODE = '42501';
+    END IF;
+
+    IF _profile_id = _admin_id THEN
+        RAISE EXCEPTION 'You cannot change your own role' USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _result FROM public.profiles WHERE id = _profile_id;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'User % not found', _profile_id USING ERRCODE = 'P0002';
+    END IF;
+
+    IF _result.role = _role THEN
+        RAISE EXCEPTION '% is already %', _result.name, _role USING ERRCODE = '22023';
+    END IF;
+
+    PERFORM set_config('app.profile_change_note', COALESCE(trim(_note), ''), true);
+
+    UPDATE public.profiles SET role = _role WHERE id = _profile_id
+    RETURNING * INTO _result;
+
+    UPDATE public.role_requests
+    SET status = 'approved',
+        decided_by = _admin_id,
+        decided_at = NOW(),
+        decision_note = NULLIF(trim(_note), '')
+    WHERE profile_id = _profile_id AND status = 'pending' AND requested_role = _role;
+
+    RETURN _result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Deactivate or reactivate an account (admins only, never their own).
+-- Deactivated users are banned in auth so they cannot sign in again.
+CREATE OR REPLACE FUNCTION public.set_user_active(_profile_id UUID, _active BOOLEAN, _note TEXT DEFAULT NULL)
+RETURNS public.profiles AS $$
+DECLARE
+    _admin_id UUID;
+    _result public.profiles%ROWTYPE;
+BEGIN
+    SELECT id INTO _admin_id FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin';
+
+    IF _admin_id IS NULL THEN
+        RAISE EXCEPTION 'Only administrators can deactivate accounts' USING ERRCODE = '42501';
+    END IF;
+
+    IF _profile_id = _admin_id THEN
+        RAISE EXCEPTION 'You cannot deactivate your own account' USING ERRCODE = '42501';
+    END IF;
+
+    PERFORM set_config('app.profile_change_note', COALESCE(trim(_note), ''), true);
+
+    UPDATE public.profiles
+    SET is_active = _active,
+        deactivated_at = CASE WHEN _active THEN NULL ELSE NOW() END
+    WHERE id = _profile_id AND is_active <> _active
+    RETURNING * INTO _result;
+
+    IF _result.id IS NULL THEN
+        RAISE EXCEPTION 'User % not found or already %', _profile_id,
+            CASE WHEN _active THEN 'active' ELSE 'deactivated' END
+            USING ERRCODE = 'P0002';
+    END IF;
+
+    UPDATE auth.users
+    SET banned_until = CASE WHEN _active THEN NULL ELSE NOW() + INTERVAL '100 years' END
+    WHERE id = _result.user_id;
+
+    RETURN _result;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Create indexes for better performance
+CREATE INDEX idx_profile_audit_log_profile ON public.profile_audit_log(profile_id, created_at DESC);
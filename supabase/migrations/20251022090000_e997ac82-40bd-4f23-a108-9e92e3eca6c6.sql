@@ -0,0 +1,49 @@
+-- Create display preference enums
+CREATE TYPE timetable_view AS ENUM ('week', 'workweek');
+CREATE TYPE time_format AS ENUM ('24h', '12h');
+
+-- Avatar and display preferences, edited from account settings
+ALTER TABLE public.profiles
+    ADD COLUMN avatar_url TEXT,
+    ADD COLUMN timetable_view timetable_view NOT NULL DEFAULT 'week',
+    ADD COLUMN time_format time_format NOT NULL DEFAULT '24h';
+
+GRANT UPDATE (avatar_url, timetable_view, time_format) ON public.profiles TO authenticated;
+
+-- Keep the profile email in step once a change of address is confirmed
+CREATE OR REPLACE FUNCTION public.handle_user_email_change()
+RETURNS TRIGGER AS $$
+BEGIN
+    UPDATE public.profiles SET email = NEW.email WHERE user_id = NEW.id;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER on_auth_user_email_changed
+    AFTER UPDATE OF email ON auth.users
+    FOR EACH ROW
+    WHEN (NEW.email IS DISTINCT FROM OLD.email)
+    EXECUTE FUNCTION public.handle_user_email_change();
+
+-- Public avatar images, one folder per user named after their auth id
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('avatars', 'avatars', true, 2097152, ARRAY['image/png', 'image/jpeg', 'image/webp', 'image/gif']);
+
+-- Avatar storage policies
+CREATE POLICY "Anyone can view avatars"
+ON storage.objects FOR SELECT USING (bucket_id = 'avatars');
+
+CREATE POLICY "Users can upload their own avatar"
+ON storage.objects FOR INSERT WITH CHECK (
+    bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
+
+CREATE POLICY "Users can replace their own avatar"
+ON storage.objects FOR UPDATE USING (
+    bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
+
+CREATE POLICY "Users can delete their own avatar"
+ON storage.objects FOR DELETE USING (
+    bucket_id = 'avatars' AND (storage.foldername(name))[1] = auth.uid()::TEXT
+);
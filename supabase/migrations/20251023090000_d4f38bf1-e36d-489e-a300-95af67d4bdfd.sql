@@ -0,0 +1,14 @@
+-- A feed's owner may only revoke it. Scope, label and token are fixed once
+-- created, so a feed cannot be repointed at somebody else's schedule.
+REVOKE UPDATE ON public.calendar_feeds FROM anon, authenticated;
+GRANT UPDATE (revoked_at) ON public.calendar_feeds TO authenticated;
+
+DROP POLICY "Users can revoke their own calendar feeds" ON public.calendar_feeds;
+
+CREATE POLICY "Users can revoke their own calendar feeds"
+ON public.calendar_feeds FOR UPDATE USING (
+    profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+) WITH CHECK (
+    profile_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+    AND revoked_at IS NOT NULL
+);
@@ -0,0 +1,166 @@
+-- Bookings only clash with classes that actually meet on the booked date:
+-- the term containing it, minus holidays, cancellations and moved sessions,
+-- plus classes rescheduled onto that date.
+CREATE OR REPLACE FUNCTION public.check_room_booking_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+    _class RECORD;
+    _booking RECORD;
+BEGIN
+    IF NEW.status NOT IN ('pending', 'approved') THEN
+        RETURN NEW;
+    END IF;
+
+    IF EXISTS (
+        SELECT 1 FROM public.classrooms
+        WHERE id = NEW.room_id AND availability_status = false
+    ) THEN
+        RAISE EXCEPTION 'This room is under maintenance' USING ERRCODE = '23514';
+    END IF;
+
+    SELECT
+        s.timetable_id AS id,
+        to_char(s.session_date, 'FMDay') AS day_of_week,
+        s.start_time,
+        s.end_time,
+        s.course_code,
+        s.course_name,
+        s.room_name,
+        s.faculty_name
+    INTO _class
+    FROM public.expand_timetable(NEW.booking_date, NEW.booking_date) s
+    WHERE s.room_id = NEW.room_id
+      AND s.status IN ('scheduled', 'rescheduled')
+      AND s.start_time < NEW.end_time
+      AND NEW.start_time < s.end_time
+    ORDER BY s.start_time
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Booking clashes with % on %', _class.course_code, _class.day_of_week
+            USING ERRCODE = '23P01',
+                  DETAIL = json_build_object(
+                      'kind', 'room',
+                      'timetable_id', _class.id,
+                      'day_of_week', _class.day_of_week,
+                      'start_time', _class.start_time,
+                      'end_time', _class.end_time,
+                      'course_code', _class.course_code,
+                      'course_name', _class.course_name,
+                      'room_name', _class.room_name,
+                      'faculty_name', _class.faculty_name
+                  )::text;
+    END IF;
+
+    SELECT b.id, b.title, b.booking_date, b.start_time, b.end_time, r.room_name
+    INTO _booking
+    FROM public.room_bookings b
+    JOIN public.classrooms r ON r.id = b.room_id
+    WHERE b.id <> NEW.id
+      AND b.room_id = NEW.room_id
+      AND b.booking_date = NEW.booking_date
+      AND b.status = 'approved'
+      AND b.start_time < NEW.end_time
+      AND NEW.start_time < b.end_time
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Booking clashes with approved booking %', _booking.title
+            USING ERRCODE = '23P01',
+                  DETAIL = json_build_object(
+                      'kind', 'booking',
+                      'booking_id', _booking.id,
+                      'booking_title', _booking.title,
+                      'booking_date', _booking.booking_date,
+                      'start_time', _booking.start_time,
+                      'end_time', _booking.end_time,
+                      'room_name', _booking.room_name
+                  )::text;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- With a date, rooms are checked against the sessions held that day. Without
+-- one, the weekly pattern of the given term is used, or of every term that
+-- has not ended yet when no term is given.
+CREATE OR REPLACE FUNCTION public.find_available_rooms(
+    _day TEXT,
+    _start_time TIME,
+    _end_time TIME,
+    _min_capacity INTEGER DEFAULT 1,
+    _equipment TEXT[] DEFAULT '{}',
+    _semester TEXT DEFAULT NULL,
+    _academic_year TEXT DEFAULT NULL,
+    _date DATE DEFAULT NULL
+)
+RETURNS TABLE (
+    id UUID,
+    room_name TEXT,
+    location TEXT,
+    capacity INTEGER,
+    equipment TEXT[],
+    spare_seats INTEGER
+) AS $$
+BEGIN
+    IF _end_time <= _start_time THEN
+        RAISE EXCEPTION 'End time must be after start time' USING ERRCODE = '22007';
+    END IF;
+
+    IF _date IS NOT NULL THEN
+        _day := to_char(_date, 'FMDay');
+    END IF;
+
+    RETURN QUERY
+    WITH busy AS (
+        SELECT s.room_id
+        FROM public.expand_timetable(_date, _date) s
+        WHERE _date IS NOT NULL
+          AND s.status IN ('scheduled', 'rescheduled')
+          AND s.start_time < _end_time
+          AND _start_time < s.end_time
+          AND (_semester IS NULL OR s.semester = _semester)
+          AND (_academic_year IS NULL OR s.academic_year = _academic_year)
+        UNION
+        SELECT t.room_id
+        FROM public.timetable t
+        WHERE _date IS NULL
+          AND t.day_of_week = _day
+          AND t.start_time < _end_time
+          AND _start_time < t.end_time
+          AND (_academic_year IS NULL OR t.academic_year = _academic_year)
+          AND CASE
+              WHEN _semester IS NOT NULL THEN t.semester = _semester
+              ELSE EXISTS (
+                  SELECT 1 FROM public.academic_terms term
+                  WHERE term.semester = t.semester
+                    AND term.academic_year = t.academic_year
+                    AND term.end_date >= CURRENT_DATE
+              )
+          END
+    )
+    SELECT
+        r.id,
+        r.room_name,
+        r.location,
+        r.capacity,
+        r.equipment,
+        r.capacity - COALESCE(_min_capacity, 1)
+    FROM public.classrooms r
+    WHERE COALESCE(r.availability_status, true)
+      AND r.capacity >= COALESCE(_min_capacity, 1)
+      AND COALESCE(r.equipment, '{}') @> COALESCE(_equipment, '{}')
+      AND r.id NOT IN (SELECT room_id FROM busy)
+      AND NOT EXISTS (
+          SELECT 1 FROM public.room_bookings b
+          WHERE _date IS NOT NULL
+            AND b.room_id = r.id
+            AND b.booking_date = _date
+            AND b.status = 'approved'
+            AND b.start_time < _end_time
+            AND _start_time < b.end_time
+      )
+    ORDER BY r.capacity - COALESCE(_min_capacity, 1), r.room_name;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
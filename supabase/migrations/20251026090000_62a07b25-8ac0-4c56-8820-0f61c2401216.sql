@@ -0,0 +1,86 @@
+-- Reject reschedules that clash with a class held that day, in the new room
+-- or for the same faculty member, or with an approved booking of the room.
+-- The session being moved never clashes with itself.
+CREATE OR REPLACE FUNCTION public.check_session_exception_conflicts()
+RETURNS TRIGGER AS $$
+DECLARE
+    _entry public.timetable%ROWTYPE;
+    _room_id UUID;
+    _clash RECORD;
+    _booking RECORD;
+BEGIN
+    IF NEW.kind <> 'rescheduled' THEN
+        RETURN NEW;
+    END IF;
+
+    SELECT * INTO _entry FROM public.timetable WHERE id = NEW.timetable_id;
+    _room_id := COALESCE(NEW.new_room_id, _entry.room_id);
+
+    SELECT
+        s.timetable_id AS id,
+        to_char(s.session_date, 'FMDay') AS day_of_week,
+        s.start_time,
+        s.end_time,
+        s.course_code,
+        s.course_name,
+        s.room_name,
+        s.faculty_name,
+        CASE WHEN s.room_id = _room_id THEN 'room' ELSE 'faculty' END AS kind
+    INTO _clash
+    FROM public.expand_timetable(NEW.new_date, NEW.new_date) s
+    WHERE s.status IN ('scheduled', 'rescheduled')
+      AND NOT (s.timetable_id = NEW.timetable_id AND COALESCE(s.original_date, s.session_date) = NEW.session_date)
+      AND (s.room_id = _room_id OR s.faculty_id = _entry.faculty_id)
+      AND s.start_time < NEW.new_end_time
+      AND NEW.new_start_time < s.end_time
+    ORDER BY (s.room_id = _room_id) DESC, s.start_time
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Rescheduled session % conflict with % on %', _clash.kind, _clash.course_code, NEW.new_date
+            USING ERRCODE = '23P01',
+                  DETAIL = json_build_object(
+                      'kind', _clash.kind,
+                      'timetable_id', _clash.id,
+                      'day_of_week', _clash.day_of_week,
+                      'start_time', _clash.start_time,
+                      'end_time', _clash.end_time,
+                      'course_code', _clash.course_code,
+                      'course_name', _clash.course_name,
+                      'room_name', _clash.room_name,
+                      'faculty_name', _clash.faculty_name
+                  )::text;
+    END IF;
+
+    SELECT b.id, b.title, b.booking_date, b.start_time, b.end_time, r.room_name
+    INTO _booking
+    FROM public.room_bookings b
+    JOIN public.classrooms r ON r.id = b.room_id
+    WHERE b.room_id = _room_id
+      AND b.booking_date = NEW.new_date
+      AND b.status = 'approved'
+      AND b.start_time < NEW.new_end_time
+      AND NEW.new_start_time < b.end_time
+    LIMIT 1;
+
+    IF FOUND THEN
+        RAISE EXCEPTION 'Rescheduled session clashes with approved booking %', _booking.title
+            USING ERRCODE = '23P01',
+                  DETAIL = json_build_object(
+                      'kind', 'booking',
+                      'booking_id', _booking.id,
+                      'booking_title', _booking.title,
+                      'booking_date', _booking.booking_date,
+                      'start_time', _booking.start_time,
+                      'end_time', _booking.end_time,
+                      'room_name', _booking.room_name
+                  )::text;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER check_session_exception_conflicts
+    BEFORE INSERT OR UPDATE ON public.session_exceptions
+    FOR EACH ROW EXECUTE FUNCTION public.check_session_exception_conflicts();
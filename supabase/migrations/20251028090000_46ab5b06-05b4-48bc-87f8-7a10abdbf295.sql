@@ -0,0 +1,92 @@
+-- Stores a generated timetable as the term's only open draft, together with
+-- its entries, in one transaction. Each element of _entries carries
+-- course_id, faculty_id, room_id, day_of_week, start_time and end_time.
+CREATE OR REPLACE FUNCTION public.save_timetable_draft(
+    _semester TEXT,
+    _academic_year TEXT,
+    _settings JSONB,
+    _unscheduled JSONB,
+    _entries JSONB
+)
+RETURNS UUID AS $$
+DECLARE
+    _admin_id UUID;
+    _draft_id UUID;
+BEGIN
+    SELECT id INTO _admin_id FROM public.profiles
+    WHERE user_id = auth.uid() AND role = 'admin';
+
+    IF _admin_id IS NULL THEN
+        RAISE EXCEPTION 'Only administrators can generate timetable drafts' USING ERRCODE = '42501';
+    END IF;
+
+    -- Only one open draft per term: older ones are superseded
+    UPDATE public.timetable_drafts
+    SET status = 'discarded'
+    WHERE semester = _semester AND academic_year = _academic_year AND status = 'draft';
+
+    INSERT INTO public.timetable_drafts (semester, academic_year, settings, unscheduled, created_by)
+    VALUES (_semester, _academic_year, _settings, _unscheduled, _admin_id)
+    RETURNING id INTO _draft_id;
+
+    INSERT INTO public.timetable_draft_entries (draft_id, course_id, faculty_id, room_id, day_of_week, start_time, end_time)
+    SELECT
+        _draft_id,
+        (e->>'course_id')::UUID,
+        (e->>'faculty_id')::UUID,
+        (e->>'room_id')::UUID,
+        e->>'day_of_week',
+        (e->>'start_time')::TIME,
+        (e->>'end_time')::TIME
+    FROM jsonb_array_elements(_entries) e;
+
+    RETURN _draft_id;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- A draft without entries would empty the term's timetable, so it cannot be committed
+CREATE OR REPLACE FUNCTION public.commit_timetable_draft(_draft_id UUID)
+RETURNS INTEGER AS $$
+DECLARE
+    _draft public.timetable_drafts%ROWTYPE;
+    _inserted INTEGER;
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM public.profiles
+        WHERE user_id = auth.uid() AND role = 'admin'
+    ) THEN
+        RAISE EXCEPTION 'Only administrators can commit timetable drafts'
+            USING ERRCODE = '42501';
+    END IF;
+
+    SELECT * INTO _draft FROM public.timetable_drafts WHERE id = _draft_id FOR UPDATE;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Timetable draft % not found', _draft_id;
+    END IF;
+
+    IF _draft.status <> 'draft' THEN
+        RAISE EXCEPTION 'Timetable draft % has already been %', _draft_id, _draft.status;
+    END IF;
+
+    IF NOT EXISTS (SELECT 1 FROM public.timetable_draft_entries WHERE draft_id = _draft_id) THEN
+        RAISE EXCEPTION 'Timetable draft % has no sessions to commit', _draft_id USING ERRCODE = '22023';
+    END IF;
+
+    DELETE FROM public.timetable
+    WHERE semester = _draft.semester AND academic_year = _draft.academic_year;
+
+    INSERT INTO public.timetable (course_id, faculty_id, room_id, day_of_week, start_time, end_time, semester, academic_year)
+    SELECT course_id, faculty_id, room_id, day_of_week, start_time, end_time, _draft.semester, _draft.academic_year
+    FROM public.timetable_draft_entries
+    WHERE draft_id = _draft_id;
+
+    GET DIAGNOSTICS _inserted = ROW_COUNT;
+
+    UPDATE public.timetable_drafts
+    SET status = 'committed', committed_at = NOW()
+    WHERE id = _draft_id;
+
+    RETURN _inserted;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
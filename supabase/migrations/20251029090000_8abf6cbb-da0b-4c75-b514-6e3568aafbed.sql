@@ -0,0 +1,14 @@
+-- Recipients may only mark notifications as read. The message itself is
+-- written by the notify triggers and cannot be rewritten or handed to
+-- another user.
+REVOKE UPDATE ON public.notifications FROM anon, authenticated;
+GRANT UPDATE (read_at) ON public.notifications TO authenticated;
+
+DROP POLICY "Users can mark their own notifications as read" ON public.notifications;
+
+CREATE POLICY "Users can mark their own notifications as read"
+ON public.notifications FOR UPDATE USING (
+    recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+) WITH CHECK (
+    recipient_id IN (SELECT id FROM public.profiles WHERE user_id = auth.uid())
+);
@@ -0,0 +1,72 @@
+-- Roll calls are only accepted for sessions that were actually held
+CREATE OR REPLACE FUNCTION public.record_attendance(
+    _timetable_id UUID,
+    _session_date DATE,
+    _held_on DATE,
+    _records JSONB,
+    _today DATE DEFAULT CURRENT_DATE
+)
+RETURNS UUID AS $$
+DECLARE
+    _marker UUID;
+    _session_id UUID;
+    _stranger TEXT;
+BEGIN
+    SELECT p.id INTO _marker
+    FROM public.profiles p
+    WHERE p.user_id = auth.uid()
+      AND (p.role = 'admin' OR p.id = (SELECT faculty_id FROM public.timetable WHERE id = _timetable_id));
+
+    IF _marker IS NULL THEN
+        RAISE EXCEPTION 'Only the faculty member teaching this class can take attendance' USING ERRCODE = '42501';
+    END IF;
+
+    IF _today NOT BETWEEN CURRENT_DATE - 1 AND CURRENT_DATE + 1 THEN
+        RAISE EXCEPTION 'The date % on this device is not today''s date', _today USING ERRCODE = '22007';
+    END IF;
+
+    IF _held_on > _today THEN
+        RAISE EXCEPTION 'Attendance cannot be taken for a session that has not happened yet' USING ERRCODE = '22023';
+    END IF;
+
+    -- The class must actually meet then: on its weekday within its term, or
+    -- on the date it was moved to, and not cancelled or suspended
+    IF NOT EXISTS (
+        SELECT 1 FROM public.expand_timetable(_held_on, _held_on) s
+        WHERE s.timetable_id = _timetable_id
+          AND s.status IN ('scheduled', 'rescheduled')
+          AND COALESCE(s.original_date, s.session_date) = _session_date
+    ) THEN
+        RAISE EXCEPTION 'This class does not take place on %', _held_on USING ERRCODE = '22023';
+    END IF;
+
+    SELECT r->>'student_id' INTO _stranger
+    FROM jsonb_array_elements(_records) r
+    WHERE NOT EXISTS (
+        SELECT 1 FROM public.timetable t
+        JOIN public.course_sections cs
+            ON cs.course_id = t.course_id AND cs.semester = t.semester AND cs.academic_year = t.academic_year
+        JOIN public.enrollments e ON e.section_id = cs.id AND e.status = 'enrolled'
+        WHERE t.id = _timetable_id AND e.student_id = (r->>'student_id')::UUID
+    )
+    LIMIT 1;
+
+    IF _stranger IS NOT NULL THEN
+        RAISE EXCEPTION 'Student % is not enrolled in this course', _stranger USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.class_sessions (timetable_id, session_date, held_on, taken_by)
+    VALUES (_timetable_id, _session_date, _held_on, _marker)
+    ON CONFLICT (timetable_id, session_date)
+    DO UPDATE SET held_on = EXCLUDED.held_on, taken_by = EXCLUDED.taken_by
+    RETURNING id INTO _session_id;
+
+    INSERT INTO public.attendance_records (session_id, student_id, status, note, marked_by)
+    SELECT _session_id, (r->>'student_id')::UUID, (r->>'status')::attendance_status, NULLIF(r->>'note', ''), _marker
+    FROM jsonb_array_elements(_records) r
+    ON CONFLICT (session_id, student_id)
+    DO UPDATE SET status = EXCLUDED.status, note = EXCLUDED.note, marked_by = EXCLUDED.marked_by;
+
+    RETURN _session_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,53 @@
+-- Check-in only opens for a session that takes place today
+CREATE OR REPLACE FUNCTION public.issue_checkin_token(
+    _timetable_id UUID,
+    _session_date DATE,
+    _held_on DATE,
+    _today DATE DEFAULT CURRENT_DATE
+)
+RETURNS TABLE (token TEXT, expires_at TIMESTAMP WITH TIME ZONE) AS $$
+DECLARE
+    _marker UUID;
+    _session_id UUID;
+BEGIN
+    SELECT p.id INTO _marker
+    FROM public.profiles p
+    WHERE p.user_id = auth.uid()
+      AND (p.role = 'admin' OR p.id = (SELECT t.faculty_id FROM public.timetable t WHERE t.id = _timetable_id));
+
+    IF _marker IS NULL THEN
+        RAISE EXCEPTION 'Only the faculty member teaching this class can take attendance' USING ERRCODE = '42501';
+    END IF;
+
+    IF _today NOT BETWEEN CURRENT_DATE - 1 AND CURRENT_DATE + 1 THEN
+        RAISE EXCEPTION 'The date % on this device is not today''s date', _today USING ERRCODE = '22007';
+    END IF;
+
+    IF _held_on <> _today THEN
+        RAISE EXCEPTION 'Self check-in is only open on the day the class takes place' USING ERRCODE = '22023';
+    END IF;
+
+    -- No tokens for a class that is cancelled, suspended or moved away today
+    IF NOT EXISTS (
+        SELECT 1 FROM public.expand_timetable(_held_on, _held_on) s
+        WHERE s.timetable_id = _timetable_id
+          AND s.status IN ('scheduled', 'rescheduled')
+          AND COALESCE(s.original_date, s.session_date) = _session_date
+    ) THEN
+        RAISE EXCEPTION 'This class does not take place on %', _held_on USING ERRCODE = '22023';
+    END IF;
+
+    INSERT INTO public.class_sessions (timetable_id, session_date, held_on, taken_by)
+    VALUES (_timetable_id, _session_date, _held_on, _marker)
+    ON CONFLICT (timetable_id, session_date)
+    DO UPDATE SET held_on = EXCLUDED.held_on
+    RETURNING id INTO _session_id;
+
+    DELETE FROM public.checkin_tokens k WHERE k.expires_at < NOW() - INTERVAL '1 hour';
+
+    token := replace(gen_random_uuid()::TEXT, '-', '');
+    expires_at := NOW() + INTERVAL '30 seconds';
+    INSERT INTO public.checkin_tokens (token, session_id, expires_at) VALUES (token, _session_id, expires_at);
+    RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;